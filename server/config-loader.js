@@ -7,6 +7,7 @@
 
 const path = require('path');
 const fs = require('fs');
+const { LevelRegistry, DEFAULT_SEVERITIES, DEFAULT_ALIASES } = require('./log-levels');
 
 class ConfigLoader {
   constructor(configPath = './config.json') {
@@ -37,7 +38,7 @@ class ConfigLoader {
         uploads: { directory: './uploads', maxFileSize: 10485760 }
       },
       logging: {
-        levels: { valid: ['info', 'warn', 'error', 'debug'], default: 'debug' },
+        levels: { severities: DEFAULT_SEVERITIES, aliases: DEFAULT_ALIASES, default: 'debug' },
         instrumentation: { defaultLevel: 'detailed', enabledByDefault: true },
         defaults: { sourceType: 'unknown', sourceVersion: '1.0.0', level: 'debug' }
       }
@@ -63,20 +64,58 @@ class ConfigLoader {
   get maxMonitoringEntries() { return this.config.server.limits.maxMonitoringEntries; }
   get validMonitoringTypes() { return this.config.monitoring?.types?.valid || ['variable', 'state', 'function', 'property', 'event']; }
   get enabledMonitoringTypes() { return this.config.monitoring?.types?.enabledByDefault || ['variable', 'state', 'function']; }
+  get maxHistoryPerVariable() { return this.config.monitoring?.storage?.maxHistoryPerVariable || 100; }
   get monitoringPersistence() { return this.config.monitoring?.storage?.enablePersistence !== false; }
   get monitoringRealtime() { return this.config.monitoring?.broadcasting?.enableRealtime !== false; }
 
+  // Ingestion Configuration
+  get ingestionListeners() { return this.config.ingestion?.listeners || []; }
+  get parserRules() { return this.config.ingestion?.parsers || []; }
+
   // Logging Configuration
-  get validLogLevels() { return this.config.logging.levels.valid; }
+  get logLevels() {
+    if (!this.levelRegistry) {
+      const levels = this.config.logging.levels;
+      const severities = levels.severities || (Array.isArray(levels.valid) ? this.legacyLevelSeverities(levels.valid) : DEFAULT_SEVERITIES);
+      this.levelRegistry = new LevelRegistry(severities, levels.aliases || DEFAULT_ALIASES);
+    }
+    return this.levelRegistry;
+  }
+  get validLogLevels() { return this.logLevels.names; }
   get defaultLogLevel() { return this.config.logging.levels.default; }
   get defaultInstrumentationLevel() { return this.config.logging.instrumentation.defaultLevel; }
   get defaultSourceType() { return this.config.logging.defaults.sourceType; }
   get defaultSourceVersion() { return this.config.logging.defaults.sourceVersion; }
   get defaultContentType() { return this.config.logging.defaults.contentType || 'image/png'; }
+  get internalSources() { return this.config.logging.provenance?.internalSources || ['SERVER']; }
+  get internalSourceTypes() { return this.config.logging.provenance?.internalSourceTypes || ['server']; }
 
   // Utility Methods
   isValidLogLevel(level) {
-    return this.validLogLevels.includes(level);
+    return this.logLevels.has(level);
+  }
+
+  // Older configs list level names under logging.levels.valid; standard
+  // names keep their default severity, anything else ranks with info
+  legacyLevelSeverities(valid) {
+    console.warn('Warning: logging.levels.valid is deprecated; list levels with their severities under logging.levels.severities instead.');
+    const severities = {};
+    valid.forEach((name) => {
+      const key = String(name).toLowerCase();
+      severities[key] = DEFAULT_SEVERITIES[key] !== undefined ? DEFAULT_SEVERITIES[key] : DEFAULT_SEVERITIES.info;
+    });
+    return severities;
+  }
+
+  // Registered level name for e.g. "WARNING", or undefined
+  normalizeLogLevel(level) {
+    return this.logLevels.normalize(level);
+  }
+
+  // Logs from the server itself or the viewer are internal; everything else
+  // is application output
+  isInternalSource(sourceId, sourceType) {
+    return this.internalSources.includes(sourceId) || this.internalSourceTypes.includes(sourceType);
   }
 
   isValidMonitoringType(type) {
@@ -90,10 +129,13 @@ class ConfigLoader {
       maxLogs: overrides.maxLogs || this.maxLogs,
       maxRecursiveLogs: overrides.maxRecursiveLogs || this.maxRecursiveLogs,
       maxMonitoringEntries: overrides.maxMonitoringEntries || this.maxMonitoringEntries,
+      maxHistoryPerVariable: overrides.maxHistoryPerVariable || this.maxHistoryPerVariable,
       enableWebSocket: overrides.enableWebSocket !== undefined ? overrides.enableWebSocket : this.enableWebSocket,
       enablePersistence: overrides.enablePersistence !== undefined ? overrides.enablePersistence : this.enablePersistence,
       persistenceFile: overrides.persistenceFile || this.persistenceFile,
       rateLimit: overrides.rateLimit || this.rateLimit,
+      listeners: overrides.listeners || this.ingestionListeners,
+      parserRules: overrides.parserRules || this.parserRules,
       ...overrides
     };
   }
@@ -63,6 +63,15 @@ class DatabaseAdapter {
     return this.backend.loadSources();
   }
 
+  // Parser rules saved from the viewer; null until any have been saved
+  async saveParserRules(rules) {
+    return this.backend.saveParserRules(rules);
+  }
+
+  async loadParserRules() {
+    return this.backend.loadParserRules();
+  }
+
   async addLog(log) {
     return this.backend.addLog(log);
   }
@@ -127,6 +136,17 @@ class FileBackend {
     return new Map(data.sources || []);
   }
 
+  async saveParserRules(rules) {
+    const data = await this.loadAllData();
+    data.parserRules = rules;
+    await this.saveAllData(data);
+  }
+
+  async loadParserRules() {
+    const data = await this.loadAllData();
+    return data.parserRules || null;
+  }
+
   async addLog(log) {
     // For file backend, we'll just trigger a full save (not optimal but simple)
     return null; // Indicates that the caller should handle it
@@ -232,6 +252,13 @@ class SQLiteBackend {
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`,
 
+      // Server settings edited at runtime, one JSON value per key
+      `CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
       // Indexes for performance
       `CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs(timestamp)`,
       `CREATE INDEX IF NOT EXISTS idx_logs_level ON logs(level)`,
@@ -358,6 +385,18 @@ class SQLiteBackend {
     return sources;
   }
 
+  async saveParserRules(rules) {
+    await this.runAsync(
+      "INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES ('parser_rules', ?, CURRENT_TIMESTAMP)",
+      [JSON.stringify(rules)]
+    );
+  }
+
+  async loadParserRules() {
+    const rows = await this.allAsync("SELECT value FROM settings WHERE key = 'parser_rules'");
+    return rows.length > 0 ? JSON.parse(rows[0].value) : null;
+  }
+
   async addLog(log) {
     const sql = `
       INSERT INTO logs (id, script_id, level, message, timestamp, time, source_id, data, stack, server_time)
@@ -552,6 +591,13 @@ class PostgreSQLBackend {
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )`,
 
+      // Server settings edited at runtime, one JSON value per key
+      `CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value JSONB,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )`,
+
       // Indexes for performance
       `CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs(timestamp)`,
       `CREATE INDEX IF NOT EXISTS idx_logs_level ON logs(level)`,
@@ -715,6 +761,29 @@ class PostgreSQLBackend {
     }
   }
 
+  async saveParserRules(rules) {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO settings (key, value, updated_at) VALUES ('parser_rules', $1, CURRENT_TIMESTAMP)
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at`,
+        [JSON.stringify(rules)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async loadParserRules() {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query("SELECT value FROM settings WHERE key = 'parser_rules'");
+      return result.rows.length > 0 ? result.rows[0].value : null;
+    } finally {
+      client.release();
+    }
+  }
+
   async addLog(log) {
     const client = await this.pool.connect();
     try {
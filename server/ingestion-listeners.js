@@ -0,0 +1,340 @@
+/**
+ * Ingestion Listeners for Allog Server
+ *
+ * Optional TCP/UDP listeners for producers that can't speak HTTP: syslog
+ * (RFC 5424/3164) and newline-delimited JSON. Each listener registers its
+ * own source and has its own rate limit. Parsed messages go through
+ * validateAndEnrichLogEntry like any other log; unparseable syslog lines are
+ * kept as raw text and invalid JSON as malformed entries.
+ *
+ * TCP streams are framed by newlines, or for syslog also by RFC 6587 octet
+ * counting ("<length> <message>"). Every UDP datagram is one syslog message
+ * or one or more NDJSON lines.
+ */
+
+const net = require('net');
+const dgram = require('dgram');
+const { parseSyslogMessage, normalizeJsonLog } = require('./log-line-parsers');
+
+const FORMATS = ['syslog', 'ndjson'];
+const PROTOCOLS = ['tcp', 'udp'];
+
+const LISTENER_DEFAULTS = {
+  enabled: false,
+  host: '0.0.0.0',
+  level: 'info',
+  sourceVersion: '1.0.0',
+  rateLimit: 1000,
+  rateLimitWindow: 60000,
+  maxMessageSize: 65536
+};
+
+class IngestionListeners {
+  constructor(server, listenerConfigs = []) {
+    this.server = server;
+    this.listeners = (Array.isArray(listenerConfigs) ? listenerConfigs : [])
+      .map((listenerConfig, index) => this.createListener(listenerConfig, index));
+  }
+
+  createListener(listenerConfig, index) {
+    const settings = { ...LISTENER_DEFAULTS, ...listenerConfig };
+    const name = settings.name || `${settings.format}-${settings.protocol}-${settings.port}`;
+    let error = null;
+    if (FORMATS.indexOf(settings.format) === -1) {
+      error = `format must be one of: ${FORMATS.join(', ')}`;
+    } else if (PROTOCOLS.indexOf(settings.protocol) === -1) {
+      error = `protocol must be one of: ${PROTOCOLS.join(', ')}`;
+    } else if (!Number.isInteger(settings.port) || settings.port <= 0 || settings.port > 65535) {
+      error = 'port must be a number between 1 and 65535';
+    }
+
+    return {
+      name,
+      index,
+      settings: {
+        ...settings,
+        name,
+        sourceId: settings.sourceId || name,
+        sourceType: settings.sourceType || settings.format
+      },
+      status: error ? 'error' : 'stopped',
+      error,
+      socket: null,
+      connections: new Set(),
+      rateWindow: { count: 0, resetTime: 0, warned: false },
+      stats: { received: 0, accepted: 0, rawText: 0, malformed: 0, dropped: 0, lastMessageAt: null }
+    };
+  }
+
+  /**
+   * Bind every enabled listener. Failures (e.g. a port in use) are recorded
+   * on the listener and logged; they never stop the server.
+   */
+  start() {
+    this.listeners.forEach((listener) => {
+      if (!listener.settings.enabled || listener.error) return;
+      if (listener.settings.protocol === 'tcp') {
+        this.startTcp(listener);
+      } else {
+        this.startUdp(listener);
+      }
+    });
+  }
+
+  stop() {
+    this.listeners.forEach((listener) => {
+      listener.connections.forEach((connection) => connection.destroy());
+      listener.connections.clear();
+      if (listener.socket) {
+        listener.socket.close();
+        listener.socket = null;
+      }
+      if (listener.status === 'listening') listener.status = 'stopped';
+    });
+  }
+
+  getStatus() {
+    return this.listeners.map((listener) => {
+      const { name, enabled, format, protocol, host, port, sourceId, sourceType, rateLimit, rateLimitWindow } = listener.settings;
+      return {
+        name,
+        enabled,
+        format,
+        protocol,
+        host,
+        port,
+        sourceId,
+        sourceType,
+        rateLimit,
+        rateLimitWindow,
+        status: listener.status,
+        error: listener.error,
+        connections: listener.connections.size,
+        stats: { ...listener.stats }
+      };
+    });
+  }
+
+  registerSource(listener) {
+    const { name, format, protocol, host, port, sourceId, sourceType, sourceVersion } = listener.settings;
+    this.server.registerSource({
+      sourceId,
+      sourceType,
+      sourceVersion,
+      metadata: { listener: name, format, protocol, address: `${host}:${port}` }
+    });
+  }
+
+  startTcp(listener) {
+    const { host, port } = listener.settings;
+    const socket = net.createServer((connection) => {
+      listener.connections.add(connection);
+      let buffer = Buffer.alloc(0);
+      connection.on('data', (chunk) => {
+        buffer = this.consumeStream(listener, Buffer.concat([buffer, chunk]));
+      });
+      connection.on('end', () => {
+        // A final message without a trailing newline
+        if (buffer.length > 0) this.handleMessage(listener, buffer.toString('utf8'));
+        buffer = Buffer.alloc(0);
+      });
+      connection.on('error', () => {});
+      connection.on('close', () => listener.connections.delete(connection));
+    });
+
+    this.bind(listener, socket, () => socket.listen(port, host));
+  }
+
+  startUdp(listener) {
+    const { host, port } = listener.settings;
+    const socket = dgram.createSocket(host.indexOf(':') !== -1 ? 'udp6' : 'udp4');
+    socket.on('message', (message) => {
+      const text = message.toString('utf8');
+      if (listener.settings.format === 'syslog') {
+        this.handleMessage(listener, text);
+      } else {
+        text.split('\n').forEach((line) => this.handleMessage(listener, line));
+      }
+    });
+
+    this.bind(listener, socket, () => socket.bind(port, host));
+  }
+
+  bind(listener, socket, listen) {
+    const { name, protocol, host, port } = listener.settings;
+    listener.status = 'starting';
+    socket.on('error', (error) => {
+      listener.status = 'error';
+      listener.error = error.message;
+      this.logListenerEvent('error', `Ingestion listener ${name} failed: ${error.message}`, listener);
+      try {
+        socket.close();
+      } catch (closeError) {
+        // Never bound
+      }
+      listener.socket = null;
+    });
+    socket.on('listening', () => {
+      listener.status = 'listening';
+      listener.error = null;
+      this.registerSource(listener);
+      this.logListenerEvent('info', `Ingestion listener ${name} accepting ${listener.settings.format} on ${protocol}://${host}:${port}`, listener);
+    });
+    listener.socket = socket;
+    listen();
+  }
+
+  /**
+   * Split complete messages off a TCP buffer and return what is left over.
+   * Messages longer than maxMessageSize are cut off there.
+   */
+  consumeStream(listener, buffer) {
+    const { format, maxMessageSize } = listener.settings;
+    const take = (start, end) => this.handleMessage(listener, buffer.slice(start, Math.min(end, start + maxMessageSize)).toString('utf8'));
+    let offset = 0;
+
+    for (;;) {
+      // RFC 6587 octet counting: "<length> <message>", length in bytes
+      const counted = format === 'syslog' ? /^(\d{1,7}) /.exec(buffer.slice(offset, offset + 8).toString('latin1')) : null;
+      if (counted) {
+        const start = offset + counted[0].length;
+        const end = start + parseInt(counted[1], 10);
+        if (buffer.length < end) break;
+        take(start, end);
+        offset = end;
+        if (buffer[offset] === 0x0d) offset++;
+        if (buffer[offset] === 0x0a) offset++;
+        continue;
+      }
+
+      const newline = buffer.indexOf(0x0a, offset);
+      if (newline === -1) break;
+      take(offset, newline);
+      offset = newline + 1;
+    }
+
+    if (buffer.length - offset > maxMessageSize) {
+      take(offset, buffer.length);
+      return Buffer.alloc(0);
+    }
+    return buffer.slice(offset);
+  }
+
+  // Fixed window per listener; the first drop in a window is logged
+  allowMessage(listener) {
+    const now = Date.now();
+    const { rateLimit, rateLimitWindow } = listener.settings;
+    const window = listener.rateWindow;
+    if (now > window.resetTime) {
+      window.count = 0;
+      window.resetTime = now + rateLimitWindow;
+      window.warned = false;
+    }
+    window.count++;
+    if (window.count <= rateLimit) return true;
+
+    listener.stats.dropped++;
+    if (!window.warned) {
+      window.warned = true;
+      this.logListenerEvent(
+        'warn',
+        `Ingestion listener ${listener.settings.name} exceeded ${rateLimit} messages per ${rateLimitWindow}ms; dropping until the window resets`,
+        listener
+      );
+    }
+    return false;
+  }
+
+  handleMessage(listener, raw) {
+    const text = raw.replace(/\r$/, '');
+    if (!text.trim()) return;
+    listener.stats.received++;
+    if (!this.allowMessage(listener)) return;
+
+    try {
+      const logEntry = listener.settings.format === 'syslog'
+        ? this.createSyslogEntry(listener, text)
+        : this.createJsonEntry(listener, text);
+
+      listener.stats.lastMessageAt = new Date().toISOString();
+      if (logEntry.quality === 'raw-text') {
+        listener.stats.rawText++;
+      } else if (logEntry.quality === 'malformed') {
+        listener.stats.malformed++;
+      } else {
+        listener.stats.accepted++;
+      }
+
+      this.server.touchSource(listener.settings.sourceId);
+      this.server.addLogEntry(logEntry);
+    } catch (error) {
+      listener.stats.malformed++;
+      console.error(`Ingestion listener ${listener.settings.name} error:`, error);
+    }
+  }
+
+  createSyslogEntry(listener, text) {
+    const { sourceId, sourceType, sourceVersion, level } = listener.settings;
+    const parsed = parseSyslogMessage(text);
+    if (!parsed) {
+      return this.withListenerSource(this.server.createRawTextLogEntry(text, sourceId, level), listener);
+    }
+    return this.server.validateAndEnrichLogEntry({
+      ...parsed,
+      scriptId: parsed.scriptId || sourceId,
+      sourceType,
+      sourceVersion
+    }, sourceId);
+  }
+
+  createJsonEntry(listener, text) {
+    const { sourceId, sourceType, sourceVersion, level } = listener.settings;
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      return this.withListenerSource(this.server.createMalformedLogEntry(text, sourceId, `Invalid JSON: ${error.message}`), listener);
+    }
+
+    const entry = normalizeJsonLog(parsed);
+    if (!entry) {
+      return this.withListenerSource(this.server.createMalformedLogEntry(parsed, sourceId, 'NDJSON line is not an object'), listener);
+    }
+
+    try {
+      return this.server.validateAndEnrichLogEntry({
+        ...entry,
+        message: entry.message || '(no message)',
+        level: entry.level || level,
+        scriptId: entry.scriptId || sourceId,
+        sourceType,
+        sourceVersion: entry.sourceVersion || sourceVersion
+      }, sourceId);
+    } catch (error) {
+      return this.withListenerSource(this.server.createMalformedLogEntry(parsed, sourceId, error.message), listener);
+    }
+  }
+
+  // Raw and malformed entries default to the server's generic source type
+  withListenerSource(logEntry, listener) {
+    logEntry.sourceType = listener.settings.sourceType;
+    logEntry.scriptId = logEntry.scriptId || listener.settings.sourceId;
+    return this.server.applyProvenance(logEntry);
+  }
+
+  logListenerEvent(level, message, listener) {
+    const { name, format, protocol, host, port, sourceId } = listener.settings;
+    this.server.addServerLog({
+      id: this.server.generateLogId(),
+      timestamp: new Date().toISOString(),
+      level,
+      scriptId: 'SERVER',
+      sourceId: 'SERVER',
+      sourceType: 'server',
+      message,
+      data: { listener: name, format, protocol, host, port, sourceId, error: listener.error || undefined }
+    });
+  }
+}
+
+module.exports = IngestionListeners;
@@ -22,6 +22,7 @@ const cors = require('cors');
 const http = require('http');
 const WebSocket = require('ws');
 const path = require('path');
+const crypto = require('crypto');
 const gracefulFs = require('graceful-fs');
 const fs = gracefulFs.promises;
 const { config } = require('./config-loader');
@@ -29,10 +30,22 @@ const { DatabaseAdapter } = require('./database-adapter');
 const ErrorHandler = require('./error-handler');
 const MetricsCollector = require('./metrics-collector');
 const HealthChecker = require('./health-checker');
+const IngestionListeners = require('./ingestion-listeners');
+const { ParserPipeline, ParserRuleError, RULE_TYPES, GROK_PATTERNS } = require('./parser-pipeline');
+const { compileQuery, parseQuery, evaluateQuery, QuerySyntaxError } = require('./query-language');
+const { convertOtlpLogs, OtlpFormatError } = require('./otlp-receiver');
 
 // Enable graceful file system operations
 gracefulFs.gracefulify(require('fs'));
 
+// Round histogram bucket sizes (ms), smallest first
+const LOG_HISTOGRAM_STEPS = [
+  1000, 2000, 5000, 10000, 15000, 30000,
+  60000, 2 * 60000, 5 * 60000, 10 * 60000, 15 * 60000, 30 * 60000,
+  3600000, 3 * 3600000, 6 * 3600000, 12 * 3600000, 86400000, 7 * 86400000
+];
+const LOG_HISTOGRAM_MAX_BUCKETS = 1000;
+
 class AllogIntermediaryServer {
   constructor(configOverrides = {}) {
     this.config = config.getServerConfig(configOverrides);
@@ -42,7 +55,8 @@ class AllogIntermediaryServer {
     this.serverLogs = []; // Separate collection for server logs
     this.sources = new Map();
     this.connections = new Set();
-    this.monitoringData = new Map();
+    this.monitoringData = [];
+    this.monitoringIndexes = this.createMonitoringIndexes();
     this.rateLimitCounters = new Map();
     this.lastCleanup = Date.now();
     this.lastLogRotation = Date.now();
@@ -59,6 +73,8 @@ class AllogIntermediaryServer {
     this.errorHandler = new ErrorHandler(this);
     this.metricsCollector = new MetricsCollector(this);
     this.healthChecker = new HealthChecker(this);
+    this.ingestionListeners = new IngestionListeners(this, this.config.listeners);
+    this.parserPipeline = this.createParserPipeline(this.config.parserRules);
     
     this.app = express();
     this.setupMiddleware();
@@ -320,7 +336,7 @@ class AllogIntermediaryServer {
     // Simple /logs endpoint for client compatibility
     this.app.get('/logs', (req, res) => {
       try {
-        const { limit = 100, offset = 0, level, sourceId, scriptId } = req.query;
+        const { limit = 100, offset = 0, level, minLevel, sourceId, scriptId } = req.query;
         
         let filteredLogs = [...this.logs];
         
@@ -328,6 +344,9 @@ class AllogIntermediaryServer {
         if (level) {
           filteredLogs = filteredLogs.filter(log => log.level === level);
         }
+        if (minLevel) {
+          filteredLogs = filteredLogs.filter(log => this.meetsMinLevel(log, minLevel));
+        }
         if (sourceId) {
           filteredLogs = filteredLogs.filter(log => log.sourceId === sourceId);
         }
@@ -411,12 +430,8 @@ class AllogIntermediaryServer {
         // Clear server logs as well
         this.serverLogs = [];
         
-        // Clear monitoring data safely
-        if (this.monitoringData && typeof this.monitoringData.clear === 'function') {
-          this.monitoringData.clear();
-        } else if (this.monitoringData) {
-          this.monitoringData = new Map();
-        }
+        // Clear monitoring data
+        this.monitoringData = [];
         
         // Clear rate limit counters safely
         if (this.rateLimitCounters && typeof this.rateLimitCounters.clear === 'function') {
@@ -447,11 +462,7 @@ class AllogIntermediaryServer {
           this.logIndexes.byScript = new Map();
         }
         
-        if (this.monitoringIndexes) {
-          this.monitoringIndexes.byTimeRange = [];
-          this.monitoringIndexes.byType = new Map();
-          this.monitoringIndexes.bySource = new Map();
-        }
+        this.monitoringIndexes = this.createMonitoringIndexes();
         
         res.json({
           message: 'All logs and data cleared',
@@ -529,23 +540,7 @@ class AllogIntermediaryServer {
           });
         }
 
-        this.sources.set(sourceId, {
-          sourceId,
-          sourceType,
-          sourceVersion,
-          metadata: metadata || {},
-          registeredAt: new Date().toISOString(),
-          lastSeen: new Date().toISOString(),
-          logCount: 0
-        });
-
-        console.log(`Registered source: ${sourceId} (${sourceType})`);
-        
-        // Broadcast to WebSocket connections
-        this.broadcastToViewers({
-          type: 'source_registered',
-          data: this.sources.get(sourceId)
-        });
+        this.registerSource({ sourceId, sourceType, sourceVersion, metadata });
 
         res.json({
           message: 'Source registered successfully',
@@ -613,13 +608,13 @@ class AllogIntermediaryServer {
           logEntry = this.createRawTextLogEntry(String(rawData), sourceId);
         }
         
-        await this.addLogEntry(logEntry);
+        const storedEntry = (await this.addLogEntry(logEntry)) || logEntry;
         
         res.json({
           message: 'Raw log entry received',
           logId: logEntry.id,
           serverTime: new Date().toISOString(),
-          quality: logEntry.quality || 'normal'
+          quality: storedEntry.quality || 'normal'
         });
       } catch (error) {
         const errorResponse = this.errorHandler.createErrorResponse(error, {
@@ -644,13 +639,13 @@ class AllogIntermediaryServer {
         }
         
         const logEntry = this.createRawTextLogEntry(text, sourceId, level);
-        await this.addLogEntry(logEntry);
+        const storedEntry = (await this.addLogEntry(logEntry)) || logEntry;
         
         res.json({
           message: 'Text log entry received',
           logId: logEntry.id,
           serverTime: new Date().toISOString(),
-          quality: 'raw-text'
+          quality: storedEntry.quality
         });
       } catch (error) {
         const errorResponse = this.errorHandler.createErrorResponse(error, {
@@ -675,13 +670,13 @@ class AllogIntermediaryServer {
         }
         
         const logEntry = this.createRawTextLogEntry(text, sourceId, level);
-        await this.addLogEntry(logEntry);
+        const storedEntry = (await this.addLogEntry(logEntry)) || logEntry;
         
         res.json({
           message: 'Text log entry received via GET',
           logId: logEntry.id,
           serverTime: new Date().toISOString(),
-          quality: 'raw-text',
+          quality: storedEntry.quality,
           method: 'GET'
         });
       } catch (error) {
@@ -723,57 +718,39 @@ class AllogIntermediaryServer {
       }
     });
 
-    // Get all logs
-    this.app.get('/api/logs', async (req, res) => {
+    // OTLP/HTTP logs receiver (JSON encoding). Exporters post to
+    // `<endpoint>/v1/logs`, so both the bare and the /api/otlp paths work.
+    this.app.post(['/v1/logs', '/api/otlp/v1/logs'], async (req, res) => {
+      if (!req.is('application/json')) {
+        return res.status(415).json({
+          error: 'Only the OTLP JSON encoding is supported; set the exporter protocol to http/json'
+        });
+      }
+
       try {
-        const { level, sourceId, scriptId, limit, offset } = req.query;
-        
-        // Create cache key based on query parameters
-        const cacheKey = `logs:${level || 'all'}:${sourceId || 'all'}:${scriptId || 'all'}:${limit || 'all'}:${offset || 'all'}`;
-        
-        // Try to get from cache first
-        let cachedResult = await this.getCachedData(cacheKey);
-        if (cachedResult) {
-          return res.json(cachedResult);
-        }
-        
-        let filteredLogs = [...this.logs];
+        const entries = convertOtlpLogs(req.body, { sourceId: req.get('X-Source-ID') });
+        const errors = [];
 
-        // Apply filters
-        if (level) {
-          filteredLogs = filteredLogs.filter(log => log.level === level);
-        }
-        if (sourceId) {
-          filteredLogs = filteredLogs.filter(log => log.sourceId === sourceId);
-        }
-        if (scriptId) {
-          filteredLogs = filteredLogs.filter(log => log.scriptId === scriptId);
+        for (const { sourceId, log } of entries) {
+          try {
+            await this.addLogEntry(this.validateAndEnrichLogEntry(log, sourceId));
+          } catch (error) {
+            errors.push(error.message);
+          }
         }
 
-        // Apply pagination
-        const start = parseInt(offset) || 0;
-        const end = limit ? start + parseInt(limit) : filteredLogs.length;
-        const paginatedLogs = filteredLogs.slice(start, end);
-
-        const result = {
-          logs: paginatedLogs,
-          total: filteredLogs.length,
-          start: start,
-          end: end,
-          hasMore: end < filteredLogs.length
-        };
-        
-        // Cache the result for 30 seconds
-        await this.cacheData(cacheKey, result, 30000);
-        
-        res.json(result);
-      } catch (error) {
-        const errorResponse = this.errorHandler.createErrorResponse(error, {
-          endpoint: '/api/logs',
-          method: 'GET',
-          sourceId: req.get('X-Source-ID') || 'unknown'
+        // An empty partialSuccess means everything was accepted
+        res.json({
+          partialSuccess: errors.length > 0
+            ? { rejectedLogRecords: String(errors.length), errorMessage: errors[0] }
+            : {}
         });
-        res.status(errorResponse.statusCode).json(errorResponse);
+      } catch (error) {
+        if (error instanceof OtlpFormatError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('OTLP log error:', error);
+        res.status(500).json({ error: error.message });
       }
     });
 
@@ -848,83 +825,87 @@ class AllogIntermediaryServer {
       }
     });
 
-    // Get logs with filtering
+    // Get logs with filtering, sorting and cursor pagination
     this.app.get('/api/logs', (req, res) => {
       try {
-        console.log('GET /api/logs called with query:', req.query);
-        const { sourceId, level, scriptId, limit, offset, search, since, until } = req.query;
-
-        let filteredLogs = [...this.logs];
-
-        // Apply filters
-        if (sourceId) {
-          filteredLogs = filteredLogs.filter(log => log.sourceId === sourceId);
+        const result = this.queryLogs(this.parseLogQuery(req.query));
+        res.json(result);
+      } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return res.status(400).json({ error: 'Invalid query', message: error.message, position: error.position });
         }
+        console.error('Get logs error:', error);
+        res.status(500).json({ error: 'Failed to retrieve logs' });
+      }
+    });
 
-        if (level) {
-          const levels = level.split(',');
-          filteredLogs = filteredLogs.filter(log => levels.includes(log.level));
+    // Log volume per level over time, with the same filters as /api/logs
+    this.app.get('/api/logs/histogram', (req, res) => {
+      try {
+        const bucket = req.query.bucket && req.query.bucket !== 'auto' ? this.parseBucketSize(req.query.bucket) : null;
+        if (req.query.bucket && req.query.bucket !== 'auto' && !bucket) {
+          return res.status(400).json({ error: 'Invalid bucket size', bucket: req.query.bucket });
         }
-
-        if (scriptId) {
-          filteredLogs = filteredLogs.filter(log => log.scriptId === scriptId);
+        const targetBuckets = parseInt(req.query.buckets, 10);
+        res.json(this.getLogHistogram(
+          this.parseLogQuery(req.query),
+          bucket,
+          targetBuckets > 0 ? Math.min(targetBuckets, LOG_HISTOGRAM_MAX_BUCKETS) : undefined
+        ));
+      } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return res.status(400).json({ error: 'Invalid query', message: error.message, position: error.position });
         }
+        console.error('Log histogram error:', error);
+        res.status(500).json({ error: 'Failed to build log histogram' });
+      }
+    });
 
-        if (search) {
-          const searchLower = search.toLowerCase();
-          filteredLogs = filteredLogs.filter(log => 
-            log.message.toLowerCase().includes(searchLower) ||
-            (log.data && JSON.stringify(log.data).toLowerCase().includes(searchLower))
-          );
+    // Entries from every source around one log, ignoring filters
+    this.app.get('/api/logs/:id/context', (req, res) => {
+      try {
+        const number = (value) => {
+          const parsed = parseFloat(value);
+          return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+        };
+        const result = this.getLogContext(req.params.id, {
+          before: number(req.query.before),
+          after: number(req.query.after),
+          seconds: number(req.query.seconds),
+          includeInternal: req.query.includeInternal === 'true'
+        });
+        if (!result) {
+          return res.status(404).json({ error: 'Log not found', id: req.params.id });
         }
+        res.json(result);
+      } catch (error) {
+        console.error('Get log context error:', error);
+        res.status(500).json({ error: 'Failed to retrieve log context' });
+      }
+    });
 
-        if (since) {
-          const sinceDate = new Date(since);
-          filteredLogs = filteredLogs.filter(log => {
-            const logTime = log.time || log.timestamp || new Date().toISOString();
-            return new Date(logTime) >= sinceDate;
-          });
-        }
+    // Recently seen trace ids, newest first
+    this.app.get('/api/traces', (req, res) => {
+      try {
+        const limit = parseInt(req.query.limit, 10);
+        res.json({ traces: this.getTraceSummaries(limit > 0 ? limit : 100) });
+      } catch (error) {
+        console.error('Get traces error:', error);
+        res.status(500).json({ error: 'Failed to retrieve traces' });
+      }
+    });
 
-        if (until) {
-          const untilDate = new Date(until);
-          filteredLogs = filteredLogs.filter(log => {
-            const logTime = log.time || log.timestamp || new Date().toISOString();
-            return new Date(logTime) <= untilDate;
-          });
+    // Every log and monitoring entry sharing one trace id, across sources
+    this.app.get('/api/traces/:traceId', (req, res) => {
+      try {
+        const trace = this.getTrace(req.params.traceId);
+        if (trace.logs.length === 0 && trace.monitoring.length === 0) {
+          return res.status(404).json({ error: 'Trace not found', traceId: req.params.traceId });
         }
-
-        // Sort by time (newest first)
-        filteredLogs.sort((a, b) => {
-          const timeA = a.time || a.timestamp || new Date().toISOString();
-          const timeB = b.time || b.timestamp || new Date().toISOString();
-          return new Date(timeB) - new Date(timeA);
-        });
-
-        // Apply pagination (if limit provided). If not provided, return all.
-        const total = filteredLogs.length;
-        const start = parseInt(offset || 0);
-        const limitNum = (limit !== undefined) ? parseInt(limit) : null;
-        const end = (limitNum != null && !Number.isNaN(limitNum)) ? (start + limitNum) : total;
-        const paginatedLogs = filteredLogs.slice(start, end);
-
-        const response = {
-          logs: paginatedLogs,
-          total,
-          offset: start,
-          limit: limitNum != null ? limitNum : total,
-          hasMore: end < total,
-          performance: {
-            indexUsed: sourceId || level || scriptId || (since && until),
-            filteredCount: total,
-            returnedCount: paginatedLogs.length
-          }
-        };
-        console.log('Sending logs response:', { total, returnedCount: paginatedLogs.length });
-        res.json(response);
+        res.json(trace);
       } catch (error) {
-        console.error('Get logs error:', error);
-        res.status(500).json({ error: 'Failed to retrieve logs' });
+        console.error('Get trace error:', error);
+        res.status(500).json({ error: 'Failed to retrieve trace' });
       }
     });
 
@@ -949,6 +930,15 @@ class AllogIntermediaryServer {
       });
     });
 
+    // Level registry, least to most severe
+    this.app.get('/api/levels', (req, res) => {
+      res.json({
+        levels: config.logLevels.toJSON(),
+        aliases: config.logLevels.aliases,
+        default: config.defaultLogLevel
+      });
+    });
+
     // Get registered sources
     this.app.get('/api/sources', (req, res) => {
       res.json({
@@ -979,9 +969,50 @@ class AllogIntermediaryServer {
 
     // Legacy endpoint removed - use DELETE /api/logs instead
 
+    // Parser rules for raw-text and malformed logs, see parser-pipeline.js.
+    // Saved rules are persisted and replace the seed rules from config.json.
+    this.app.get('/api/parsers', (req, res) => {
+      res.json({
+        rules: this.parserPipeline.getRules(),
+        types: RULE_TYPES,
+        grokPatterns: Object.keys(GROK_PATTERNS)
+      });
+    });
+
+    this.app.put('/api/parsers', (req, res) => {
+      try {
+        this.parserPipeline.setRules((req.body || {}).rules);
+        this.persistParserRules();
+        res.json({ rules: this.parserPipeline.getRules() });
+      } catch (error) {
+        if (error instanceof ParserRuleError) {
+          return res.status(400).json({ error: error.message, ruleId: error.ruleId });
+        }
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Try a rule, saved or not, against sample lines
+    this.app.post('/api/parsers/test', (req, res) => {
+      const { rule, lines } = req.body || {};
+      try {
+        res.json({ results: ParserPipeline.test(rule, Array.isArray(lines) ? lines.slice(0, 100) : [lines]) });
+      } catch (error) {
+        if (error instanceof ParserRuleError) {
+          return res.status(400).json({ error: error.message, ruleId: error.ruleId });
+        }
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Syslog/NDJSON listeners with their status and message counts
+    this.app.get('/api/ingestion/listeners', (req, res) => {
+      res.json({ listeners: this.ingestionListeners.getStatus() });
+    });
+
     // Minimal scripts list endpoint for UI compatibility
     this.app.get('/api/logs/scripts', (req, res) => {
-      const scripts = Array.from(new Set(this.logs.map(l => l.scriptId).filter(Boolean)));
+      const scripts = Array.from(new Set(this.logs.map(l => l.scriptId || l.sourceId).filter(Boolean)));
       res.json({ scripts });
     });
 
@@ -1080,16 +1111,14 @@ class AllogIntermediaryServer {
         
         // Apply limits to existing data if needed
         if (this.logs.length > this.config.maxLogs) {
-          this.logs = this.logs.slice(-this.config.maxLogs);
+          this.rotateLogs();
         }
         if (this.serverLogs.length > (this.config.maxRecursiveLogs || this.config.maxLogs)) {
           this.serverLogs = this.serverLogs.slice(-(this.config.maxRecursiveLogs || this.config.maxLogs));
         }
-        if (this.monitoringData.size > this.config.maxMonitoringEntries) {
-          // Convert to array, slice, then back to Map
-          const entries = Array.from(this.monitoringData.entries());
-          const sliced = entries.slice(-this.config.maxMonitoringEntries);
-          this.monitoringData = new Map(sliced);
+        if (this.monitoringData.length > this.config.maxMonitoringEntries) {
+          this.monitoringData = this.monitoringData.slice(-this.config.maxMonitoringEntries);
+          this.rebuildMonitoringIndexes();
         }
         
         res.json({ 
@@ -1108,7 +1137,7 @@ class AllogIntermediaryServer {
     // Individual monitoring data endpoint
     this.app.post('/api/monitoring/data', async (req, res) => {
       try {
-        const { moduleId, scriptId, type, name, value, previousValue, metadata } = req.body;
+        const { moduleId, scriptId, type, name, value, previousValue, metadata, traceId, spanId, parentSpanId } = req.body;
         const sourceId = req.get('X-Source-ID');
 
         // Validate required fields
@@ -1134,6 +1163,9 @@ class AllogIntermediaryServer {
           value,
           previousValue,
           metadata,
+          traceId,
+          spanId,
+          parentSpanId,
           sourceId
         });
 
@@ -1161,7 +1193,7 @@ class AllogIntermediaryServer {
         }
 
         const processedEntries = entries.map(entry => {
-          const { moduleId, scriptId, type, name, value, previousValue, metadata } = entry;
+          const { moduleId, scriptId, type, name, value, previousValue, metadata, traceId, spanId, parentSpanId } = entry;
           
           // Validate required fields for each entry
           if (!moduleId || !scriptId || !type || !name || value === undefined) {
@@ -1176,6 +1208,9 @@ class AllogIntermediaryServer {
             value,
             previousValue,
             metadata,
+            traceId,
+            spanId,
+            parentSpanId,
             sourceId
           });
         });
@@ -1217,6 +1252,34 @@ class AllogIntermediaryServer {
       }
     });
 
+    // Value history for monitored variables, oldest first. Without a name,
+    // returns every variable matching the other filters (used for sparklines)
+    this.app.get('/api/monitoring/history', (req, res) => {
+      try {
+        const { moduleId, scriptId, type, name } = req.query;
+        // Accept epoch milliseconds as well as date strings
+        const toTime = (value) => /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+        const since = req.query.since ? toTime(req.query.since) : null;
+        const until = req.query.until ? toTime(req.query.until) : null;
+        if ((since !== null && isNaN(since)) || (until !== null && isNaN(until))) {
+          return res.status(400).json({ error: 'since and until must be valid dates or timestamps' });
+        }
+        const limit = req.query.limit ? parseInt(req.query.limit, 10) : null;
+        if (limit !== null && (isNaN(limit) || limit < 1)) {
+          return res.status(400).json({ error: 'limit must be a positive integer' });
+        }
+
+        const series = this.getMonitoringHistory({ moduleId, scriptId, type, name, since, until, limit });
+        res.json({
+          series,
+          maxHistory: this.config.maxHistoryPerVariable || 100
+        });
+      } catch (error) {
+        console.error('Monitoring history error:', error);
+        res.status(500).json({ error: 'Failed to fetch monitoring history' });
+      }
+    });
+
     // === EXPORT ENDPOINTS ===
     
     // Export logs in various formats
@@ -1228,6 +1291,7 @@ class AllogIntermediaryServer {
           end, 
           sourceId, 
           level, 
+          minLevel,
           scriptId,
           includeRecursive = 'false'
         } = req.query;
@@ -1253,6 +1317,10 @@ class AllogIntermediaryServer {
           filteredLogs = filteredLogs.filter(log => log.level === level);
         }
 
+        if (minLevel) {
+          filteredLogs = filteredLogs.filter(log => this.meetsMinLevel(log, minLevel));
+        }
+
         if (scriptId) {
           filteredLogs = filteredLogs.filter(log => log.scriptId === scriptId);
         }
@@ -1762,12 +1830,14 @@ class AllogIntermediaryServer {
 
         // Import monitoring data
         if (monitoringData && Array.isArray(monitoringData)) {
-          if (replaceExisting) this.monitoringData = new Map();
+          if (replaceExisting) this.monitoringData = [];
+          const existingIds = new Set(this.monitoringData.map(entry => entry.id));
           
           monitoringData.forEach(entry => {
             try {
-              if (!entry.id || !this.monitoringData.has(entry.id)) {
-                this.monitoringData.set(entry.id, entry);
+              if (!entry.id || !existingIds.has(entry.id)) {
+                this.monitoringData.push(entry);
+                existingIds.add(entry.id);
                 results.monitoring.imported++;
               } else {
                 results.monitoring.skipped++;
@@ -1779,11 +1849,11 @@ class AllogIntermediaryServer {
 
           // Maintain size limit
           const maxMonitoring = this.config.maxMonitoringEntries || (this.config.maxLogs * 2);
-          if (this.monitoringData.size > maxMonitoring) {
-            const entries = Array.from(this.monitoringData.entries());
-            const sliced = entries.slice(-maxMonitoring);
-            this.monitoringData = new Map(sliced);
+          this.monitoringData.sort((a, b) => a.timestamp - b.timestamp);
+          if (this.monitoringData.length > maxMonitoring) {
+            this.monitoringData = this.monitoringData.slice(-maxMonitoring);
           }
+          this.rebuildMonitoringIndexes();
         }
 
         // Import sources
@@ -1989,8 +2059,17 @@ class AllogIntermediaryServer {
   handleWebSocketMessage(ws, message) {
     switch (message.type) {
       case 'subscribe':
-        // Handle subscription to specific sources/levels
-        ws.subscriptions = message.data || {};
+        // Replace this viewer's subscription (levels, sources, scripts,
+        // text patterns/query, internal logs and monitoring categories)
+        try {
+          ws.subscriptions = this.normalizeSubscription(message.data || {});
+          ws.send(JSON.stringify({ type: 'subscribed', data: message.data || {} }));
+        } catch (error) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            data: { message: `Invalid subscription: ${error.message}`, position: error.position }
+          }));
+        }
         break;
       
       case 'ping':
@@ -2002,13 +2081,44 @@ class AllogIntermediaryServer {
     }
   }
 
+  registerSource({ sourceId, sourceType, sourceVersion, metadata }) {
+    this.sources.set(sourceId, {
+      sourceId,
+      sourceType,
+      sourceVersion,
+      metadata: metadata || {},
+      registeredAt: new Date().toISOString(),
+      lastSeen: new Date().toISOString(),
+      logCount: 0
+    });
+
+    console.log(`Registered source: ${sourceId} (${sourceType})`);
+
+    // Broadcast to WebSocket connections
+    this.broadcastToViewers({
+      type: 'source_registered',
+      data: this.sources.get(sourceId)
+    });
+  }
+
+  // Count a log against a registered source
+  touchSource(sourceId) {
+    const source = this.sources.get(sourceId);
+    if (source) {
+      source.lastSeen = new Date().toISOString();
+      source.logCount = (source.logCount || 0) + 1;
+    }
+  }
+
   validateAndEnrichLogEntry(logData, sourceId) {
     // Validate required fields
     if (!logData.message) {
       throw new Error('message is required');
     }
 
-    if (!logData.level || !config.isValidLogLevel(logData.level)) {
+    // Accept other loggers' spellings ("WARNING", "Err") of registered levels
+    const level = config.normalizeLogLevel(logData.level);
+    if (!level) {
       throw new Error(`level must be one of: ${config.validLogLevels.join(', ')}`);
     }
 
@@ -2016,9 +2126,12 @@ class AllogIntermediaryServer {
     const enrichedLog = {
       id: logData.id || `${sourceId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       message: logData.message,
-      time: logData.time || new Date().toISOString(),
-      level: logData.level,
+      time: logData.time || logData.timestamp || new Date().toISOString(),
+      level,
       data: logData.data,
+      stack: logData.stack,
+      scriptId: logData.scriptId,
+      tags: Array.isArray(logData.tags) ? logData.tags : undefined,
       sourceId: sourceId || config.defaultSourceType,
       sourceType: logData.sourceType || config.defaultSourceType,
       sourceVersion: logData.sourceVersion || config.defaultSourceVersion,
@@ -2029,11 +2142,18 @@ class AllogIntermediaryServer {
       metadata: logData.metadata || {},
       transmissionId: logData.transmissionId,
       sequenceNumber: logData.sequenceNumber,
+      ...this.pickTraceFields(logData),
+      // OpenTelemetry fields, see otlp-receiver.js
+      severity: logData.severity,
+      severityNumber: logData.severityNumber,
+      attributes: logData.attributes,
+      resource: logData.resource,
+      scope: logData.scope,
       serverReceivedAt: new Date().toISOString(),
       quality: 'normal'
     };
 
-    return enrichedLog;
+    return this.applyProvenance(enrichedLog);
   }
 
   createRawTextLogEntry(text, sourceId, level = 'debug') {
@@ -2042,7 +2162,7 @@ class AllogIntermediaryServer {
       id: `raw_${sourceId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       message: text,
       time: new Date().toISOString(),
-      level: config.isValidLogLevel(level) ? level : 'debug',
+      level: config.normalizeLogLevel(level) || 'debug',
       data: { originalText: text, parsedAs: 'raw-text' },
       sourceId: sourceId || config.defaultSourceType,
       sourceType: config.defaultSourceType,
@@ -2062,7 +2182,7 @@ class AllogIntermediaryServer {
       quality: 'raw-text'
     };
 
-    return logEntry;
+    return this.applyProvenance(logEntry);
   }
 
   createMalformedLogEntry(rawData, sourceId, validationError) {
@@ -2096,9 +2216,30 @@ class AllogIntermediaryServer {
       quality: 'malformed'
     };
 
+    return this.applyProvenance(logEntry);
+  }
+
+  // Provenance is decided here from the source id and the type the source
+  // registered with, never from the payload's sourceType, so clients can't
+  // hide their logs or pass as the server
+  applyProvenance(logEntry) {
+    const source = this.sources.get(logEntry.sourceId);
+    const internal = config.isInternalSource(logEntry.sourceId, source && source.sourceType);
+    logEntry.provenance = internal ? 'internal' : 'application';
+    logEntry.recursive = internal;
     return logEntry;
   }
 
+  // A bad rule in config.json shouldn't keep the server from starting
+  createParserPipeline(rules) {
+    try {
+      return new ParserPipeline(rules || []);
+    } catch (error) {
+      console.warn(`[Server] Ignoring parser rules from config: ${error.message}`);
+      return new ParserPipeline([]);
+    }
+  }
+
   addLogEntry(logEntry) {
     // Validate required fields
     if (!logEntry.id || !logEntry.message || !logEntry.level) {
@@ -2106,6 +2247,12 @@ class AllogIntermediaryServer {
       return;
     }
 
+    // Structure raw-text and malformed entries with the parser rules
+    const parsedEntry = this.parserPipeline.apply(logEntry);
+    if (parsedEntry) {
+      logEntry = parsedEntry;
+    }
+
     // Add timestamp if missing
     if (!logEntry.timestamp) {
       logEntry.timestamp = new Date().toISOString();
@@ -2129,6 +2276,8 @@ class AllogIntermediaryServer {
     if (this.logs.length > this.config.maxLogs) {
       this.rotateLogs();
     }
+
+    return logEntry;
   }
 
   /**
@@ -2146,6 +2295,10 @@ class AllogIntermediaryServer {
       logEntry.timestamp = new Date().toISOString();
     }
 
+    // Everything in this buffer comes from the server itself
+    logEntry.provenance = 'internal';
+    logEntry.recursive = true;
+
     // Add to server logs array
     this.serverLogs.push(logEntry);
 
@@ -2214,23 +2367,103 @@ class AllogIntermediaryServer {
     });
   }
 
-  shouldSendToViewer(ws, message) {
-    if (!ws.subscriptions) return true;
+  // Turn a viewer subscription message into matchers. Every field is
+  // optional; an omitted field does not filter.
+  normalizeSubscription(data) {
+    const list = (value) => (Array.isArray(value) && value.length > 0 ? value.map(String) : null);
+    const globs = (value) => {
+      const patterns = list(value);
+      if (!patterns) return null;
+      return patterns.map(pattern => {
+        if (pattern.indexOf('*') === -1) return (text) => text === pattern;
+        const escaped = pattern.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*');
+        const regex = new RegExp(`^${escaped}$`, 'i');
+        return (text) => regex.test(text);
+      });
+    };
+    const textPatterns = (value) => {
+      const patterns = list(value);
+      if (!patterns) return null;
+      return patterns.map(pattern => {
+        const regexMatch = /^\/(.+)\/([gimsuy]*)$/.exec(pattern);
+        if (regexMatch) {
+          const regex = new RegExp(regexMatch[1], regexMatch[2].replace('g', ''));
+          return (text) => regex.test(text);
+        }
+        const needle = pattern.toLowerCase();
+        return (text) => text.toLowerCase().includes(needle);
+      });
+    };
 
-    const { subscriptions } = ws.subscriptions;
+    // Throws QuerySyntaxError, reported back to the viewer. Parsed once but
+    // evaluated per log, so relative times ("since:5m") keep moving
+    const queryAst = data.query ? parseQuery(String(data.query)) : null;
+
+    const monitoring = data.monitoring === false
+      ? false
+      : {
+        types: list(data.monitoring && data.monitoring.types),
+        modules: globs(data.monitoring && data.monitoring.modules),
+        scripts: globs(data.monitoring && data.monitoring.scripts)
+      };
 
-    if (message.type === 'new_log') {
+    return {
+      levels: list(data.levels),
+      minLevel: data.minLevel ? String(data.minLevel) : undefined,
+      sources: list(data.sources),
+      scripts: globs(data.scripts),
+      patterns: textPatterns(data.patterns),
+      query: queryAst ? (log) => evaluateQuery(queryAst, log) : null,
+      includeInternal: data.includeInternal !== false,
+      monitoring
+    };
+  }
+
+  shouldSendToViewer(ws, message) {
+    const subscriptions = ws.subscriptions;
+    if (!subscriptions) return true;
+
+    if (message.type === 'new_log' || message.type === 'new_server_log') {
       const log = message.data;
-      
-      // Check source filter
+
+      if (!subscriptions.includeInternal && log.provenance === 'internal') {
+        return false;
+      }
       if (subscriptions.sources && !subscriptions.sources.includes(log.sourceId)) {
         return false;
       }
-      
-      // Check level filter
       if (subscriptions.levels && !subscriptions.levels.includes(log.level)) {
         return false;
       }
+      if (subscriptions.minLevel && !this.meetsMinLevel(log, subscriptions.minLevel)) {
+        return false;
+      }
+      const scriptId = log.scriptId || log.sourceId || '';
+      if (subscriptions.scripts && !subscriptions.scripts.some(matches => matches(scriptId))) {
+        return false;
+      }
+      if (subscriptions.patterns && !subscriptions.patterns.some(matches => matches(String(log.message || '')))) {
+        return false;
+      }
+      if (subscriptions.query && !subscriptions.query(log)) {
+        return false;
+      }
+    }
+
+    if (message.type === 'monitoring_update') {
+      const { monitoring } = subscriptions;
+      if (monitoring === false) return false;
+
+      const entry = message.data;
+      if (monitoring.types && !monitoring.types.includes(entry.type)) {
+        return false;
+      }
+      if (monitoring.modules && !monitoring.modules.some(matches => matches(String(entry.moduleId || '')))) {
+        return false;
+      }
+      if (monitoring.scripts && !monitoring.scripts.some(matches => matches(String(entry.scriptId || '')))) {
+        return false;
+      }
     }
 
     return true;
@@ -2255,14 +2488,16 @@ class AllogIntermediaryServer {
     try {
       // Try database first
       this.logs = await this.db.loadLogs();
-      this.monitoringData = await this.db.loadMonitoringData();
+      // Backends return newest first; the buffer is kept oldest first
+      this.monitoringData = (await this.db.loadMonitoringData()).sort((a, b) => a.timestamp - b.timestamp);
       this.sources = await this.db.loadSources();
+      this.restoreParserRules(await this.db.loadParserRules());
       
       // Rebuild indexes for in-memory operations
       this.rebuildLogIndexes();
       this.rebuildMonitoringIndexes();
       
-      console.log(`📂 Loaded ${this.logs.length} logs, ${this.monitoringData.size} monitoring entries, and ${this.sources.size} sources from database`);
+      console.log(`📂 Loaded ${this.logs.length} logs, ${this.monitoringData.length} monitoring entries, and ${this.sources.size} sources from database`);
     } catch (error) {
       console.error('Database load failed, trying file fallback:', error);
       
@@ -2272,13 +2507,12 @@ class AllogIntermediaryServer {
         const parsed = JSON.parse(data);
         
         this.logs = parsed.logs || [];
-        // Convert monitoring data back to Map if it was loaded as array
-        if (Array.isArray(parsed.monitoringData)) {
-          this.monitoringData = new Map(parsed.monitoringData.map((entry, index) => [entry.id || index, entry]));
-        } else {
-          this.monitoringData = new Map(Object.entries(parsed.monitoringData || {}));
-        }
+        // Older files stored monitoring data as an object keyed by id
+        this.monitoringData = Array.isArray(parsed.monitoringData)
+          ? parsed.monitoringData
+          : Object.values(parsed.monitoringData || {});
         this.sources = new Map(parsed.sources || []);
+        this.restoreParserRules(parsed.parserRules);
         
         // Rebuild indexes
         this.rebuildLogIndexes();
@@ -2291,6 +2525,11 @@ class AllogIntermediaryServer {
         }
       }
     }
+
+    // Logs persisted before provenance existed
+    this.logs.forEach(log => {
+      if (!log.provenance) this.applyProvenance(log);
+    });
   }
 
   async persistData() {
@@ -2310,6 +2549,7 @@ class AllogIntermediaryServer {
           logs: this.logs,
           monitoringData: this.monitoringData,
           sources: Array.from(this.sources.entries()),
+          parserRules: this.savedParserRules(),
           timestamp: new Date().toISOString()
         };
 
@@ -2320,6 +2560,32 @@ class AllogIntermediaryServer {
     }
   }
 
+  // Parser rules as saved, without their match stats
+  savedParserRules() {
+    return this.parserPipeline.getRules().map(({ stats, ...rule }) => rule);
+  }
+
+  async persistParserRules() {
+    if (!this.config.enablePersistence) return;
+
+    try {
+      await this.db.saveParserRules(this.savedParserRules());
+    } catch (error) {
+      // Fallback to full persist
+      this.persistData();
+    }
+  }
+
+  // Rules saved from the viewer replace the seed rules from config.json
+  restoreParserRules(rules) {
+    if (!Array.isArray(rules)) return;
+    try {
+      this.parserPipeline.setRules(rules);
+    } catch (error) {
+      console.error('Ignoring saved parser rules:', error.message);
+    }
+  }
+
   convertToCSV(logs) {
     const headers = ['Time', 'Level', 'Source', 'Message', 'Data', 'File', 'Line'];
     const rows = logs.map(log => [
@@ -2339,6 +2605,8 @@ class AllogIntermediaryServer {
 
   start() {
     const port = this.config.port;
+
+    this.ingestionListeners.start();
     
     if (this.config.enableWebSocket) {
       this.server.listen(port, () => {
@@ -2428,6 +2696,8 @@ class AllogIntermediaryServer {
     };
     
     this.addServerLog(shutdownLog);
+
+    this.ingestionListeners.stop();
     
     if (this.server) {
       this.server.close();
@@ -2590,10 +2860,34 @@ class AllogIntermediaryServer {
       timestamp: Date.now(),
       time: new Date().toISOString(),
       sourceId: sourceId || 'unknown',
-      metadata: metadata || {}
+      metadata: metadata || {},
+      // Trace ids may also arrive inside metadata
+      ...this.pickTraceFields(metadata || {}),
+      ...this.pickTraceFields(data)
     };
   }
 
+  // Trace correlation fields from a log or monitoring payload. Ids are kept
+  // as strings; a W3C `traceparent` fills in whatever is missing. Its
+  // parent-id is the caller's span, so the entry gets a new span under it.
+  pickTraceFields(data) {
+    const fields = {};
+    const id = (value) => (typeof value === 'string' || typeof value === 'number') && String(value).trim()
+      ? String(value).trim()
+      : undefined;
+    const traceparent = typeof data.traceparent === 'string'
+      ? /^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/i.exec(data.traceparent.trim())
+      : null;
+
+    const traceId = id(data.traceId) || (traceparent ? traceparent[1].toLowerCase() : undefined);
+    const spanId = id(data.spanId) || (traceparent ? crypto.randomBytes(8).toString('hex') : undefined);
+    const parentSpanId = id(data.parentSpanId) || (traceparent ? traceparent[2].toLowerCase() : undefined);
+    if (traceId) fields.traceId = traceId;
+    if (traceId && spanId) fields.spanId = spanId;
+    if (traceId && parentSpanId) fields.parentSpanId = parentSpanId;
+    return fields;
+  }
+
   // Add monitoring entry with storage management and broadcasting
   async addMonitoringEntry(entry) {
     // Add to monitoring data array
@@ -2602,11 +2896,22 @@ class AllogIntermediaryServer {
     // Add to indexes for fast retrieval
     this.addMonitoringToIndexes(entry);
 
+    // Keep at most maxHistoryPerVariable entries per variable
+    const history = this.monitoringIndexes.byVariable.get(this.getMonitoringKey(entry));
+    const maxHistory = this.config.maxHistoryPerVariable || 100;
+    while (history.length > maxHistory) {
+      const dropped = history[0];
+      this.removeMonitoringFromIndexes(dropped);
+      const index = this.monitoringData.indexOf(dropped);
+      if (index !== -1) {
+        this.monitoringData.splice(index, 1);
+      }
+    }
+
     // Maintain max monitoring data limit (default to maxLogs * 2 for more detailed tracking)
     const maxMonitoringEntries = this.config.maxMonitoringEntries || (this.config.maxLogs * 2);
     if (this.monitoringData.length > maxMonitoringEntries) {
-      this.monitoringData.shift();
-      // Note: Indexes will be cleaned up during next memory optimization cycle
+      this.removeMonitoringFromIndexes(this.monitoringData.shift());
     }
 
     // Update source statistics
@@ -2637,6 +2942,46 @@ class AllogIntermediaryServer {
     }
   }
 
+  // Collect per-variable history from the byVariable index
+  getMonitoringHistory({ moduleId, scriptId, type, name, since, until, limit }) {
+    const series = [];
+
+    this.monitoringIndexes.byVariable.forEach(history => {
+      const latest = history[history.length - 1];
+      if (!latest) return;
+      if (moduleId && latest.moduleId !== moduleId) return;
+      if (scriptId && latest.scriptId !== scriptId) return;
+      if (type && latest.type !== type) return;
+      if (name && latest.name !== name) return;
+
+      let entries = history.filter(entry =>
+        (since === null || entry.timestamp >= since) &&
+        (until === null || entry.timestamp <= until)
+      );
+      const total = entries.length;
+      if (limit && entries.length > limit) {
+        entries = entries.slice(-limit);
+      }
+
+      series.push({
+        moduleId: latest.moduleId,
+        scriptId: latest.scriptId,
+        type: latest.type,
+        name: latest.name,
+        total,
+        entries: entries.map(entry => ({
+          id: entry.id,
+          value: entry.value,
+          previousValue: entry.previousValue,
+          timestamp: entry.timestamp,
+          metadata: entry.metadata
+        }))
+      });
+    });
+
+    return series;
+  }
+
   // Organize monitoring data into structured format for viewer
   organizeMonitoringData() {
     const modules = {};
@@ -2866,19 +3211,22 @@ class AllogIntermediaryServer {
     }
   }
 
+  // Drop the oldest logs beyond maxLogs, from the buffer and its indexes
+  rotateLogs() {
+    const dropped = this.logs.splice(0, this.logs.length - this.config.maxLogs);
+    dropped.forEach(log => this.removeLogFromIndexes(log));
+  }
+
   // Clean up old monitoring data
   cleanupOldMonitoringData() {
     const retentionHours = this.config.monitoringRetentionHours || 48;
     const cutoffTime = Date.now() - (retentionHours * 60 * 60 * 1000);
     
-    const initialCount = this.monitoringData.size;
-    const filteredEntries = Array.from(this.monitoringData.entries()).filter(([key, entry]) => {
-      return entry.timestamp > cutoffTime;
-    });
-    this.monitoringData = new Map(filteredEntries);
+    const initialCount = this.monitoringData.length;
+    this.monitoringData = this.monitoringData.filter(entry => entry.timestamp > cutoffTime);
     
     // Rebuild monitoring indexes after cleanup
-    if (this.monitoringData.size !== initialCount) {
+    if (this.monitoringData.length !== initialCount) {
       this.rebuildMonitoringIndexes();
     }
   }
@@ -2907,7 +3255,7 @@ class AllogIntermediaryServer {
       this.rebuildLogIndexes();
     }
     
-    if (Math.abs(monitoringIndexSize - this.monitoringData.size) > 100) {
+    if (Math.abs(monitoringIndexSize - this.monitoringData.length) > 100) {
       this.rebuildMonitoringIndexes();
     }
   }
@@ -2967,6 +3315,13 @@ class AllogIntermediaryServer {
     }
     this.monitoringIndexes.byName.get(entry.name).push(entry);
 
+    // Index by variable
+    const variableKey = this.getMonitoringKey(entry);
+    if (!this.monitoringIndexes.byVariable.has(variableKey)) {
+      this.monitoringIndexes.byVariable.set(variableKey, []);
+    }
+    this.monitoringIndexes.byVariable.get(variableKey).push(entry);
+
     // Index by ID
     this.monitoringIndexes.byId.set(entry.id, entry);
 
@@ -2974,6 +3329,55 @@ class AllogIntermediaryServer {
     this.insertSortedByTime(this.monitoringIndexes.byTimeRange, entry);
   }
 
+  // Indexes are only built from loaded data; nothing to prune before that
+  removeLogFromIndexes(logEntry) {
+    if (!this.logIndexes) return;
+    this.removeFromIndex(this.logIndexes.bySourceId, logEntry.sourceId, logEntry);
+    this.removeFromIndex(this.logIndexes.byLevel, logEntry.level, logEntry);
+    this.removeFromIndex(this.logIndexes.byScriptId, logEntry.scriptId, logEntry);
+    if (this.logIndexes.byId.get(logEntry.id) === logEntry) {
+      this.logIndexes.byId.delete(logEntry.id);
+    }
+    this.removeFromList(this.logIndexes.byTimeRange, logEntry);
+  }
+
+  // Called for every trimmed entry so the indexes never outlive the buffer
+  removeMonitoringFromIndexes(entry) {
+    const indexes = this.monitoringIndexes;
+    this.removeFromIndex(indexes.byModuleId, entry.moduleId, entry);
+    this.removeFromIndex(indexes.byScriptId, entry.scriptId, entry);
+    this.removeFromIndex(indexes.byType, entry.type, entry);
+    this.removeFromIndex(indexes.byName, entry.name, entry);
+    this.removeFromIndex(indexes.byVariable, this.getMonitoringKey(entry), entry);
+    if (indexes.byId.get(entry.id) === entry) {
+      indexes.byId.delete(entry.id);
+    }
+    this.removeFromList(indexes.byTimeRange, entry);
+  }
+
+  // Remove an item from a Map of lists, dropping keys left empty
+  removeFromIndex(index, key, item) {
+    const items = index.get(key);
+    if (!items) return;
+    this.removeFromList(items, item);
+    if (items.length === 0) {
+      index.delete(key);
+    }
+  }
+
+  // Trimmed entries are the oldest, so they are found near the front
+  removeFromList(list, item) {
+    const position = list.indexOf(item);
+    if (position !== -1) {
+      list.splice(position, 1);
+    }
+  }
+
+  // Identity of a monitored variable across updates
+  getMonitoringKey(entry) {
+    return JSON.stringify([entry.moduleId, entry.scriptId, entry.type, entry.name]);
+  }
+
   // Insert item into time-sorted array maintaining order
   insertSortedByTime(sortedArray, item) {
     const timestamp = item.timestamp || Date.now();
@@ -3016,19 +3420,25 @@ class AllogIntermediaryServer {
   // Rebuild all monitoring indexes
   rebuildMonitoringIndexes() {
     // Clear all indexes
-    this.monitoringIndexes = {
+    this.monitoringIndexes = this.createMonitoringIndexes();
+
+    // Rebuild from current monitoring data
+    this.monitoringData.forEach((entry, key) => this.addMonitoringToIndexes(entry));
+    
+    console.log(`🔄 Rebuilt monitoring indexes (${this.monitoringData.length} entries)`);
+  }
+
+  createMonitoringIndexes() {
+    return {
       byModuleId: new Map(),
       byScriptId: new Map(),
       byType: new Map(),
       byName: new Map(),
+      // History of each variable (module/script/type/name), oldest first
+      byVariable: new Map(),
       byTimeRange: [],
       byId: new Map()
     };
-
-    // Rebuild from current monitoring data
-    this.monitoringData.forEach((entry, key) => this.addMonitoringToIndexes(entry));
-    
-    console.log(`🔄 Rebuilt monitoring indexes (${this.monitoringData.size} entries)`);
   }
 
   // Fast log lookup methods using indexes
@@ -3098,6 +3508,331 @@ class AllogIntermediaryServer {
     return Math.max(0, result);
   }
 
+  // === LOG QUERIES ===
+
+  // Turn /api/logs query parameters into a query object. List-valued
+  // parameters accept comma separated values.
+  parseLogQuery(params = {}) {
+    const list = (value) => {
+      if (value === undefined || value === null || value === '') return undefined;
+      const values = (Array.isArray(value) ? value : String(value).split(','))
+        .map(v => String(v).trim())
+        .filter(Boolean);
+      return values.length > 0 ? values : undefined;
+    };
+    const number = (value) => {
+      if (value === undefined || value === null || value === '') return undefined;
+      const parsed = parseInt(value, 10);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    };
+
+    return {
+      levels: list(params.level),
+      minLevel: params.minLevel ? String(params.minLevel) : undefined,
+      sourceIds: list(params.sourceId),
+      scriptIds: list(params.scriptId),
+      traceIds: list(params.traceId),
+      search: params.search ? String(params.search) : undefined,
+      q: params.q ? String(params.q) : undefined,
+      since: params.since ? String(params.since) : undefined,
+      until: params.until ? String(params.until) : undefined,
+      order: params.order === 'asc' ? 'asc' : 'desc',
+      cursor: params.cursor ? String(params.cursor) : undefined,
+      afterId: params.afterId ? String(params.afterId) : undefined,
+      includeInternal: params.includeInternal === 'true',
+      limit: number(params.limit),
+      offset: number(params.offset) || 0
+    };
+  }
+
+  // Levels the registry doesn't know never meet a minimum
+  meetsMinLevel(log, minLevel) {
+    const difference = config.logLevels.compare(log.level, minLevel);
+    return difference !== null && difference >= 0;
+  }
+
+  getLogTime(log) {
+    const time = Date.parse(log.time || log.timestamp || log.serverReceivedAt);
+    return Number.isNaN(time) ? 0 : time;
+  }
+
+  encodeLogCursor(log) {
+    return Buffer.from(JSON.stringify({ t: this.getLogTime(log), id: log.id })).toString('base64');
+  }
+
+  decodeLogCursor(cursor) {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+      if (typeof decoded.t !== 'number' || typeof decoded.id !== 'string') return null;
+      return decoded;
+    } catch {
+      return null;
+    }
+  }
+
+  // Logs matching the query's filters, in no particular order
+  matchLogs(query = {}) {
+    const sinceTime = query.since ? Date.parse(query.since) : NaN;
+    const untilTime = query.until ? Date.parse(query.until) : NaN;
+    const searchLower = query.search ? query.search.toLowerCase() : null;
+    // Throws QuerySyntaxError for invalid expressions
+    const matchesQuery = query.q ? compileQuery(query.q) : null;
+
+    // afterId resumes from a known entry (e.g. after a viewer reconnect).
+    // If it has been rotated out the whole buffer is considered.
+    let candidates = this.logs;
+    let afterTime = null;
+    if (query.afterId) {
+      const afterIndex = this.logs.findIndex(log => log.id === query.afterId);
+      if (afterIndex !== -1) {
+        candidates = this.logs.slice(afterIndex + 1);
+        afterTime = this.getLogTime(this.logs[afterIndex]);
+      } else if (query.includeInternal) {
+        const afterServerLog = this.serverLogs.find(log => log.id === query.afterId);
+        if (afterServerLog) {
+          afterTime = this.getLogTime(afterServerLog);
+          candidates = this.logs.filter(log => this.getLogTime(log) > afterTime);
+        }
+      }
+    }
+
+    // Server-generated logs live in their own buffer; merge them in when
+    // internal logs are wanted alongside application output
+    if (query.includeInternal) {
+      const serverLogs = afterTime === null
+        ? this.serverLogs
+        : this.serverLogs.filter(log => log.id !== query.afterId && this.getLogTime(log) >= afterTime);
+      candidates = candidates.concat(serverLogs);
+    }
+
+    return candidates.filter(log => {
+      if (!query.includeInternal && log.provenance === 'internal') return false;
+      if (query.sourceIds && !query.sourceIds.includes(log.sourceId)) return false;
+      if (query.levels && !query.levels.includes(log.level)) return false;
+      if (query.minLevel && !this.meetsMinLevel(log, query.minLevel)) return false;
+      if (query.scriptIds && !query.scriptIds.includes(log.scriptId || log.sourceId)) return false;
+      if (query.traceIds && !query.traceIds.includes(log.traceId)) return false;
+
+      if (!Number.isNaN(sinceTime) || !Number.isNaN(untilTime)) {
+        const logTime = this.getLogTime(log);
+        if (!Number.isNaN(sinceTime) && logTime < sinceTime) return false;
+        if (!Number.isNaN(untilTime) && logTime > untilTime) return false;
+      }
+
+      if (searchLower) {
+        const inMessage = String(log.message || '').toLowerCase().includes(searchLower);
+        if (!inMessage && !(log.data && JSON.stringify(log.data).toLowerCase().includes(searchLower))) {
+          return false;
+        }
+      }
+
+      if (matchesQuery && !matchesQuery(log)) return false;
+
+      return true;
+    });
+  }
+
+  // Filter, sort and paginate the log buffer. Cursors are keyset based
+  // (time + id) so pages stay stable while new logs arrive.
+  queryLogs(query = {}) {
+    const order = query.order === 'asc' ? 'asc' : 'desc';
+    const matches = this.matchLogs(query);
+
+    const direction = order === 'asc' ? 1 : -1;
+    const compare = (aTime, aId, bTime, bId) => {
+      if (aTime !== bTime) return (aTime - bTime) * direction;
+      if (aId === bId) return 0;
+      return (aId < bId ? -1 : 1) * direction;
+    };
+    matches.sort((a, b) => compare(this.getLogTime(a), String(a.id), this.getLogTime(b), String(b.id)));
+
+    const total = matches.length;
+    let remaining = matches;
+    let start = query.offset || 0;
+
+    if (query.cursor) {
+      const cursor = this.decodeLogCursor(query.cursor);
+      if (cursor) {
+        const index = matches.findIndex(log => compare(this.getLogTime(log), String(log.id), cursor.t, cursor.id) > 0);
+        remaining = index === -1 ? [] : matches.slice(index);
+        start = 0;
+      }
+    }
+
+    const end = query.limit != null ? start + query.limit : remaining.length;
+    const page = remaining.slice(start, end);
+    const hasMore = end < remaining.length;
+
+    return {
+      logs: page,
+      total,
+      offset: query.cursor ? undefined : start,
+      limit: query.limit != null ? query.limit : total,
+      order,
+      hasMore,
+      nextCursor: hasMore && page.length > 0 ? this.encodeLogCursor(page[page.length - 1]) : null
+    };
+  }
+
+  // Parse a histogram bucket size: milliseconds, or a number with a
+  // s/m/h/d unit. Returns null for 'auto' or anything unparseable.
+  parseBucketSize(value) {
+    const match = /^(\d+)(ms|s|m|h|d)?$/.exec(String(value || '').trim());
+    if (!match) return null;
+    const units = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    const size = parseInt(match[1], 10) * units[match[2] || 'ms'];
+    return size > 0 ? size : null;
+  }
+
+  // Log counts per level in fixed-size time buckets. Without a bucket size
+  // the smallest round one giving at most `targetBuckets` buckets is used;
+  // any size is widened to stay under LOG_HISTOGRAM_MAX_BUCKETS.
+  getLogHistogram(query = {}, bucketSize = null, targetBuckets = 60) {
+    const matches = this.matchLogs(query);
+    const times = matches.map(log => this.getLogTime(log));
+
+    const sinceTime = query.since ? Date.parse(query.since) : NaN;
+    const untilTime = query.until ? Date.parse(query.until) : NaN;
+    let start = !Number.isNaN(sinceTime) ? sinceTime : Infinity;
+    let end = !Number.isNaN(untilTime) ? untilTime : -Infinity;
+    if (Number.isNaN(sinceTime) || Number.isNaN(untilTime)) {
+      times.forEach(time => {
+        if (Number.isNaN(sinceTime) && time < start) start = time;
+        if (Number.isNaN(untilTime) && time > end) end = time;
+      });
+    }
+
+    const levels = [];
+    matches.forEach(log => {
+      if (!levels.includes(log.level)) levels.push(log.level);
+    });
+
+    if (matches.length === 0 && (start === Infinity || end === -Infinity)) {
+      return { bucketMs: bucketSize || LOG_HISTOGRAM_STEPS[0], start: null, end: null, levels, total: 0, buckets: [] };
+    }
+    if (end < start) end = start;
+
+    const span = end - start + 1;
+    let bucketMs = bucketSize;
+    if (!bucketMs) {
+      bucketMs = LOG_HISTOGRAM_STEPS.find(step => span / step <= targetBuckets) || LOG_HISTOGRAM_STEPS[LOG_HISTOGRAM_STEPS.length - 1];
+    }
+    while (span / bucketMs > LOG_HISTOGRAM_MAX_BUCKETS) {
+      const larger = LOG_HISTOGRAM_STEPS.find(step => step > bucketMs);
+      bucketMs = larger || bucketMs * 2;
+    }
+
+    const first = Math.floor(start / bucketMs) * bucketMs;
+    const count = Math.floor(end / bucketMs) - Math.floor(start / bucketMs) + 1;
+    const buckets = [];
+    for (let i = 0; i < count; i++) {
+      buckets.push({ start: first + i * bucketMs, total: 0, counts: {} });
+    }
+    matches.forEach((log, index) => {
+      const bucket = buckets[Math.floor((times[index] - first) / bucketMs)];
+      if (!bucket) return;
+      bucket.total++;
+      bucket.counts[log.level] = (bucket.counts[log.level] || 0) + 1;
+    });
+
+    return {
+      bucketMs,
+      start: first,
+      end: first + count * bucketMs,
+      levels,
+      total: matches.length,
+      buckets
+    };
+  }
+
+  // Logs around an anchor entry in time order, either within `seconds` of
+  // it or `before`/`after` entries (default 25 each). Filters are not
+  // applied so every source's output is visible.
+  getLogContext(id, options = {}) {
+    const buffer = options.includeInternal
+      ? this.logs.concat(this.serverLogs)
+      : this.logs.filter(log => log.provenance !== 'internal');
+
+    const anchor = buffer.find(log => log.id === id);
+    if (!anchor) return null;
+
+    const sorted = buffer.slice().sort((a, b) => {
+      const difference = this.getLogTime(a) - this.getLogTime(b);
+      if (difference !== 0) return difference;
+      return String(a.id) < String(b.id) ? -1 : String(a.id) > String(b.id) ? 1 : 0;
+    });
+    const anchorIndex = sorted.indexOf(anchor);
+
+    let start;
+    let end;
+    if (options.seconds !== undefined) {
+      const anchorTime = this.getLogTime(anchor);
+      const windowMs = options.seconds * 1000;
+      start = anchorIndex;
+      while (start > 0 && anchorTime - this.getLogTime(sorted[start - 1]) <= windowMs) start--;
+      end = anchorIndex + 1;
+      while (end < sorted.length && this.getLogTime(sorted[end]) - anchorTime <= windowMs) end++;
+    } else {
+      const before = options.before !== undefined ? Math.floor(options.before) : 25;
+      const after = options.after !== undefined ? Math.floor(options.after) : 25;
+      start = Math.max(0, anchorIndex - before);
+      end = Math.min(sorted.length, anchorIndex + after + 1);
+    }
+
+    return {
+      anchorId: anchor.id,
+      logs: sorted.slice(start, end),
+      hasMoreBefore: start > 0,
+      hasMoreAfter: end < sorted.length
+    };
+  }
+
+  // One summary per trace id in the log and monitoring buffers
+  getTraceSummaries(limit = 100) {
+    const traces = new Map();
+    const add = (item, time, kind) => {
+      if (!item.traceId) return;
+      let trace = traces.get(item.traceId);
+      if (!trace) {
+        trace = { traceId: item.traceId, logCount: 0, monitoringCount: 0, errorCount: 0, sources: [], start: time, end: time, rootMessage: null };
+        traces.set(item.traceId, trace);
+      }
+      trace[kind === 'log' ? 'logCount' : 'monitoringCount']++;
+      if (this.meetsMinLevel(item, 'error') || (kind === 'monitoring' && item.metadata && item.metadata.error)) trace.errorCount++;
+      if (item.sourceId && !trace.sources.includes(item.sourceId)) trace.sources.push(item.sourceId);
+      if (kind === 'log') {
+        // Summarize with the earliest log of the root span
+        const isRoot = !item.parentSpanId;
+        if (trace.rootMessage === null || (isRoot && !trace.rootIsRoot) || (isRoot === trace.rootIsRoot && time < trace.rootTime)) {
+          trace.rootMessage = item.message;
+          trace.rootIsRoot = isRoot;
+          trace.rootTime = time;
+        }
+      }
+      trace.start = Math.min(trace.start, time);
+      trace.end = Math.max(trace.end, time);
+    };
+
+    this.logs.forEach(log => add(log, this.getLogTime(log), 'log'));
+    this.monitoringData.forEach(entry => add(entry, entry.timestamp, 'monitoring'));
+
+    return Array.from(traces.values())
+      .sort((a, b) => b.end - a.end)
+      .slice(0, limit)
+      .map(({ rootIsRoot, rootTime, ...trace }) => trace);
+  }
+
+  // Logs and monitoring entries for one trace, oldest first
+  getTrace(traceId) {
+    const logs = this.logs
+      .filter(log => log.traceId === traceId)
+      .sort((a, b) => this.getLogTime(a) - this.getLogTime(b));
+    const monitoring = this.monitoringData
+      .filter(entry => entry.traceId === traceId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return { traceId, logs, monitoring };
+  }
+
   // === SSE STREAMING HELPERS ===
 
   // Filter logs for SSE client based on their subscription
@@ -3309,10 +4044,10 @@ class AllogIntermediaryServer {
 
       // Clear current logs and monitoring data
       const archivedLogs = this.logs.length;
-      const archivedMonitoring = this.monitoringData.size;
+      const archivedMonitoring = this.monitoringData.length;
       
       this.logs = [];
-      this.monitoringData = new Map();
+      this.monitoringData = [];
       
       // Rebuild indexes
       this.rebuildLogIndexes();
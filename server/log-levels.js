@@ -0,0 +1,126 @@
+/**
+ * Log Level Registry for Allog Server
+ *
+ * Levels are names with a numeric severity, configured under
+ * `logging.levels.severities` in config.json. Severities follow the
+ * OpenTelemetry SeverityNumber scale (TRACE 1, DEBUG 5, INFO 9, WARN 13,
+ * ERROR 17, FATAL 21) so custom levels can be slotted in between. The
+ * viewer loads this registry from GET /api/levels.
+ */
+
+const DEFAULT_SEVERITIES = {
+  trace: 1,
+  debug: 5,
+  test: 5,
+  info: 9,
+  notice: 10,
+  warn: 13,
+  error: 17,
+  fatal: 21
+};
+
+// Common spellings from other loggers, mapped onto registered names
+const DEFAULT_ALIASES = {
+  dbg: 'debug',
+  verbose: 'debug',
+  information: 'info',
+  warning: 'warn',
+  err: 'error',
+  severe: 'error',
+  crit: 'fatal',
+  critical: 'fatal',
+  alert: 'fatal',
+  emerg: 'fatal',
+  emergency: 'fatal',
+  panic: 'fatal'
+};
+
+class LevelRegistry {
+  constructor(severities = DEFAULT_SEVERITIES, aliases = DEFAULT_ALIASES) {
+    this.severities = {};
+    Object.keys(severities).forEach((name) => {
+      const severity = Number(severities[name]);
+      if (Number.isFinite(severity)) this.severities[name.toLowerCase()] = severity;
+    });
+    this.aliases = {};
+    Object.keys(aliases || {}).forEach((alias) => {
+      this.aliases[alias.toLowerCase()] = String(aliases[alias]).toLowerCase();
+    });
+    // Least to most severe; levels with the same severity keep config order
+    this.names = Object.keys(this.severities)
+      .map((name, index) => ({ name, index }))
+      .sort((a, b) => this.severities[a.name] - this.severities[b.name] || a.index - b.index)
+      .map(({ name }) => name);
+  }
+
+  has(level) {
+    return typeof level === 'string' && Object.prototype.hasOwnProperty.call(this.severities, level);
+  }
+
+  /**
+   * The registered name for a level as another logger may write it
+   * ("WARNING", "Err", OTel's "INFO2"), or undefined when unknown
+   */
+  normalize(level) {
+    if (typeof level !== 'string') return undefined;
+    const lower = level.trim().toLowerCase();
+    const candidates = [lower, lower.replace(/\d+$/, '')];
+    for (const candidate of candidates) {
+      if (this.has(candidate)) return candidate;
+      if (this.has(this.aliases[candidate])) return this.aliases[candidate];
+    }
+    return undefined;
+  }
+
+  // Severity of a level name, or a number given as one; undefined if unknown
+  severityOf(level) {
+    if (typeof level === 'number') return level;
+    if (typeof level === 'string' && /^\d+$/.test(level.trim())) return parseInt(level, 10);
+    const name = this.normalize(level);
+    return name === undefined ? undefined : this.severities[name];
+  }
+
+  /**
+   * Compare two levels by severity. Unknown levels compare as null so
+   * callers can decide whether they match.
+   */
+  compare(a, b) {
+    const left = this.severityOf(a);
+    const right = this.severityOf(b);
+    if (left === undefined || right === undefined) return null;
+    return left - right;
+  }
+
+  /**
+   * The most severe level at or below a severity number, e.g. 11 -> notice;
+   * of levels sharing a severity the first configured wins. Numbers below
+   * every level give the least severe one.
+   */
+  fromSeverity(severity) {
+    if (typeof severity !== 'number' || !Number.isFinite(severity) || this.names.length === 0) return undefined;
+    let best;
+    this.names.forEach((name) => {
+      if (this.severities[name] <= severity && (best === undefined || this.severities[name] > this.severities[best])) {
+        best = name;
+      }
+    });
+    return best || this.names[0];
+  }
+
+  // Registered names at least as severe as minLevel
+  atLeast(minLevel) {
+    const minimum = this.severityOf(minLevel);
+    if (minimum === undefined) return [];
+    return this.names.filter((name) => this.severities[name] >= minimum);
+  }
+
+  toJSON() {
+    return this.names.map((name) => ({ name, severity: this.severities[name] }));
+  }
+}
+
+module.exports = {
+  LevelRegistry,
+  DEFAULT_SEVERITIES,
+  DEFAULT_ALIASES
+};
@@ -0,0 +1,279 @@
+/**
+ * Log line parsers for the ingestion listeners
+ *
+ * Turn one syslog message (RFC 5424 or RFC 3164) or one NDJSON line into the
+ * shape validateAndEnrichLogEntry expects. Parsers return null for input
+ * they don't recognise so the caller can store it as raw text instead.
+ */
+
+const { config } = require('./config-loader');
+
+const SYSLOG_FACILITIES = [
+  'kern', 'user', 'mail', 'daemon', 'auth', 'syslog', 'lpr', 'news',
+  'uucp', 'cron', 'authpriv', 'ftp', 'ntp', 'security', 'console', 'solaris-cron',
+  'local0', 'local1', 'local2', 'local3', 'local4', 'local5', 'local6', 'local7'
+];
+
+const SYSLOG_SEVERITIES = ['emerg', 'alert', 'crit', 'err', 'warning', 'notice', 'info', 'debug'];
+
+// Syslog severity names are registered levels or aliases (emerg/alert/crit
+// -> fatal, err -> error, warning -> warn by default)
+const syslogSeverityToLevel = (severity) => config.normalizeLogLevel(SYSLOG_SEVERITIES[severity]) || 'info';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const RFC5424_HEADER = /^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) /;
+const RFC3164_HEADER = /^<(\d{1,3})>([A-Z][a-z]{2}) ([ \d]\d) (\d\d):(\d\d):(\d\d) (\S+) /;
+// "sshd[1234]: message" or "kernel: message"
+const RFC3164_TAG = /^([^\s:[\]]{1,48})(?:\[([^\]]*)\])?: ?/;
+
+const nil = (value) => (value === '-' ? undefined : value);
+
+/**
+ * STRUCTURED-DATA: "-" or one or more [id key="value" ...] elements, with
+ * \" \\ and \] escaped inside values. Returns the parsed elements and the
+ * remaining text, or null when the elements are malformed.
+ */
+const parseStructuredData = (text) => {
+  if (text[0] === '-') {
+    return { structuredData: undefined, rest: text.slice(1) };
+  }
+
+  const structuredData = {};
+  let i = 0;
+  while (text[i] === '[') {
+    const idMatch = /^\[([^\s\]=]+)/.exec(text.slice(i));
+    if (!idMatch) return null;
+    const element = {};
+    i += idMatch[0].length;
+
+    while (text[i] === ' ') {
+      const paramMatch = /^ ([^\s\]=]+)="/.exec(text.slice(i));
+      if (!paramMatch) return null;
+      i += paramMatch[0].length;
+      let value = '';
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\' || text[i + 1] === ']')) i++;
+        value += text[i++];
+      }
+      if (text[i] !== '"') return null;
+      i++;
+      element[paramMatch[1]] = value;
+    }
+
+    if (text[i] !== ']') return null;
+    i++;
+    structuredData[idMatch[1]] = element;
+  }
+
+  return i === 0 ? null : { structuredData, rest: text.slice(i) };
+};
+
+const parsePriority = (pri) => {
+  const value = parseInt(pri, 10);
+  if (value > 191) return null;
+  return {
+    facility: SYSLOG_FACILITIES[value >> 3],
+    severity: value & 7
+  };
+};
+
+const parseRfc5424 = (line) => {
+  const header = RFC5424_HEADER.exec(line);
+  if (!header || header[2] !== '1') return null;
+  const priority = parsePriority(header[1]);
+  if (!priority) return null;
+
+  const sd = parseStructuredData(line.slice(header[0].length));
+  if (!sd) return null;
+  // MSG may start with a UTF-8 byte order mark
+  const message = sd.rest.replace(/^ /, '').replace(/^\uFEFF/, '');
+  const timestamp = nil(header[3]);
+  const time = timestamp ? new Date(timestamp) : null;
+
+  return {
+    format: 'rfc5424',
+    ...priority,
+    time: time && !isNaN(time.getTime()) ? time.toISOString() : undefined,
+    hostname: nil(header[4]),
+    appName: nil(header[5]),
+    procId: nil(header[6]),
+    msgId: nil(header[7]),
+    structuredData: sd.structuredData,
+    message
+  };
+};
+
+// RFC 3164 timestamps carry no year or zone: assume local time this year,
+// or last year when that would put the message more than a day ahead
+const parseRfc3164Time = (month, day, hours, minutes, seconds, now) => {
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex === -1) return undefined;
+  const build = (year) => new Date(year, monthIndex, parseInt(day, 10), +hours, +minutes, +seconds);
+  let time = build(now.getFullYear());
+  if (time.getTime() - now.getTime() > 24 * 60 * 60 * 1000) {
+    time = build(now.getFullYear() - 1);
+  }
+  return isNaN(time.getTime()) ? undefined : time.toISOString();
+};
+
+const parseRfc3164 = (line, now) => {
+  const header = RFC3164_HEADER.exec(line);
+  if (!header) return null;
+  const priority = parsePriority(header[1]);
+  if (!priority) return null;
+  const time = parseRfc3164Time(header[2], header[3], header[4], header[5], header[6], now);
+  if (!time) return null;
+
+  let message = line.slice(header[0].length);
+  const tag = RFC3164_TAG.exec(message);
+  if (tag) message = message.slice(tag[0].length);
+
+  return {
+    format: 'rfc3164',
+    ...priority,
+    time,
+    hostname: header[7],
+    appName: tag ? tag[1] : undefined,
+    procId: tag ? tag[2] : undefined,
+    message
+  };
+};
+
+/**
+ * Parse one syslog message. Returns null when it is neither RFC 5424 nor
+ * RFC 3164.
+ */
+const parseSyslogMessage = (line, now = new Date()) => {
+  const text = String(line).replace(/[\r\n]+$/, '');
+  const parsed = parseRfc5424(text) || parseRfc3164(text, now);
+  if (!parsed) return null;
+
+  const data = {
+    facility: parsed.facility,
+    severity: SYSLOG_SEVERITIES[parsed.severity],
+    hostname: parsed.hostname,
+    procId: parsed.procId,
+    msgId: parsed.msgId,
+    structuredData: parsed.structuredData,
+    syslogFormat: parsed.format
+  };
+  Object.keys(data).forEach((key) => data[key] === undefined && delete data[key]);
+
+  return {
+    message: parsed.message || `(empty ${parsed.facility}.${SYSLOG_SEVERITIES[parsed.severity]} message)`,
+    level: syslogSeverityToLevel(parsed.severity),
+    time: parsed.time,
+    scriptId: parsed.appName,
+    data
+  };
+};
+
+// Numeric levels as pino and bunyan write them (10 trace ... 60 fatal),
+// moved onto the registry's OTel scale (1 trace ... 21 fatal)
+const numericLevel = (level) => config.logLevels.fromSeverity((Math.floor(level / 10) - 1) * 4 + 1);
+
+const toJsonLevel = (level) => {
+  if (typeof level === 'number') return numericLevel(level);
+  if (typeof level !== 'string') return undefined;
+  if (/^\d+$/.test(level)) return numericLevel(parseInt(level, 10));
+  return config.normalizeLogLevel(level);
+};
+
+// Epoch numbers are seconds or milliseconds depending on the logger
+const toJsonTime = (value) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = typeof value === 'number'
+    ? new Date(value < 1e12 ? value * 1000 : value)
+    : new Date(value);
+  return isNaN(time.getTime()) ? undefined : time.toISOString();
+};
+
+const pick = (object, keys) => {
+  for (const key of keys) {
+    if (object[key] !== undefined && object[key] !== null && object[key] !== '') {
+      return { key, value: object[key] };
+    }
+  }
+  return { key: undefined, value: undefined };
+};
+
+const MESSAGE_KEYS = ['message', 'msg', 'text', 'log'];
+const LEVEL_KEYS = ['level', 'severity', 'lvl', 'loglevel', 'log.level'];
+const TIME_KEYS = ['time', 'timestamp', 'ts', '@timestamp', 'datetime'];
+const SCRIPT_KEYS = ['scriptId', 'logger', 'name', 'app', 'service'];
+// Carried over as-is for validateAndEnrichLogEntry
+const PASSTHROUGH_KEYS = [
+  'id', 'stack', 'tags', 'file', 'line', 'column', 'functionName', 'sourceVersion',
+  'traceId', 'spanId', 'parentSpanId', 'traceparent', 'transmissionId', 'sequenceNumber'
+];
+const TRACE_ALIASES = { trace_id: 'traceId', span_id: 'spanId', parent_span_id: 'parentSpanId' };
+
+/**
+ * Map one NDJSON object from a common JSON logger (pino, bunyan, winston,
+ * logrus, zap, ...) onto a log entry. Fields that aren't log metadata go to
+ * `data` unless the object already has one.
+ */
+const normalizeJsonLog = (object) => {
+  if (!object || typeof object !== 'object' || Array.isArray(object)) return null;
+
+  const consumed = {};
+  const take = (keys) => {
+    const found = pick(object, keys);
+    if (found.key) consumed[found.key] = true;
+    return found.value;
+  };
+
+  const message = take(MESSAGE_KEYS);
+  const level = take(LEVEL_KEYS);
+  const time = take(TIME_KEYS);
+  const scriptId = take(SCRIPT_KEYS);
+
+  const entry = {
+    message: typeof message === 'string' ? message : message !== undefined ? JSON.stringify(message) : undefined,
+    level: toJsonLevel(level),
+    time: toJsonTime(time),
+    scriptId: typeof scriptId === 'string' ? scriptId : undefined
+  };
+
+  PASSTHROUGH_KEYS.forEach((key) => {
+    if (object[key] !== undefined) {
+      entry[key] = object[key];
+      consumed[key] = true;
+    }
+  });
+  Object.keys(TRACE_ALIASES).forEach((key) => {
+    if (object[key] !== undefined && entry[TRACE_ALIASES[key]] === undefined) {
+      entry[TRACE_ALIASES[key]] = object[key];
+      consumed[key] = true;
+    }
+  });
+
+  // Error objects as pino/bunyan serialise them
+  const error = object.err || object.error;
+  if (!entry.stack && error && typeof error === 'object' && typeof error.stack === 'string') {
+    entry.stack = error.stack;
+    if (!entry.message && typeof error.message === 'string') entry.message = error.message;
+  }
+
+  if (object.data !== undefined) {
+    entry.data = object.data;
+  } else {
+    const rest = {};
+    Object.keys(object).forEach((key) => {
+      if (!consumed[key]) rest[key] = object[key];
+    });
+    if (Object.keys(rest).length > 0) entry.data = rest;
+  }
+
+  return entry;
+};
+
+module.exports = {
+  parseSyslogMessage,
+  parseStructuredData,
+  normalizeJsonLog,
+  syslogSeverityToLevel,
+  SYSLOG_FACILITIES,
+  SYSLOG_SEVERITIES
+};
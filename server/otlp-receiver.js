@@ -0,0 +1,184 @@
+/**
+ * OTLP/HTTP logs receiver (JSON encoding)
+ *
+ * Converts an OpenTelemetry ExportLogsServiceRequest into Allog log entries
+ * shaped for validateAndEnrichLogEntry. Resource and log attributes are
+ * flattened to plain objects keyed by their dotted OTel names; well-known
+ * semantic conventions (service.name, exception.*, code.*) are mapped onto
+ * the matching StandardLogEntry fields as well.
+ *
+ * See https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+const { config } = require('./config-loader');
+
+class OtlpFormatError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'OtlpFormatError';
+  }
+}
+
+// SeverityNumber ranges: TRACE 1-4, DEBUG 5-8, INFO 9-12, WARN 13-16,
+// ERROR 17-20, FATAL 21-24, the same scale as the level registry's
+const severityNumberToLevel = (severityNumber) => (
+  severityNumber >= 1 ? config.logLevels.fromSeverity(severityNumber) : undefined
+);
+
+// The JSON encoding may send enum values by name, e.g. "SEVERITY_NUMBER_WARN"
+const toSeverityNumber = (value) => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return 0;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const named = /^SEVERITY_NUMBER_([A-Z]+)(\d?)$/.exec(value);
+  if (!named) return 0;
+  const base = { TRACE: 1, DEBUG: 5, INFO: 9, WARN: 13, ERROR: 17, FATAL: 21 }[named[1]];
+  return base ? base + Math.max(0, (parseInt(named[2], 10) || 1) - 1) : 0;
+};
+
+/**
+ * Unwrap an OTLP AnyValue ({ stringValue }, { intValue }, { kvlistValue }, ...)
+ * into a plain JSON value
+ */
+const fromAnyValue = (value) => {
+  if (!value || typeof value !== 'object') return value;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  if ('intValue' in value) {
+    // int64 arrives as a string; keep it one if it would lose precision
+    const number = Number(value.intValue);
+    return Number.isSafeInteger(number) ? number : String(value.intValue);
+  }
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('bytesValue' in value) return value.bytesValue;
+  if ('arrayValue' in value) {
+    return ((value.arrayValue && value.arrayValue.values) || []).map(fromAnyValue);
+  }
+  if ('kvlistValue' in value) {
+    return fromKeyValues(value.kvlistValue && value.kvlistValue.values);
+  }
+  return undefined;
+};
+
+const fromKeyValues = (keyValues) => {
+  const result = {};
+  if (!Array.isArray(keyValues)) return result;
+  keyValues.forEach((kv) => {
+    if (kv && typeof kv.key === 'string') {
+      result[kv.key] = fromAnyValue(kv.value);
+    }
+  });
+  return result;
+};
+
+// Nanoseconds since the epoch (a string, as int64 is in JSON) -> ISO time
+const fromUnixNano = (value) => {
+  if (value === undefined || value === null || value === '' || value === '0' || value === 0) {
+    return undefined;
+  }
+  const text = String(value);
+  if (!/^\d+$/.test(text)) return undefined;
+  const ms = text.length > 6 ? Number(text.slice(0, -6)) : 0;
+  const date = new Date(ms);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Trace and span ids are hex in the OTLP JSON encoding, but some exporters
+ * send the protobuf JSON mapping's base64 instead
+ */
+const toHexId = (value, byteLength) => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const hexLength = byteLength * 2;
+  if (value.length === hexLength && /^[\da-f]+$/i.test(value)) {
+    return /^0+$/.test(value) ? undefined : value.toLowerCase();
+  }
+  const bytes = Buffer.from(value, 'base64');
+  if (bytes.length !== byteLength) return undefined;
+  const hex = bytes.toString('hex');
+  return /^0+$/.test(hex) ? undefined : hex;
+};
+
+const firstString = (...values) => values.find((value) => typeof value === 'string' && value !== '');
+
+const toLine = (value) => {
+  const line = Number(value);
+  return Number.isFinite(line) ? line : undefined;
+};
+
+/**
+ * Convert one LogRecord, given its resource and scope, to an Allog log entry
+ */
+const convertLogRecord = (record, resource, scope) => {
+  const attributes = fromKeyValues(record.attributes);
+  const severityNumber = toSeverityNumber(record.severityNumber);
+  const severityText = firstString(record.severityText);
+  const body = fromAnyValue(record.body);
+
+  let message = typeof body === 'string' && body
+    ? body
+    : firstString(attributes['event.name'], attributes['exception.message'], attributes['exception.type']);
+  if (!message) message = body !== undefined && body !== '' ? JSON.stringify(body) : '(empty log record)';
+
+  const serviceName = firstString(resource['service.name']);
+  const stack = firstString(attributes['exception.stacktrace']);
+
+  return {
+    message,
+    // A registered level name (or alias) in the text beats the number, so
+    // custom levels such as "audit" survive
+    level: config.normalizeLogLevel(severityText) || severityNumberToLevel(severityNumber) || 'info',
+    time: fromUnixNano(record.timeUnixNano) || fromUnixNano(record.observedTimeUnixNano),
+    // Structured bodies are the record's payload
+    data: body !== undefined && typeof body !== 'string' ? body : undefined,
+    stack,
+    scriptId: firstString(scope.name, serviceName),
+    sourceType: 'opentelemetry',
+    sourceVersion: firstString(resource['service.version']),
+    file: firstString(attributes['code.filepath'], attributes['code.file.path']),
+    line: toLine(attributes['code.lineno'] !== undefined ? attributes['code.lineno'] : attributes['code.line.number']),
+    functionName: firstString(attributes['code.function'], attributes['code.function.name']),
+    traceId: toHexId(record.traceId, 16),
+    spanId: toHexId(record.spanId, 8),
+    severity: severityText,
+    severityNumber: severityNumber || undefined,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    resource: Object.keys(resource).length > 0 ? resource : undefined,
+    scope: scope.name ? { name: scope.name, version: firstString(scope.version) } : undefined
+  };
+};
+
+/**
+ * Convert an ExportLogsServiceRequest body to Allog log entries, each paired
+ * with the source id it should be stored under (the service name unless the
+ * caller names one)
+ */
+const convertOtlpLogs = (body, { sourceId } = {}) => {
+  if (!body || typeof body !== 'object' || !Array.isArray(body.resourceLogs)) {
+    throw new OtlpFormatError('resourceLogs must be an array');
+  }
+
+  const entries = [];
+  body.resourceLogs.forEach((resourceLogs) => {
+    if (!resourceLogs) return;
+    const resource = fromKeyValues(resourceLogs.resource && resourceLogs.resource.attributes);
+    const entrySourceId = sourceId || firstString(resource['service.name']);
+
+    (resourceLogs.scopeLogs || resourceLogs.instrumentationLibraryLogs || []).forEach((scopeLogs) => {
+      if (!scopeLogs) return;
+      const scope = scopeLogs.scope || scopeLogs.instrumentationLibrary || {};
+      (scopeLogs.logRecords || []).forEach((record) => {
+        if (!record) return;
+        entries.push({ sourceId: entrySourceId, log: convertLogRecord(record, resource, scope) });
+      });
+    });
+  });
+  return entries;
+};
+
+module.exports = {
+  convertOtlpLogs,
+  fromAnyValue,
+  severityNumberToLevel,
+  OtlpFormatError
+};
@@ -0,0 +1,450 @@
+/**
+ * Parser Pipeline for Allog Server
+ *
+ * Extraction rules that turn raw-text and malformed log entries into
+ * structured ones before they are stored. Each rule is scoped to sources by
+ * glob (`nginx-*`) and extracts fields with one of:
+ *
+ * - grok:       `%{IP:client} %{WORD:method} %{GREEDYDATA:message}`
+ * - regex:      a JavaScript regex with named groups
+ * - kv:         `key=value` pairs with a configurable separator and delimiter
+ * - logfmt:     `level=info msg="request done" duration=12ms`
+ * - access-log: Apache/Nginx common and combined access logs
+ * - nginx-error: Nginx error log lines
+ *
+ * The first enabled rule that matches wins. Extracted `message`, `level` and
+ * `time`/`timestamp` fields become the entry's own; everything else goes to
+ * `data`.
+ */
+
+const { config } = require('./config-loader');
+
+class ParserRuleError extends Error {
+  constructor(message, ruleId) {
+    super(message);
+    this.name = 'ParserRuleError';
+    this.ruleId = ruleId;
+  }
+}
+
+const RULE_TYPES = ['grok', 'regex', 'kv', 'logfmt', 'access-log', 'nginx-error'];
+const PARSEABLE_QUALITIES = ['raw-text', 'malformed'];
+
+// Grok base patterns, a subset of the Logstash library
+const GROK_PATTERNS = {
+  WORD: '\\b\\w+\\b',
+  NOTSPACE: '\\S+',
+  SPACE: '\\s*',
+  DATA: '.*?',
+  GREEDYDATA: '.*',
+  INT: '[+-]?\\d+',
+  POSINT: '\\b[1-9]\\d*\\b',
+  NONNEGINT: '\\b\\d+\\b',
+  NUMBER: '[+-]?(?:\\d+(?:\\.\\d+)?|\\.\\d+)',
+  BASE16NUM: '(?:0[xX])?[0-9A-Fa-f]+',
+  UUID: '[A-Fa-f0-9]{8}-(?:[A-Fa-f0-9]{4}-){3}[A-Fa-f0-9]{12}',
+  IPV4: '(?:\\d{1,3}\\.){3}\\d{1,3}',
+  IPV6: '[0-9A-Fa-f:]*:[0-9A-Fa-f:.]+',
+  IP: '(?:%{IPV6}|%{IPV4})',
+  HOSTNAME: '\\b[0-9A-Za-z][0-9A-Za-z-]{0,62}(?:\\.[0-9A-Za-z][0-9A-Za-z-]{0,62})*\\.?\\b',
+  IPORHOST: '(?:%{IP}|%{HOSTNAME})',
+  USER: '[a-zA-Z0-9._-]+',
+  HTTPDUSER: '(?:%{USER}|-)',
+  URIPATH: '(?:/[^\\s?#]*)+',
+  URIPATHPARAM: '%{URIPATH}(?:\\?[^\\s#]*)?',
+  QS: '"(?:[^"\\\\]|\\\\.)*"',
+  QUOTEDSTRING: '%{QS}',
+  LOGLEVEL: '(?:[Tt]race|TRACE|[Dd]ebug|DEBUG|[Ii]nfo|INFO|[Nn]otice|NOTICE|[Ww]arn(?:ing)?|WARN(?:ING)?|[Ee]rr(?:or)?|ERR(?:OR)?|[Cc]rit(?:ical)?|CRIT(?:ICAL)?|[Ff]atal|FATAL|[Ss]evere|SEVERE|[Aa]lert|ALERT|[Ee]merg(?:ency)?|EMERG(?:ENCY)?)',
+  TIMESTAMP_ISO8601: '\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?',
+  HTTPDATE: '\\d{2}/\\w{3}/\\d{4}:\\d{2}:\\d{2}:\\d{2} [+-]\\d{4}',
+  SYSLOGTIMESTAMP: '\\w{3} +\\d{1,2} \\d{2}:\\d{2}:\\d{2}'
+};
+
+const ACCESS_LOG_PATTERN =
+  '%{IPORHOST:clientIp} %{HTTPDUSER:ident} %{HTTPDUSER:user} \\[%{HTTPDATE:timestamp}\\] ' +
+  '"(?:%{WORD:method} %{NOTSPACE:path}(?: HTTP/%{NUMBER:httpVersion})?|%{DATA:request})" ' +
+  '%{INT:status:int} (?:%{INT:bytes:int}|-)' +
+  '(?: %{QS:referrer} %{QS:userAgent})?' +
+  // Nginx formats often append e.g. "$http_x_forwarded_for" or $request_time
+  '(?: %{GREEDYDATA:extra})?';
+
+const NGINX_ERROR_PATTERN =
+  '(?<timestamp>\\d{4}/\\d{2}/\\d{2} \\d{2}:\\d{2}:\\d{2}) \\[%{LOGLEVEL:level}\\] ' +
+  '%{INT:pid:int}#%{INT:tid:int}: (?:\\*%{INT:connection:int} )?%{GREEDYDATA:message}';
+
+const MONTHS = { Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5, Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11 };
+
+// Registered levels and their aliases, custom ones included
+const toLevel = (value) => config.normalizeLogLevel(value);
+
+/**
+ * Times as parsers extract them: ISO 8601, Apache's `10/Oct/2000:13:55:36
+ * -0700`, Nginx's `2000/10/10 13:55:36` (local time) or epoch numbers
+ */
+const toTime = (value) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  let time;
+  const httpDate = typeof value === 'string' && /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/.exec(value);
+  if (httpDate && MONTHS[httpDate[2]] !== undefined) {
+    const offset = (httpDate[7] === '-' ? -1 : 1) * (parseInt(httpDate[8], 10) * 60 + parseInt(httpDate[9], 10));
+    time = new Date(Date.UTC(+httpDate[3], MONTHS[httpDate[2]], +httpDate[1], +httpDate[4], +httpDate[5], +httpDate[6]) - offset * 60000);
+  } else if (typeof value === 'string' && /^\d{4}\/\d{2}\/\d{2} /.test(value)) {
+    time = new Date(value.replace(/\//g, '-').replace(' ', 'T'));
+  } else if (typeof value === 'number' || /^\d{10,13}(\.\d+)?$/.test(String(value))) {
+    const number = Number(value);
+    time = new Date(number < 1e12 ? number * 1000 : number);
+  } else {
+    time = new Date(value);
+  }
+  return isNaN(time.getTime()) ? undefined : time.toISOString();
+};
+
+const convertValue = (value, type) => {
+  if (value === undefined) return undefined;
+  if (type === 'int') {
+    const number = parseInt(value, 10);
+    return isNaN(number) ? value : number;
+  }
+  if (type === 'float') {
+    const number = parseFloat(value);
+    return isNaN(number) ? value : number;
+  }
+  return value;
+};
+
+const unquote = (value) => {
+  if (typeof value === 'string' && value.length >= 2 && value[0] === '"' && value[value.length - 1] === '"') {
+    return value.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return value;
+};
+
+/**
+ * Compile a grok expression to a RegExp plus the fields it captures.
+ * Field names may contain dots, so captures use generated group names.
+ */
+const compileGrok = (pattern, customPatterns = {}) => {
+  const library = { ...GROK_PATTERNS, ...customPatterns };
+  const fields = [];
+  const expand = (text, depth) => {
+    if (depth > 10) throw new Error('grok patterns nest too deeply');
+    return text.replace(/%\{(\w+)(?::([\w.@-]+))?(?::(int|float))?\}/g, (match, name, field, type) => {
+      if (!(name in library)) throw new Error(`unknown grok pattern %{${name}}`);
+      const body = expand(library[name], depth + 1);
+      if (!field) return `(?:${body})`;
+      fields.push({ field, type });
+      return `(?<g${fields.length - 1}>${body})`;
+    });
+  };
+  const source = expand(pattern, 0);
+  return { regex: new RegExp(`^${source}$`), fields };
+};
+
+const grokExtract = (compiled, text) => {
+  const match = compiled.regex.exec(text);
+  if (!match) return null;
+  const result = {};
+  compiled.fields.forEach(({ field, type }, index) => {
+    const value = match.groups[`g${index}`];
+    if (value !== undefined) result[field] = convertValue(value, type);
+  });
+  // Named groups written directly into the pattern
+  Object.keys(match.groups || {}).forEach((name) => {
+    if (!/^g\d+$/.test(name) && match.groups[name] !== undefined) result[name] = match.groups[name];
+  });
+  return result;
+};
+
+/**
+ * key=value pairs. Values may be double-quoted (with backslash escapes);
+ * with `bareKeys`, a key without a value is true (logfmt).
+ */
+const parsePairs = (text, { separator = '=', delimiter = null, bareKeys = false } = {}) => {
+  const result = {};
+  let found = 0;
+  let i = 0;
+  const isDelimiter = (ch) => (delimiter ? ch === delimiter : /\s/.test(ch));
+
+  while (i < text.length) {
+    while (i < text.length && (isDelimiter(text[i]) || /\s/.test(text[i]))) i++;
+    if (i >= text.length) break;
+
+    let key = '';
+    while (i < text.length && text.substr(i, separator.length) !== separator && !isDelimiter(text[i])) {
+      key += text[i++];
+    }
+    key = key.trim();
+
+    if (text.substr(i, separator.length) !== separator) {
+      if (key && bareKeys) {
+        result[key] = true;
+        found++;
+      }
+      continue;
+    }
+    i += separator.length;
+
+    let value = '';
+    if (text[i] === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i++];
+      }
+      i++;
+    } else {
+      while (i < text.length && !isDelimiter(text[i])) value += text[i++];
+      value = value.trim();
+    }
+
+    if (key) {
+      result[key] = value;
+      found++;
+    }
+  }
+  return found > 0 ? result : null;
+};
+
+const compileSourceMatcher = (sources) => {
+  const patterns = (Array.isArray(sources) ? sources : sources ? [sources] : [])
+    .map(String)
+    .filter((pattern) => pattern.trim());
+  if (patterns.length === 0 || patterns.indexOf('*') !== -1) return () => true;
+  const regexes = patterns.map((pattern) => {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i');
+  });
+  return (sourceId) => regexes.some((regex) => regex.test(sourceId || ''));
+};
+
+/**
+ * Validate and compile one rule. Throws ParserRuleError.
+ */
+const compileRule = (rule, index = 0) => {
+  if (!rule || typeof rule !== 'object') {
+    throw new ParserRuleError(`rule ${index + 1} must be an object`);
+  }
+  const id = String(rule.id || `rule-${index + 1}`);
+  if (RULE_TYPES.indexOf(rule.type) === -1) {
+    throw new ParserRuleError(`${id}: type must be one of: ${RULE_TYPES.join(', ')}`, id);
+  }
+
+  let extract;
+  try {
+    switch (rule.type) {
+      case 'grok': {
+        if (!rule.pattern) throw new Error('pattern is required');
+        const compiled = compileGrok(rule.pattern, rule.patterns);
+        extract = (text) => grokExtract(compiled, text);
+        break;
+      }
+      case 'regex': {
+        if (!rule.pattern) throw new Error('pattern is required');
+        const regex = new RegExp(rule.pattern, String(rule.flags || '').replace(/g/g, ''));
+        extract = (text) => {
+          const match = regex.exec(text);
+          if (!match) return null;
+          return match.groups ? { ...match.groups } : { match: match[0] };
+        };
+        break;
+      }
+      case 'kv': {
+        const options = { separator: rule.separator || '=', delimiter: rule.delimiter || null };
+        extract = (text) => parsePairs(text, options);
+        break;
+      }
+      case 'logfmt':
+        extract = (text) => parsePairs(text, { bareKeys: true });
+        break;
+      case 'access-log': {
+        const compiled = compileGrok(ACCESS_LOG_PATTERN);
+        extract = (text) => grokExtract(compiled, text);
+        break;
+      }
+      case 'nginx-error': {
+        const compiled = compileGrok(NGINX_ERROR_PATTERN);
+        extract = (text) => grokExtract(compiled, text);
+        break;
+      }
+      default:
+        break;
+    }
+  } catch (error) {
+    throw new ParserRuleError(`${id}: ${error.message}`, id);
+  }
+
+  const appliesTo = Array.isArray(rule.appliesTo) && rule.appliesTo.length > 0
+    ? rule.appliesTo.filter((quality) => PARSEABLE_QUALITIES.indexOf(quality) !== -1)
+    : PARSEABLE_QUALITIES;
+
+  return {
+    rule: {
+      id,
+      name: rule.name || id,
+      enabled: rule.enabled !== false,
+      type: rule.type,
+      sources: Array.isArray(rule.sources) ? rule.sources : rule.sources ? [rule.sources] : [],
+      appliesTo,
+      pattern: rule.pattern,
+      flags: rule.flags,
+      patterns: rule.patterns,
+      separator: rule.separator,
+      delimiter: rule.delimiter,
+      level: rule.level,
+      fields: rule.fields
+    },
+    matchesSource: compileSourceMatcher(rule.sources),
+    extract
+  };
+};
+
+// Access logs: 5xx are errors and 4xx warnings
+const accessLogLevel = (status) => {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'warn';
+  return 'info';
+};
+
+/**
+ * Turn extracted fields into log entry fields. `rule.fields` can rename the
+ * fields that hold the message, level and time, e.g. { "message": "msg" }.
+ */
+const toEntryFields = (rule, extracted, text) => {
+  const names = {
+    message: ['message', 'msg'],
+    level: ['level', 'lvl', 'severity'],
+    time: ['time', 'timestamp', 'ts']
+  };
+  const mapping = rule.fields || {};
+  const data = { ...extracted };
+  const take = (role) => {
+    const keys = mapping[role] ? [mapping[role]] : names[role];
+    for (const key of keys) {
+      if (data[key] !== undefined && data[key] !== '') {
+        const value = data[key];
+        delete data[key];
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  let message = take('message');
+  const level = toLevel(take('level'));
+  const time = toTime(take('time'));
+
+  if (rule.type === 'access-log') {
+    ['referrer', 'userAgent'].forEach((key) => {
+      if (data[key] !== undefined) data[key] = unquote(data[key]);
+    });
+    // "-" marks an empty field
+    ['ident', 'user', 'referrer'].forEach((key) => {
+      if (data[key] === '-') delete data[key];
+    });
+    if (!message) {
+      message = data.method ? `${data.method} ${data.path} ${data.status}` : `${data.request || text}`;
+    }
+  }
+
+  return {
+    message: message !== undefined ? String(message) : text,
+    level: level || toLevel(rule.level) || (rule.type === 'access-log' ? accessLogLevel(data.status) : undefined),
+    time,
+    data
+  };
+};
+
+/**
+ * The text a raw or malformed entry was created from
+ */
+const getOriginalText = (logEntry) => {
+  const data = logEntry.data || {};
+  if (logEntry.quality === 'raw-text' && typeof data.originalText === 'string') return data.originalText;
+  if (logEntry.quality === 'malformed' && typeof data.originalData === 'string') return data.originalData;
+  return null;
+};
+
+class ParserPipeline {
+  constructor(rules = []) {
+    this.setRules(rules);
+  }
+
+  /**
+   * Replace every rule. Throws ParserRuleError and keeps the old rules when
+   * any rule is invalid.
+   */
+  setRules(rules) {
+    if (!Array.isArray(rules)) {
+      throw new ParserRuleError('rules must be an array');
+    }
+    const compiled = rules.map((rule, index) => compileRule(rule, index));
+    const ids = {};
+    compiled.forEach(({ rule }) => {
+      if (ids[rule.id]) throw new ParserRuleError(`duplicate rule id ${rule.id}`, rule.id);
+      ids[rule.id] = true;
+    });
+    this.compiled = compiled;
+    this.stats = {};
+  }
+
+  getRules() {
+    return this.compiled.map(({ rule }) => ({ ...rule, stats: this.stats[rule.id] || { matched: 0 } }));
+  }
+
+  /**
+   * Structured entry for a raw-text or malformed log, or null when no rule
+   * applies. The original text and the rule are kept in metadata.
+   */
+  apply(logEntry) {
+    if (!logEntry || PARSEABLE_QUALITIES.indexOf(logEntry.quality) === -1) return null;
+    const text = getOriginalText(logEntry);
+    if (text === null) return null;
+
+    for (const { rule, matchesSource, extract } of this.compiled) {
+      if (!rule.enabled || rule.appliesTo.indexOf(logEntry.quality) === -1 || !matchesSource(logEntry.sourceId)) continue;
+      const extracted = extract(text);
+      if (!extracted) continue;
+
+      const fields = toEntryFields(rule, extracted, text);
+      const stats = this.stats[rule.id] = this.stats[rule.id] || { matched: 0 };
+      stats.matched++;
+      stats.lastMatchedAt = new Date().toISOString();
+
+      return {
+        ...logEntry,
+        message: fields.message,
+        level: fields.level || logEntry.level,
+        time: fields.time || logEntry.time,
+        data: fields.data,
+        metadata: {
+          ...(logEntry.metadata || {}),
+          parser: { ruleId: rule.id, ruleName: rule.name, type: rule.type, originalQuality: logEntry.quality },
+          originalText: text
+        },
+        quality: 'parsed'
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Run one rule (which need not be saved) against sample lines
+   */
+  static test(rule, lines) {
+    const { rule: normalized, extract } = compileRule(rule);
+    return (Array.isArray(lines) ? lines : [lines]).map((line) => {
+      const text = String(line);
+      const extracted = extract(text);
+      return extracted
+        ? { line: text, matched: true, fields: extracted, entry: toEntryFields(normalized, extracted, text) }
+        : { line: text, matched: false };
+    });
+  }
+}
+
+module.exports = {
+  ParserPipeline,
+  ParserRuleError,
+  RULE_TYPES,
+  GROK_PATTERNS
+};
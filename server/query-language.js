@@ -0,0 +1,398 @@
+/**
+ * Query Language for Allog Server
+ *
+ * Server-side port of viewer-app/src/utils/QueryLanguage.ts so the same
+ * expression (e.g. `level:error script:checkout* data.userId=42 "timeout"
+ * -debug since:15m`) filters identically in the viewer and in /api/logs.
+ * Keep the two implementations in sync.
+ */
+
+const { config } = require('./config-loader');
+
+class QuerySyntaxError extends Error {
+  constructor(message, position) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+const QUERY_FIELD_ALIASES = {
+  script: 'scriptId',
+  source: 'sourceId',
+  msg: 'message',
+  type: 'sourceType',
+  fn: 'functionName',
+  trace: 'traceId',
+  span: 'spanId'
+};
+
+const TEXT_FIELDS = ['message', 'stack'];
+const TIME_UNITS = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const FIELD_PATTERN = /^([A-Za-z_][\w.]*)(>=|<=|!=|=|>|<|:)/;
+
+const isSpace = (ch) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+function readQuoted(input, start) {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === '\\' && i + 1 < input.length) {
+      value += input[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      return { value, end: i + 1 };
+    }
+    value += ch;
+    i++;
+  }
+  throw new QuerySyntaxError('Unterminated quoted string', start);
+}
+
+function tokenize(input) {
+  const tokens = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (isSpace(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', position: i, raw: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-' && i + 1 < input.length && !isSpace(input[i + 1]) && input[i + 1] !== ')') {
+      tokens.push({ type: 'not', position: i, raw: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-') {
+      throw new QuerySyntaxError("Expected a term after '-'", i);
+    }
+    if (ch === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: 'phrase', position: i, raw: input.slice(i, end), value });
+      i = end;
+      continue;
+    }
+
+    const start = i;
+    let word = '';
+    while (i < input.length && !isSpace(input[i]) && input[i] !== '(' && input[i] !== ')' && input[i] !== '"') {
+      word += input[i];
+      i++;
+    }
+
+    if (word === 'OR' || word === 'AND') {
+      if (word === 'OR') tokens.push({ type: 'or', position: start, raw: word });
+      continue;
+    }
+
+    const match = FIELD_PATTERN.exec(word);
+    if (match) {
+      let value = word.slice(match[0].length);
+      let quoted = false;
+      if (value === '' && input[i] === '"') {
+        const read = readQuoted(input, i);
+        value = read.value;
+        quoted = true;
+        i = read.end;
+      }
+      if (value === '' && !quoted) {
+        throw new QuerySyntaxError(`Missing value for '${match[1]}'`, start + match[0].length);
+      }
+      tokens.push({
+        type: 'term',
+        position: start,
+        raw: input.slice(start, i),
+        field: match[1],
+        operator: match[2],
+        value,
+        quoted
+      });
+      continue;
+    }
+
+    tokens.push({ type: 'term', position: start, raw: word, value: word });
+  }
+
+  return tokens;
+}
+
+function resolveQueryTime(value, now = Date.now()) {
+  const relative = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/.exec(value);
+  if (relative) {
+    return now - parseFloat(relative[1]) * TIME_UNITS[relative[2]];
+  }
+  if (value === 'now') return now;
+  return Date.parse(value);
+}
+
+class Parser {
+  constructor(tokens, inputLength) {
+    this.tokens = tokens;
+    this.index = 0;
+    this.inputLength = inputLength;
+  }
+
+  peek() {
+    return this.tokens[this.index];
+  }
+
+  position() {
+    const token = this.peek();
+    return token ? token.position : this.inputLength;
+  }
+
+  parse() {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new QuerySyntaxError(token.type === 'rparen' ? "Unmatched ')'" : `Unexpected '${token.raw}'`, token.position);
+    }
+    return node;
+  }
+
+  parseOr() {
+    const children = [this.parseAnd()];
+    while (this.peek() && this.peek().type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  parseAnd() {
+    const children = [];
+    let token = this.peek();
+    while (token && token.type !== 'or' && token.type !== 'rparen') {
+      children.push(this.parseUnary());
+      token = this.peek();
+    }
+    if (children.length === 0) {
+      throw new QuerySyntaxError('Expected a search term', this.position());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  parseUnary() {
+    const token = this.peek();
+    if (token && token.type === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  parsePrimary() {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Expected a search term', this.inputLength);
+    }
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      if (!this.peek() || this.peek().type !== 'rparen') {
+        throw new QuerySyntaxError("Missing ')'", token.position);
+      }
+      this.index++;
+      return node;
+    }
+
+    if (token.type === 'phrase') {
+      this.index++;
+      return { type: 'text', value: token.value };
+    }
+
+    if (token.type === 'term') {
+      this.index++;
+      if (!token.field) {
+        return { type: 'text', value: token.value };
+      }
+
+      const field = QUERY_FIELD_ALIASES[token.field] || token.field;
+      if (field === 'since' || field === 'until') {
+        if (token.operator !== ':' && token.operator !== '=') {
+          throw new QuerySyntaxError(`'${field}' only supports ':'`, token.position);
+        }
+        if (Number.isNaN(resolveQueryTime(token.value))) {
+          throw new QuerySyntaxError(`Invalid time '${token.value}' (use e.g. 15m, 2h, 7d or an ISO date)`, token.position);
+        }
+        return { type: 'time', bound: field, value: token.value };
+      }
+
+      return {
+        type: 'field',
+        field,
+        operator: token.operator,
+        value: token.value,
+        quoted: !!token.quoted
+      };
+    }
+
+    throw new QuerySyntaxError(`Unexpected '${token.raw}'`, token.position);
+  }
+}
+
+/**
+ * Parse a query string into an AST; null for an empty query.
+ * Throws QuerySyntaxError for invalid input.
+ */
+function parseQuery(input) {
+  const tokens = tokenize(input || '');
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, input.length).parse();
+}
+
+// Keys may themselves contain dots (OTel attributes such as "http.method"),
+// so the rest of the path is also tried as one key
+function getFieldValue(log, path) {
+  const parts = path.split('.');
+  let current = log;
+  for (let i = 0; i < parts.length; i++) {
+    if (current === null || current === undefined) return undefined;
+    const rest = parts.slice(i).join('.');
+    if (i < parts.length - 1 && typeof current === 'object' && rest in current) {
+      return current[rest];
+    }
+    current = current[parts[i]];
+  }
+  return current;
+}
+
+function getLogTime(log) {
+  const time = Date.parse(log.time || log.timestamp || '');
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function globToRegExp(pattern) {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[\\s\\S]*').replace(/\?/g, '[\\s\\S]');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function stringify(value) {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function compareValues(actual, expected) {
+  if (actual === undefined || actual === null) return null;
+
+  const actualText = stringify(actual);
+  const actualNumber = typeof actual === 'number' ? actual : Number(actualText);
+  const expectedNumber = Number(expected);
+  if (actualText.trim() !== '' && expected.trim() !== '' && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)) {
+    return actualNumber - expectedNumber;
+  }
+
+  const actualTime = Date.parse(actualText);
+  const expectedTime = Date.parse(expected);
+  if (!Number.isNaN(actualTime) && !Number.isNaN(expectedTime)) {
+    return actualTime - expectedTime;
+  }
+
+  return actualText < expected ? -1 : actualText > expected ? 1 : 0;
+}
+
+function matchField(node, log) {
+  const actual = getFieldValue(log, node.field);
+
+  switch (node.operator) {
+    case ':': {
+      if (actual === undefined || actual === null) return false;
+      const candidates = Array.isArray(actual) ? actual : [actual];
+      // level:warning and level:ERR name the same levels as level:warn, level:error
+      const value = node.field === 'level' ? (config.normalizeLogLevel(node.value) || node.value) : node.value;
+      return candidates.some(candidate => {
+        const text = stringify(candidate);
+        if (!node.quoted && value.indexOf('*') !== -1) {
+          return globToRegExp(value).test(text);
+        }
+        if (TEXT_FIELDS.indexOf(node.field) !== -1) {
+          return text.toLowerCase().indexOf(value.toLowerCase()) !== -1;
+        }
+        return text.toLowerCase() === value.toLowerCase();
+      });
+    }
+    case '=':
+    case '!=': {
+      const equal = compareValues(actual, node.value) === 0;
+      return node.operator === '=' ? equal : !equal;
+    }
+    default: {
+      // level>=warn compares severities rather than names
+      const difference = node.field === 'level'
+        ? config.logLevels.compare(actual, node.value)
+        : compareValues(actual, node.value);
+      if (difference === null) return false;
+      if (node.operator === '>') return difference > 0;
+      if (node.operator === '>=') return difference >= 0;
+      if (node.operator === '<') return difference < 0;
+      return difference <= 0;
+    }
+  }
+}
+
+/**
+ * Evaluate an AST against a log entry; `now` anchors relative times
+ */
+function evaluateQuery(node, log, now = Date.now()) {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => evaluateQuery(child, log, now));
+    case 'or':
+      return node.children.some(child => evaluateQuery(child, log, now));
+    case 'not':
+      return !evaluateQuery(node.child, log, now);
+    case 'text': {
+      const needle = node.value.toLowerCase();
+      if (String(log.message || '').toLowerCase().indexOf(needle) !== -1) return true;
+      return log.data !== undefined && stringify(log.data).toLowerCase().indexOf(needle) !== -1;
+    }
+    case 'field':
+      return matchField(node, log);
+    case 'time': {
+      const bound = resolveQueryTime(node.value, now);
+      const time = getLogTime(log);
+      return node.bound === 'since' ? time >= bound : time <= bound;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compile a query string into a predicate. Throws QuerySyntaxError.
+ */
+function compileQuery(input) {
+  const ast = parseQuery(input);
+  if (!ast) return () => true;
+  const now = Date.now();
+  return (log) => evaluateQuery(ast, log, now);
+}
+
+module.exports = {
+  QuerySyntaxError,
+  QUERY_FIELD_ALIASES,
+  parseQuery,
+  evaluateQuery,
+  compileQuery,
+  resolveQueryTime,
+  getFieldValue
+};
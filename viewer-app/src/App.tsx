@@ -1,9 +1,20 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import './styles/App.css';
 import './styles/MonitoringPage.css';
 import MonitoringPage from './components/MonitoringPage';
 import RecursiveLogsPage from './components/RecursiveLogsPage';
+import VirtualLogList from './components/VirtualLogList';
+import JsonTree from './components/JsonTree';
+import LiveTailControls from './components/LiveTailControls';
+import LogContextView from './components/LogContextView';
+import LogQualityBadge from './components/LogQualityBadge';
+import WatchAlerts from './components/WatchAlerts';
 import InstrumentationPage from './components/InstrumentationPage';
+import ComparisonWorkspace from './components/ComparisonWorkspace';
+import PatternsPage from './components/PatternsPage';
+import IssuesPage from './components/IssuesPage';
+import TracePage from './components/TracePage';
+import LogHistogram from './components/LogHistogram';
 import SaveSystem, { SaveItem, SaveNode, SaveSystemRef } from './components/SaveSystem';
 import ContextMenu, { ContextMenuItem } from './components/ContextMenu';
 import { useContextMenu } from './hooks/useContextMenu';
@@ -13,7 +24,21 @@ import Settings from './components/Settings';
 import { log } from './utils/AllogLogger';
 import viewerConfig from './config/config-loader';
 import ConsoleInterceptor from './utils/ConsoleInterceptor';
-import { createAllogApiClient } from './lib/allog-api-client';
+import { createAllogApiClient, LogEntryMetadata, LogQuality, LogQuery } from './lib/allog-api-client';
+import { tryParseQuery, evaluateQuery, buildFieldTerm } from './utils/QueryLanguage';
+import { LogValidator, LogProvenance, LogLevel } from './utils/LogConstants';
+import { MIN_LEVEL_PREFIX, getLevelColor, matchesLevelFilter, parseLevelFilter } from './utils/LogLevels';
+import { resolveViewerWebSocketUrl, SocketState, ViewerSubscription } from './lib/allog-socket';
+import { useAllogSocket } from './hooks/useAllogSocket';
+import { useLiveTail } from './hooks/useLiveTail';
+import { useWatchRules } from './hooks/useWatchRules';
+import { useMutedPatterns } from './hooks/useMutedPatterns';
+import { useIssueResolutions } from './hooks/useIssueResolutions';
+import { useLevelRegistry } from './hooks/useLevelRegistry';
+import { useAnalysisLogs } from './hooks/useAnalysisLogs';
+import { ERROR_LOG_QUERY } from './utils/ErrorFingerprint';
+import { MonitoringSnapshot, isMonitoringSnapshot } from './utils/MonitoringSnapshot';
+import { ComparisonSetup, isComparisonSetup } from './hooks/useComparisonSide';
 
 interface MonitoringStats {
   totalModules: number;
@@ -38,9 +63,30 @@ interface MonitoringConnectionStatus {
   scriptId: string;
   message: string;
   time: string;
-    level: 'info' | 'warn' | 'error' | 'debug' | 'test';
+    level: LogLevel;
+  sourceId?: string;
+  sourceType?: string;
+  sourceVersion?: string;
   data?: any;
   stack?: string;
+  tags?: string[];
+  file?: string;
+  line?: number;
+  column?: number;
+  functionName?: string;
+  provenance: LogProvenance;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  // OpenTelemetry logs, see the OTLP receiver
+  severity?: string;
+  severityNumber?: number;
+  attributes?: Record<string, any>;
+  resource?: Record<string, any>;
+  scope?: Record<string, any>;
+  serverReceivedAt?: string;
+  quality?: LogQuality;
+  metadata?: LogEntryMetadata;
 }
 
 interface LogStats {
@@ -62,10 +108,51 @@ interface ConnectionStatus {
   lastConnected?: string;
   error?: string;
   retryCount: number;
+  realtime?: SocketState;
 }
 
+interface LogPageState {
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+const getLogKey = (log: LogEntry) => log.id;
+
+// Normalize a server log payload to the viewer shape. Every field the query
+// language can filter on is kept, so the viewer's evaluator agrees with the server's.
+const toLogEntry = (raw: any): LogEntry => ({
+  id: raw.id,
+  scriptId: raw.scriptId || raw.sourceId || 'unknown',
+  sourceId: raw.sourceId,
+  sourceType: raw.sourceType,
+  sourceVersion: raw.sourceVersion,
+  message: raw.message,
+  time: raw.time || raw.timestamp || raw.serverReceivedAt || new Date().toISOString(),
+  level: raw.level,
+  data: raw.data,
+  stack: raw.stack,
+  tags: raw.tags,
+  file: raw.file,
+  line: raw.line,
+  column: raw.column,
+  functionName: raw.functionName,
+  provenance: LogValidator.getProvenance(raw),
+  traceId: raw.traceId,
+  spanId: raw.spanId,
+  parentSpanId: raw.parentSpanId,
+  severity: raw.severity,
+  severityNumber: raw.severityNumber,
+  attributes: raw.attributes,
+  resource: raw.resource,
+  scope: raw.scope,
+  serverReceivedAt: raw.serverReceivedAt,
+  quality: raw.quality,
+  metadata: raw.metadata
+});
+
 function App() {
-  const [currentView, setCurrentView] = useState<'logs' | 'monitoring' | 'recursive' | 'instrumentation'>('logs');
+  const [currentView, setCurrentView] = useState<'logs' | 'monitoring' | 'recursive' | 'instrumentation' | 'compare' | 'patterns' | 'issues' | 'trace'>('logs');
   const [settingsOpen, setSettingsOpen] = useState(false);
   const saveSystemRef = useRef<SaveSystemRef>(null);
   const handleCreateHighlight = useCallback((highlightData: any) => {
@@ -80,6 +167,9 @@ function App() {
   });
   const { getHighlightStyles, isElementHighlighted } = useHighlights();
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [logPage, setLogPage] = useState<LogPageState>({ total: 0, hasMore: false, nextCursor: null });
+  const [scriptIds, setScriptIds] = useState<string[]>([]);
+  const apiClient = useMemo(() => createAllogApiClient(viewerConfig.defaultServerUrl), []);
   const [logStats, setLogStats] = useState<LogStats>({
     totalLogs: 0,
     bufferSize: 0,
@@ -97,10 +187,15 @@ function App() {
   // Monitoring refresh settings
   const [monitoringAutoRefresh, setMonitoringAutoRefresh] = useState(true);
   const [monitoringRefreshInterval, setMonitoringRefreshInterval] = useState(5000);
+  // Saved monitoring-session shown instead of live monitoring data
+  const [monitoringSession, setMonitoringSession] = useState<{ name: string; snapshot: MonitoringSnapshot } | null>(null);
+  const [comparisonSession, setComparisonSession] = useState<{ name: string; setup: ComparisonSetup } | null>(null);
   const [saveSystemOpen, setSaveSystemOpen] = useState(false);
   const [expandedLogs, setExpandedLogs] = useState<Set<string>>(new Set());
   const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
   const [screenshotModal, setScreenshotModal] = useState<{ open: boolean; imageUrl?: string; overlay?: any }>({ open: false });
+  // Log whose surrounding context is open
+  const [contextAnchor, setContextAnchor] = useState<LogEntry | null>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' | 'info'; visible: boolean }>({ message: '', type: 'info', visible: false });
   const [filter, setFilter] = useState({
     level: '',
@@ -110,6 +205,38 @@ function App() {
     startDate: '',
     endDate: ''
   });
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // Server and viewer logs are hidden from the Logs view unless asked for
+  const [showInternal, setShowInternal] = useState(false);
+  // Logs matching a muted pattern are hidden unless this is on
+  const [showMuted, setShowMuted] = useState(false);
+
+  // The search box takes a query expression; errors are shown inline and
+  // the last valid query stays applied until the input parses again
+  const queryError = useMemo(() => tryParseQuery(filter.search).error, [filter.search]);
+  const appliedQuery = useMemo(() => tryParseQuery(debouncedSearch).ast, [debouncedSearch]);
+
+  // Avoid a server round-trip per keystroke
+  useEffect(() => {
+    if (queryError) return;
+    const timeout = setTimeout(() => setDebouncedSearch(filter.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filter.search, queryError]);
+
+  // Server-side query matching the current filter state
+  const levelFilter = useMemo(() => parseLevelFilter(filter.level), [filter.level]);
+  const logQuery = useMemo<LogQuery>(() => ({
+    levels: levelFilter.level ? [levelFilter.level] : undefined,
+    minLevel: levelFilter.minLevel,
+    scriptId: filter.scriptId || undefined,
+    sourceId: filter.sourceId || undefined,
+    q: debouncedSearch || undefined,
+    since: filter.startDate || undefined,
+    until: filter.endDate || undefined,
+    includeInternal: showInternal,
+    order: 'desc',
+    limit: viewerConfig.defaultLogBuffer
+  }), [levelFilter, filter.scriptId, filter.sourceId, filter.startDate, filter.endDate, debouncedSearch, showInternal]);
   
   // Console interceptor for capturing browser console logs
   const consoleInterceptorRef = useRef<ConsoleInterceptor | null>(null);
@@ -139,130 +266,199 @@ function App() {
     setTimeout(() => setNotification(prev => ({ ...prev, visible: false })), 3000);
   }, []);
 
-  // Heuristic to match server recursive classification (checks scriptId or sourceId)
-  const isRecursive = useCallback((log: LogEntry | (LogEntry & { sourceId?: string; recursive?: boolean })) => {
-    if ((log as any).recursive === true) return true;
-    if ((log as any).recursive === false) return false;
-    const sourceOrScript = ((log as any).scriptId || (log as any).sourceId || '').toLowerCase();
-    const msg = (log.message || '').toLowerCase();
-    return sourceOrScript.includes('viewer') || sourceOrScript.includes('allog') || msg.includes('viewer') || msg.includes('webpack');
+  // Realtime updates over a self-healing WebSocket connection
+  const wsUrl = useMemo(() => resolveViewerWebSocketUrl(), []);
+  const { socket, status: socketStatus } = useAllogSocket(wsUrl);
+  // Newest log received, so a reconnect can backfill from it
+  const lastSeenLogRef = useRef<{ id: string; time: string } | null>(null);
+
+  const rememberNewestLog = useCallback((entry: LogEntry) => {
+    const last = lastSeenLogRef.current;
+    if (!last || Date.parse(entry.time) >= Date.parse(last.time)) {
+      lastSeenLogRef.current = { id: entry.id, time: entry.time };
+    }
   }, []);
 
-  // WebSocket realtime updates for Logs view
-  useEffect(() => {
-    // Prefer explicit WS endpoint when provided at build time; otherwise derive from API target or sensible defaults
-    const envWs = (process as any)?.env?.WS_TARGET as string | undefined;
-    const envApi = (process as any)?.env?.API_TARGET as string | undefined;
-    let wsUrl: string;
-    if (envWs && typeof envWs === 'string' && envWs.length > 0) {
-      wsUrl = envWs;
-    } else if (envApi && typeof envApi === 'string' && envApi.length > 0) {
-      try {
-        const apiUrl = new URL(envApi);
-        const proto = apiUrl.protocol === 'https:' ? 'wss' : 'ws';
-        // Prefer explicit port if provided; otherwise rely on default scheme port
-        const portSegment = apiUrl.port ? `:${apiUrl.port}` : '';
-        wsUrl = `${proto}://${apiUrl.hostname}${portSegment}`;
-      } catch {
-        const wsProto = window.location.protocol === 'https:' ? 'wss' : 'ws';
-        const host = window.location.hostname;
-        const currentPort = window.location.port;
-        // WebSocket is served from the server port, not the viewer port
-        const targetPort = currentPort === viewerConfig.viewerPort.toString() ? 
-          viewerConfig.serverPort.toString() : 
-          (currentPort || viewerConfig.serverPort.toString());
-        wsUrl = `${wsProto}://${host}:${targetPort}`;
-      }
-    } else {
-      const wsProto = window.location.protocol === 'https:' ? 'wss' : 'ws';
-      const host = window.location.hostname;
-      const currentPort = window.location.port;
-      // If viewer runs on viewer port (dev), default WS to server port; otherwise use current port when available
-      const targetPort = currentPort === viewerConfig.viewerPort.toString() ? 
-        viewerConfig.serverPort.toString() : 
-        (currentPort || viewerConfig.serverPort.toString());
-      wsUrl = `${wsProto}://${host}:${targetPort}`;
+  // Whether "Load older logs" has appended pages a refresh has to keep
+  const olderPagesLoadedRef = useRef(false);
+
+  // Fetch the first page of logs matching the current query
+  const fetchLogs = useCallback(async () => {
+    try {
+      const result = await apiClient.queryLogs(logQuery);
+      const normalized = result.logs.map(toLogEntry);
+      if (normalized.length > 0) rememberNewestLog(normalized[0]);
+      olderPagesLoadedRef.current = false;
+      setLogs(normalized);
+      setLogPage({ total: result.total, hasMore: result.hasMore, nextCursor: result.nextCursor });
+      // Clear selection if the selected log no longer exists
+      setSelectedLog((prev) => (prev && normalized.some(l => l.id === prev.id) ? prev : null));
+    } catch (error) {
+      log.error('App', 'Failed to fetch logs', error);
     }
+  }, [apiClient, logQuery, rememberNewestLog]);
 
-    let socket: WebSocket | null = null;
+  // Append the next (older) page using the cursor from the last fetch
+  const loadMoreLogs = useCallback(async () => {
+    if (!logPage.nextCursor) return;
     try {
-      socket = new WebSocket(wsUrl);
-      socket.onmessage = (evt) => {
-        try {
-          const msg = JSON.parse(evt.data as any);
-          if (msg.type === 'new_log') {
-            // Normalize incoming server payload to viewer shape
-            const raw = msg.data as any;
-            const log: LogEntry = {
-              id: raw.id,
-              scriptId: raw.scriptId || raw.sourceId || 'unknown',
-              message: raw.message,
-              time: raw.time || raw.timestamp || raw.serverReceivedAt || new Date().toISOString(),
-              level: raw.level,
-              data: raw.data,
-              stack: raw.stack
-            };
-            // Only inject non-recursive into Logs view state
-            if (!isRecursive({ ...log, recursive: raw.recursive })) {
-              setLogs((prev) => {
-                if (prev.some((l) => l.id === log.id)) return prev; // de-dup by id
-                return [log, ...prev];
-              });
-            }
-          }
-          if (msg.type === 'logs_cleared') {
-            setLogs([]);
-            setSelectedLog(null);
-          }
-          if (msg.type === 'new_screenshot') {
-            // Optionally surface a quick toast or auto-open; for now just no-op.
-            // Hook is in place if we decide to add a toast system.
-          }
-          if (msg.type === 'monitoring_update') {
-            // Real-time monitoring data updates
-            // The MonitoringPage component will handle fetching updated data
-            // We could add a callback here to trigger refresh in MonitoringPage
-            log.info('App', 'Received monitoring update', msg.data);
-          }
-          if (msg.type === 'new_server_log') {
-            // Server logs are handled by the recursive logs page
-            // No need to update the main logs view
-            log.debug('App', 'Received server log update', msg.data);
-          }
-        } catch {}
-      };
-    } catch {}
-    return () => {
-      try { socket && socket.close(); } catch (error) {
-        console.warn('[App] Failed to close socket:', error);
-      }
-    };
-  }, [isRecursive]);
+      const result = await apiClient.queryLogs({ ...logQuery, cursor: logPage.nextCursor });
+      const normalized = result.logs.map(toLogEntry);
+      setLogs(prev => {
+        const seen = new Set(prev.map(l => l.id));
+        return prev.concat(normalized.filter(l => !seen.has(l.id)));
+      });
+      olderPagesLoadedRef.current = true;
+      setLogPage({ total: result.total, hasMore: result.hasMore, nextCursor: result.nextCursor });
+    } catch (error) {
+      log.error('App', 'Failed to load more logs', error);
+    }
+  }, [apiClient, logQuery, logPage.nextCursor]);
 
-  // Fetch logs from the API
-  const fetchLogs = useCallback(async () => {
+  // Auto-refresh: merge the first page in by id, keeping the older pages
+  // already loaded and the cursor that continues after them
+  const refreshLogs = useCallback(async () => {
+    if (!olderPagesLoadedRef.current) {
+      await fetchLogs();
+      return;
+    }
     try {
-      const response = await fetch(`${viewerConfig.defaultServerUrl}/api/logs?includeRecursive=false`);
-      if (response.ok) {
-        const data = await response.json();
-        const normalized: LogEntry[] = (data.logs || []).map((raw: any) => ({
-          id: raw.id,
-          scriptId: raw.scriptId || raw.sourceId || 'unknown',
-          message: raw.message,
-          time: raw.time || raw.timestamp || raw.serverReceivedAt || new Date().toISOString(),
-          level: raw.level,
-          data: raw.data,
-          stack: raw.stack
-        }));
-        // Ensure only non-recursive items populate Logs view
-        setLogs(normalized.filter((l, i) => !isRecursive({ ...l, recursive: (data.logs || [])[i]?.recursive })));
-        // Clear selection if the selected log no longer exists
-        setSelectedLog((prev) => (prev && normalized.some(l => l.id === prev.id) ? prev : null));
+      const result = await apiClient.queryLogs(logQuery);
+      const firstPage = result.logs.map(toLogEntry);
+      if (firstPage.length === 0) {
+        await fetchLogs();
+        return;
       }
+      rememberNewestLog(firstPage[0]);
+      const oldestTime = Date.parse(firstPage[firstPage.length - 1].time);
+      setLogs(prev => {
+        const seen = new Set(firstPage.map(l => l.id));
+        return firstPage.concat(prev.filter(l => !seen.has(l.id) && Date.parse(l.time) <= oldestTime));
+      });
+      setLogPage(prev => ({ ...prev, total: result.total }));
     } catch (error) {
-      log.error('App', 'Failed to fetch logs', error);
+      log.error('App', 'Failed to refresh logs', error);
     }
+  }, [apiClient, logQuery, fetchLogs, rememberNewestLog]);
+
+  // Live tail: new entries go to the head of the list unless paused
+  const prependLogs = useCallback((entries: LogEntry[]) => {
+    setLogs(prev => {
+      const seen = new Set(prev.map(l => l.id));
+      const fresh = entries.filter(l => !seen.has(l.id));
+      return fresh.length > 0 ? fresh.concat(prev) : prev;
+    });
   }, []);
+  const tail = useLiveTail<LogEntry>(prependLogs, {
+    maxBuffer: viewerConfig.maxLogBuffer,
+    onOverflow: fetchLogs
+  });
+  const watch = useWatchRules(apiClient);
+  const logLevels = useLevelRegistry(apiClient);
+  const mutedPatterns = useMutedPatterns();
+  const issueResolutions = useIssueResolutions(saveSystemRef);
+  const [traceId, setTraceId] = useState<string | null>(null);
+
+  // After a reconnect, fetch whatever was logged while the socket was down
+  const backfillLogs = useCallback(async () => {
+    const last = lastSeenLogRef.current;
+    if (!last) {
+      fetchLogs();
+      return;
+    }
+    try {
+      // Same filters as the list, so nothing it excludes is streamed in
+      const result = await apiClient.queryLogs({
+        ...logQuery,
+        afterId: last.id,
+        order: 'asc',
+        limit: viewerConfig.maxLogBuffer
+      });
+      if (result.hasMore) {
+        // Gap is larger than we want to stream in; start over from the first page
+        fetchLogs();
+        return;
+      }
+      const missed = result.logs.map(toLogEntry);
+      missed.forEach(rememberNewestLog);
+      tail.receive(missed.reverse());
+      log.info('App', 'Backfilled logs after reconnect', { count: missed.length });
+    } catch (error) {
+      log.error('App', 'Failed to backfill logs after reconnect', error);
+    }
+  }, [apiClient, fetchLogs, logQuery, rememberNewestLog, tail.receive]);
+
+  useEffect(() => {
+    return socket.onMessage((msg) => {
+      if (msg.type === 'new_log' || msg.type === 'new_server_log') {
+        // Normalize incoming server payload to viewer shape. The subscription
+        // decides whether internal logs are sent at all.
+        const log = toLogEntry(msg.data);
+        rememberNewestLog(log);
+        tail.receive([log]);
+      }
+      if (msg.type === 'logs_cleared') {
+        setLogs([]);
+        setSelectedLog(null);
+        tail.clear();
+        lastSeenLogRef.current = null;
+      }
+      if (msg.type === 'new_screenshot') {
+        // Optionally surface a quick toast or auto-open; for now just no-op.
+        // Hook is in place if we decide to add a toast system.
+      }
+      if (msg.type === 'monitoring_update') {
+        // Real-time monitoring data updates; MonitoringPage applies them
+        // through its own socket listener
+        log.info('App', 'Received monitoring update', msg.data);
+        watch.evaluate(msg.data);
+      }
+    });
+  }, [socket, rememberNewestLog, tail.receive, tail.clear, watch.evaluate]);
+
+  // Only ask the server for what the Logs view will display
+  const subscription = useMemo<ViewerSubscription>(() => ({
+    levels: levelFilter.level ? [levelFilter.level] : undefined,
+    minLevel: levelFilter.minLevel,
+    sources: filter.sourceId ? [filter.sourceId] : undefined,
+    scripts: filter.scriptId ? [filter.scriptId] : undefined,
+    query: debouncedSearch || undefined,
+    includeInternal: showInternal,
+    // Watch rules need monitoring updates whichever view is open
+    monitoring: currentView === 'monitoring' || watch.rules.length > 0 ? {} : false
+  }), [levelFilter, filter.sourceId, filter.scriptId, debouncedSearch, showInternal, currentView, watch.rules.length]);
+
+  useEffect(() => {
+    socket.subscribe(subscription);
+  }, [socket, subscription]);
+
+  useEffect(() => {
+    return socket.onOpen(({ reconnected }) => {
+      if (reconnected) backfillLogs();
+    });
+  }, [socket, backfillLogs]);
+
+  // Mirror the socket state into the connection status
+  useEffect(() => {
+    setConnection(prev => {
+      if (socketStatus.state === 'open') {
+        return { ...prev, realtime: 'open', isConnected: true, error: undefined, retryCount: 0, lastConnected: socketStatus.lastConnected };
+      }
+      if (socketStatus.state === 'reconnecting') {
+        return { ...prev, realtime: 'reconnecting', isConnected: false, error: socketStatus.error, retryCount: socketStatus.retryCount };
+      }
+      return { ...prev, realtime: socketStatus.state };
+    });
+  }, [socketStatus]);
+
+  // Script list for the filter dropdown comes from the server, not the current page
+  const fetchScripts = useCallback(async () => {
+    try {
+      setScriptIds((await apiClient.getScripts()).sort());
+    } catch (error) {
+      log.error('App', 'Failed to fetch scripts', error);
+    }
+  }, [apiClient]);
 
   // Fetch stats from the API
   const fetchStats = useCallback(async () => {
@@ -271,7 +467,8 @@ function App() {
       if (response.ok) {
         const data = await response.json();
         setLogStats(data);
-        setConnection(prev => ({ ...prev, isConnected: true, error: undefined }));
+        // While the socket is reconnecting it owns the connection state
+        setConnection(prev => (prev.realtime === 'reconnecting' ? prev : { ...prev, isConnected: true, error: undefined }));
       }
     } catch (error) {
       log.error('App', 'Failed to fetch stats', error);
@@ -301,6 +498,7 @@ function App() {
       }
       if (ok) {
         setLogs([]);
+        setLogPage({ total: 0, hasMore: false, nextCursor: null });
         await fetchStats();
       }
     } catch (error) {
@@ -314,18 +512,26 @@ function App() {
 
     const interval = setInterval(() => {
       if (currentView === 'logs') {
-        fetchLogs();
+        // A paused tail keeps the list as it is
+        if (!tail.paused) refreshLogs();
         fetchStats();
+        fetchScripts();
       }
     }, refreshInterval);
     return () => clearInterval(interval);
-  }, [autoRefresh, refreshInterval, fetchLogs, fetchStats, currentView]);
+  }, [autoRefresh, refreshInterval, refreshLogs, fetchStats, fetchScripts, currentView, tail.paused]);
 
-  // Initial fetch
+  // Initial fetch, and refetch whenever the query changes. Anything buffered
+  // by a paused tail was matched against the old query, so drop it.
   useEffect(() => {
+    tail.clear();
     fetchLogs();
+  }, [fetchLogs, tail.clear]);
+
+  useEffect(() => {
     fetchStats();
-  }, [fetchLogs, fetchStats]);
+    fetchScripts();
+  }, [fetchStats, fetchScripts]);
   
   // Initialize console interceptor when connection is established
   useEffect(() => {
@@ -347,15 +553,48 @@ function App() {
   }, [connection.isConnected]);
 
   // Filtered logs
+  let mutedCount = 0;
   const filteredLogs = logs.filter(log => {
     if (filter.scriptId && !log.scriptId.includes(filter.scriptId)) return false;
-    if (filter.level && log.level !== filter.level) return false;
-    if (filter.search && !log.message.toLowerCase().includes(filter.search.toLowerCase())) return false;
+    if (filter.level && !matchesLevelFilter(log.level, filter.level)) return false;
+    if (appliedQuery && !evaluateQuery(appliedQuery, log)) return false;
+    if (!showInternal && log.provenance === 'internal') return false;
+    if (!showMuted && mutedPatterns.isMuted(log.message)) {
+      mutedCount++;
+      return false;
+    }
     return true;
   });
 
-  // Get unique script IDs for filter dropdown
-  const scriptIds = Array.from(new Set(logs.map(log => log.scriptId))).sort();
+  // Patterns are mined from the most recent logs, muted or not, whatever
+  // the Logs view is filtered to
+  const patternSource = useAnalysisLogs(apiClient, {
+    includeInternal: showInternal,
+    active: currentView === 'patterns',
+    refreshInterval: autoRefresh ? refreshInterval : null
+  });
+  const patternLogs = useMemo(() => patternSource.logs.map(toLogEntry), [patternSource.logs]);
+
+  // Issues are grouped from the most recent error logs, muted or not,
+  // whatever the Logs view is filtered to
+  const issueSource = useAnalysisLogs(apiClient, {
+    q: ERROR_LOG_QUERY,
+    includeInternal: showInternal,
+    active: currentView === 'issues',
+    refreshInterval: autoRefresh ? refreshInterval : null
+  });
+  const issueLogs = useMemo(() => issueSource.logs.map(toLogEntry), [issueSource.logs]);
+
+  // Narrow the Logs filter to entries where a payload path has a value
+  const addFieldFilter = useCallback((path: Array<string | number>, value: string | number | boolean) => {
+    const term = buildFieldTerm(path, value);
+    if (!term) {
+      showNotification('This path cannot be used in a query', 'error');
+      return;
+    }
+    setFilter(prev => ({ ...prev, search: prev.search.trim() ? `${prev.search.trim()} ${term}` : term }));
+    showNotification(`Filtering logs by ${term}`, 'info');
+  }, [showNotification]);
 
   // Toggle log expansion
   const toggleLogExpansion = (logId: string) => {
@@ -452,35 +691,6 @@ function App() {
     }
   }, [filteredLogs, showNotification]);
 
-  const getValueType = (value: any): string => {
-    if (value === null) return 'null';
-    if (value === undefined) return 'undefined';
-    if (Array.isArray(value)) return 'array';
-    const t = typeof value;
-    if (t === 'object') return 'object';
-    if (t === 'string') return 'string';
-    if (t === 'number') return 'number';
-    if (t === 'boolean') return 'boolean';
-    return 'unknown';
-  };
-
-  const formatValue = (value: any): string => {
-    const type = getValueType(value);
-    switch (type) {
-      case 'object':
-      case 'array':
-        try { return JSON.stringify(value, null, 2); } catch { return String(value); }
-      case 'string':
-      case 'number':
-      case 'boolean':
-      case 'null':
-      case 'undefined':
-        return String(value);
-      default:
-        try { return JSON.stringify(value); } catch { return String(value); }
-    }
-  };
-
   // Handle right-click on log elements (only on Alt+Right-click)
   // Double-click detection for native context menu
   const doubleClickRefs = useRef<Map<string, { lastClick: number; timeout: NodeJS.Timeout | null }>>(new Map());
@@ -568,6 +778,31 @@ function App() {
     }
   }, [getCurrentData]);
 
+  const handleSaveMonitoringSnapshot = useCallback((name: string, snapshot: MonitoringSnapshot) => {
+    if (!saveSystemRef.current) return;
+    const variableCount = snapshot.series.length;
+    const session = saveSystemRef.current.createMonitoringSession({
+      name,
+      description: `Monitoring snapshot of ${variableCount} variable${variableCount === 1 ? '' : 's'} at ${new Date(snapshot.capturedAt).toLocaleString()}`,
+      tags: ['monitoring', 'snapshot'],
+      data: snapshot
+    });
+    setSaveSystemOpen(true);
+    log.info('App', 'Saved monitoring snapshot', { name: session.name, variables: variableCount });
+  }, []);
+
+  const handleSaveComparison = useCallback((name: string, setup: ComparisonSetup) => {
+    if (!saveSystemRef.current) return;
+    const comparison = saveSystemRef.current.createComparison({
+      name,
+      description: `${setup.mode === 'logs' ? 'Log' : 'Monitoring'} comparison aligned by ${setup.mode === 'logs' ? setup.alignment : 'variable'}`,
+      tags: ['comparison', setup.mode],
+      data: setup
+    });
+    setSaveSystemOpen(true);
+    log.info('App', 'Saved comparison', { name: comparison.name });
+  }, []);
+
   const handleLoad = useCallback((item: SaveItem) => {
     try {
       log.info('App', 'Loading item', { name: item.name, type: item.type });
@@ -620,9 +855,15 @@ function App() {
         }
         
         case 'monitoring-session': {
-          // Switch to monitoring view and apply saved settings
+          // Switch to monitoring view and open the saved snapshot, if any
           setCurrentView('monitoring');
-          log.info('App', 'Switched to monitoring view for session', { name: item.name });
+          const savedData = item.metadata?.data;
+          if (isMonitoringSnapshot(savedData)) {
+            setMonitoringSession({ name: item.name, snapshot: savedData });
+            log.info('App', 'Opened monitoring session snapshot', { name: item.name });
+          } else {
+            log.info('App', 'Switched to monitoring view for session', { name: item.name });
+          }
           break;
         }
         
@@ -633,8 +874,15 @@ function App() {
         }
         
         case 'comparison': {
-          // Comparison items could be handled by opening a comparison view
-          log.info('App', 'Comparison loaded', { name: item.name });
+          // Open the comparison workspace with the saved sides, if any
+          setCurrentView('compare');
+          const savedData = item.metadata?.data;
+          if (isComparisonSetup(savedData)) {
+            setComparisonSession({ name: item.name, setup: savedData });
+            log.info('App', 'Opened saved comparison', { name: item.name });
+          } else {
+            log.info('App', 'Switched to comparison view', { name: item.name });
+          }
           break;
         }
         
@@ -742,7 +990,8 @@ function App() {
           // Export logs with current filters
           const params = new URLSearchParams({
             format: 'json',
-            ...(filter.level && { level: filter.level }),
+            ...(levelFilter.level && { level: levelFilter.level }),
+            ...(levelFilter.minLevel && { minLevel: levelFilter.minLevel }),
             ...(filter.sourceId && { sourceId: filter.sourceId }),
             ...(filter.scriptId && { scriptId: filter.scriptId }),
             ...(filter.startDate && { start: filter.startDate }),
@@ -781,7 +1030,7 @@ function App() {
     } catch (error) {
       log.error('App', 'Server export failed', error);
     }
-  }, [getCurrentData, filter, handleExport]);
+  }, [getCurrentData, filter, levelFilter, handleExport]);
 
   // Bulk export functionality
   const handleBulkExport = useCallback(async (items: SaveItem[], format: 'json' | 'csv' = 'json') => {
@@ -1094,18 +1343,55 @@ function App() {
             onChange={(e) => setFilter(prev => ({ ...prev, level: e.target.value }))}
           >
             <option value="">All Levels</option>
-            {viewerConfig.validLogLevels.map(level => (
-              <option key={level} value={level}>
-                {level.charAt(0).toUpperCase() + level.slice(1)}
-              </option>
-            ))}
+            <optgroup label="At least">
+              {logLevels.slice(1).map(level => (
+                <option key={level.name} value={`${MIN_LEVEL_PREFIX}${level.name}`}>
+                  ≥ {level.name.charAt(0).toUpperCase() + level.name.slice(1)}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Only">
+              {logLevels.map(level => (
+                <option key={level.name} value={level.name}>
+                  {level.name.charAt(0).toUpperCase() + level.name.slice(1)}
+                </option>
+              ))}
+            </optgroup>
           </select>
-        <input
-          type="text"
-          placeholder="Search logs..."
-          value={filter.search}
-          onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
-        />
+        <div className="query-input">
+          <input
+            type="text"
+            className={queryError ? 'invalid' : ''}
+            placeholder='Search or query, e.g. level:error script:checkout* data.userId=42 "timeout" since:15m'
+            value={filter.search}
+            onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+            title={queryError ? queryError.message : undefined}
+          />
+          {queryError && (
+            <div className="query-error">
+              {queryError.message} (at column {queryError.position + 1})
+            </div>
+          )}
+        </div>
+        <label className="internal-toggle" title="Include logs from the Allog server and viewer">
+          <input
+            type="checkbox"
+            checked={showInternal}
+            onChange={(e) => setShowInternal(e.target.checked)}
+          />
+          Show internal
+        </label>
+        {mutedPatterns.muted.length > 0 && (
+          <label className="internal-toggle" title="Include logs matching patterns muted in the Patterns view">
+            <input
+              type="checkbox"
+              checked={showMuted}
+              onChange={(e) => setShowMuted(e.target.checked)}
+            />
+            Show muted{!showMuted && mutedCount > 0 ? ` (${mutedCount} hidden)` : ''}
+          </label>
+        )}
+        <LiveTailControls tail={tail} />
         <button onClick={clearLogs} className="clear-btn">
           Clear Logs
         </button>
@@ -1113,11 +1399,23 @@ function App() {
           📋 Copy Logs
         </button>
       </div>
+      <LogHistogram
+        apiClient={apiClient}
+        query={logQuery}
+        refreshKey={logStats.totalLogs}
+        startDate={filter.startDate}
+        endDate={filter.endDate}
+        onRangeChange={(startDate, endDate) => setFilter(prev => ({ ...prev, startDate, endDate }))}
+      />
       <div className="monitoring-content">
         {/* Left: Logs list */}
         <div className="monitoring-main">
-          <div className="log-list">
-            {filteredLogs.length === 0 ? (
+          <VirtualLogList
+            items={filteredLogs}
+            getKey={getLogKey}
+            onHeadChange={tail.setAtHead}
+            scrollToHeadSignal={tail.scrollToHeadSignal}
+            emptyState={
               <div className="no-logs">
                 {!connection.isConnected ? (
                   <div className="empty-state">
@@ -1128,7 +1426,7 @@ function App() {
                       Make sure the server is running on port {viewerConfig.serverPort}.
                     </div>
                   </div>
-                ) : logs.length === 0 ? (
+                ) : logs.length === 0 && logStats.totalLogs === 0 ? (
                   <div className="empty-state">
                     <div className="empty-state-icon">📋</div>
                     <div className="empty-state-title">No Logs Yet</div>
@@ -1148,47 +1446,59 @@ function App() {
                   </div>
                 )}
               </div>
-            ) : (
-              filteredLogs.map((log) => {
-                const highlightStyles = getHighlightStyles('log', log.scriptId, undefined, undefined, log.message);
-                const isSelected = selectedLog?.id === log.id;
-                return (
-                <div 
-                  key={log.id} 
-                  className={`log-entry log-${log.level} ${isSelected ? 'selected' : ''} ${highlightStyles.className}`} 
-                  style={highlightStyles.style}
-                  {...highlightStyles.dataAttributes}
-                >
-                  <div className="log-header" onClick={() => { toggleLogExpansion(log.id); }} onContextMenu={(e) => handleLogRightClick(e, log)}>
-                    <div className="log-time">{new Date(log.time).toLocaleTimeString()}</div>
-                    <div className={`log-level ${log.level}`}>{log.level.toUpperCase()}</div>
-                    <div className="log-script">{log.scriptId}</div>
-                    <div className="log-message">{log.message}</div>
-                    <div className="log-toggle">
-                      {expandedLogs.has(log.id) ? '▼' : '▶'}
-                    </div>
-                  </div>
-                  {expandedLogs.has(log.id) && (
-                    <div className="log-details">
-                      {log.data && (
-                        <div className="log-data">
-                          <strong>Data:</strong>
-                          <pre>{JSON.stringify(log.data, null, 2)}</pre>
-                        </div>
-                      )}
-                      {log.stack && (
-                        <div className="log-stack">
-                          <strong>Stack:</strong>
-                          <pre>{log.stack}</pre>
-                        </div>
-                      )}
-                    </div>
+            }
+            footer={logs.length > 0 && (
+              <div className="log-list-footer">
+                <span>Showing {logs.length} of {Math.max(logPage.total, logs.length)} matching logs</span>
+                {logPage.hasMore && (
+                  <button className="load-more-btn" onClick={loadMoreLogs}>
+                    Load older logs
+                  </button>
+                )}
+              </div>
+            )}
+            renderItem={(log) => {
+              const highlightStyles = getHighlightStyles('log', log.scriptId, undefined, undefined, log.message);
+              const isSelected = selectedLog?.id === log.id;
+              return (
+              <div 
+                className={`log-entry log-${log.level} ${log.provenance === 'internal' ? 'log-internal' : ''} ${isSelected ? 'selected' : ''} ${highlightStyles.className}`} 
+                style={highlightStyles.style}
+                {...highlightStyles.dataAttributes}
+              >
+                <div className="log-header" onClick={() => { toggleLogExpansion(log.id); }} onContextMenu={(e) => handleLogRightClick(e, log)}>
+                  <div className="log-time">{new Date(log.time).toLocaleTimeString()}</div>
+                  <div className={`log-level ${log.level}`} style={{ backgroundColor: getLevelColor(log.level) }}>{log.level.toUpperCase()}</div>
+                  <div className="log-script">{log.scriptId}</div>
+                  <LogQualityBadge quality={log.quality} metadata={log.metadata} />
+                  {log.provenance === 'internal' && (
+                    <div className="provenance-badge" title="Logged by the Allog server or viewer">INTERNAL</div>
                   )}
+                  <div className="log-message">{log.message}</div>
+                  <div className="log-toggle">
+                    {expandedLogs.has(log.id) ? '▼' : '▶'}
+                  </div>
                 </div>
-              );
-              })
-            )}
-          </div>
+                {expandedLogs.has(log.id) && (
+                  <div className="log-details">
+                    {log.data && (
+                      <div className="log-data">
+                        <strong>Data:</strong>
+                        <pre>{JSON.stringify(log.data, null, 2)}</pre>
+                      </div>
+                    )}
+                    {log.stack && (
+                      <div className="log-stack">
+                        <strong>Stack:</strong>
+                        <pre>{log.stack}</pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+            }}
+          />
         </div>
         {/* Right: Detail Panel */}
         {selectedLog && (
@@ -1220,7 +1530,12 @@ function App() {
                 </div>
                 <div className="detail-item">
                   <span className="detail-label">Level:</span>
-                  <span className={`detail-value`}>{selectedLog.level.toUpperCase()}</span>
+                  <span className={`detail-value`}>
+                    {selectedLog.level.toUpperCase()}
+                    {selectedLog.severity && selectedLog.severity.toLowerCase() !== selectedLog.level && (
+                      <span className="detail-secondary"> ({selectedLog.severity})</span>
+                    )}
+                  </span>
                 </div>
                 <div className="detail-item">
                   <span className="detail-label">Time:</span>
@@ -1230,19 +1545,60 @@ function App() {
                   <span className="detail-label">Message:</span>
                   <span className="detail-value">{selectedLog.message}</span>
                 </div>
+                {selectedLog.traceId && (
+                  <div className="detail-item">
+                    <span className="detail-label">Trace:</span>
+                    <span className="detail-value">
+                      <button
+                        className="detail-link"
+                        onClick={() => {
+                          setTraceId(selectedLog.traceId!);
+                          setCurrentView('trace');
+                        }}
+                        title="Show every entry in this trace across sources"
+                      >
+                        {selectedLog.traceId}
+                      </button>
+                      {selectedLog.spanId && <span className="detail-secondary"> span {selectedLog.spanId}</span>}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {selectedLog.data !== undefined && (
                 <div className="detail-section">
                   <h4>Data</h4>
-                  <div className="detail-item">
-                    <span className="detail-label">Current Value:</span>
-                    <div className="detail-value-container">
-                      <span className={`detail-value detail-value-${getValueType(selectedLog.data)}`}>
-                        {formatValue(selectedLog.data)}
-                      </span>
-                    </div>
-                  </div>
+                  <JsonTree
+                    key={selectedLog.id}
+                    data={selectedLog.data}
+                    basePath={['data']}
+                    onFilter={addFieldFilter}
+                  />
+                </div>
+              )}
+
+              {selectedLog.attributes && Object.keys(selectedLog.attributes).length > 0 && (
+                <div className="detail-section">
+                  <h4>Attributes</h4>
+                  <JsonTree
+                    key={selectedLog.id}
+                    data={selectedLog.attributes}
+                    basePath={['attributes']}
+                    onFilter={addFieldFilter}
+                  />
+                </div>
+              )}
+
+              {selectedLog.resource && Object.keys(selectedLog.resource).length > 0 && (
+                <div className="detail-section">
+                  <h4>Resource</h4>
+                  <JsonTree
+                    key={selectedLog.id}
+                    data={selectedLog.resource}
+                    basePath={['resource']}
+                    defaultExpandDepth={0}
+                    onFilter={addFieldFilter}
+                  />
                 </div>
               )}
 
@@ -1263,6 +1619,8 @@ function App() {
   const renderMonitoringView = () => (
     <div className="app">
       <MonitoringPage 
+        apiClient={apiClient}
+        socket={socket}
         onStatsUpdate={setMonitoringStats}
         onConnectionUpdate={setMonitoringConnection}
         saveSystemRef={saveSystemRef}
@@ -1270,6 +1628,9 @@ function App() {
         refreshInterval={monitoringRefreshInterval}
         onAutoRefreshChange={setMonitoringAutoRefresh}
         onRefreshIntervalChange={setMonitoringRefreshInterval}
+        savedSession={monitoringSession}
+        onCloseSavedSession={() => setMonitoringSession(null)}
+        onSaveSnapshot={handleSaveMonitoringSnapshot}
       />
     </div>
   );
@@ -1301,6 +1662,62 @@ function App() {
     return <InstrumentationPage />;
   };
 
+  // Render patterns view
+  const renderPatternsView = () => (
+    <div className="app">
+      <PatternsPage
+        logs={patternLogs}
+        loading={patternSource.loading}
+        onRefresh={patternSource.refresh}
+        muted={mutedPatterns.muted}
+        onMute={mutedPatterns.mute}
+        onUnmute={mutedPatterns.unmute}
+        onSelectLog={(entry) => setContextAnchor(toLogEntry(entry))}
+      />
+    </div>
+  );
+
+  // Render issues view
+  const renderIssuesView = () => (
+    <div className="app">
+      <IssuesPage
+        logs={issueLogs}
+        levels={logLevels}
+        loading={issueSource.loading}
+        onRefresh={issueSource.refresh}
+        resolved={issueResolutions.resolved}
+        onResolve={issueResolutions.resolve}
+        onReopen={issueResolutions.reopen}
+        onSelectLog={(entry) => setContextAnchor(toLogEntry(entry))}
+      />
+    </div>
+  );
+
+  // Render trace view
+  const renderTraceView = () => (
+    <div className="app">
+      <TracePage
+        apiClient={apiClient}
+        traceId={traceId}
+        onTraceChange={setTraceId}
+        onSelectLog={(entry) => setContextAnchor(toLogEntry(entry))}
+      />
+    </div>
+  );
+
+  // Render comparison view
+  const renderComparisonView = () => (
+    <div className="app">
+      <ComparisonWorkspace
+        apiClient={apiClient}
+        liveLogs={logs}
+        onSelectLog={(entry) => setContextAnchor(toLogEntry(entry))}
+        savedComparison={comparisonSession}
+        onSaveComparison={handleSaveComparison}
+      />
+    </div>
+  );
+
   // Render based on current view
   return (
     <div className="app-container">
@@ -1386,6 +1803,17 @@ function App() {
                 if (found) setSelectedLog(found);
               }
             },
+            {
+              id: 'show-context',
+              label: 'Show Surrounding Context',
+              icon: '🧭',
+              action: () => {
+                const id = contextMenu.targetData?.data?.logId;
+                if (!id) return;
+                const found = logs.find(l => l.id === id);
+                if (found) setContextAnchor(found);
+              }
+            },
             {
               id: 'save-log-to-directory',
               label: 'Save Log to Directory',
@@ -1492,9 +1920,42 @@ function App() {
               >
                 🔧 Instrumentation
               </button>
+              <div className="view-separator"></div>
+              <button 
+                className={`view-btn ${currentView === 'patterns' ? 'active' : ''}`}
+                onClick={() => setCurrentView('patterns')}
+              >
+                🧩 Patterns
+              </button>
+              <div className="view-separator"></div>
+              <button 
+                className={`view-btn ${currentView === 'issues' ? 'active' : ''}`}
+                onClick={() => setCurrentView('issues')}
+              >
+                🐞 Issues
+              </button>
+              <div className="view-separator"></div>
+              <button 
+                className={`view-btn ${currentView === 'trace' ? 'active' : ''}`}
+                onClick={() => setCurrentView('trace')}
+              >
+                🧵 Trace
+              </button>
+              <div className="view-separator"></div>
+              <button 
+                className={`view-btn ${currentView === 'compare' ? 'active' : ''}`}
+                onClick={() => setCurrentView('compare')}
+              >
+                ⚖️ Compare
+              </button>
             </div>
             <div className="connection-status">
-              <span className={`status-indicator ${currentView === 'logs' ? (connection.isConnected ? 'connected' : 'disconnected') : currentView === 'monitoring' ? (monitoringConnection.isConnected ? 'connected' : 'disconnected') : 'connected'}`}>
+              <span
+                className={`status-indicator ${currentView === 'logs' ? (connection.realtime === 'reconnecting' ? 'reconnecting' : connection.isConnected ? 'connected' : 'disconnected') : currentView === 'monitoring' ? (monitoringConnection.isConnected ? 'connected' : 'disconnected') : 'connected'}`}
+                title={currentView === 'logs' && connection.realtime === 'reconnecting'
+                  ? `Reconnecting (attempt ${connection.retryCount})${connection.error ? `: ${connection.error}` : ''}`
+                  : undefined}
+              >
                 {currentView === 'logs' ? (connection.isConnected ? '●' : '○') : currentView === 'monitoring' ? (monitoringConnection.isConnected ? '●' : '○') : '●'}
               </span>
             </div>
@@ -1527,8 +1988,29 @@ function App() {
         {currentView === 'logs' ? renderLogsView() : 
          currentView === 'monitoring' ? renderMonitoringView() : 
          currentView === 'recursive' ? renderRecursiveView() :
+         currentView === 'compare' ? renderComparisonView() :
+         currentView === 'patterns' ? renderPatternsView() :
+         currentView === 'issues' ? renderIssuesView() :
+         currentView === 'trace' ? renderTraceView() :
          renderInstrumentationView()}
       </div>
+      <LogContextView
+        isOpen={!!contextAnchor}
+        anchor={contextAnchor}
+        apiClient={apiClient}
+        includeInternal={showInternal}
+        onClose={() => setContextAnchor(null)}
+        onSelectLog={(entry) => {
+          setSelectedLog(toLogEntry(entry));
+          setContextAnchor(null);
+        }}
+      />
+      <WatchAlerts
+        alerts={watch.alerts}
+        ruleCount={watch.rules.length}
+        onDismiss={watch.dismissAlert}
+        onClear={watch.clearAlerts}
+      />
       <ScreenshotOverlayModal
         isOpen={screenshotModal.open}
         imageUrl={screenshotModal.imageUrl || ''}
@@ -1543,6 +2025,7 @@ function App() {
         monitoringRefreshInterval={monitoringRefreshInterval}
         onMonitoringAutoRefreshChange={setMonitoringAutoRefresh}
         onMonitoringRefreshIntervalChange={setMonitoringRefreshInterval}
+        apiClient={apiClient}
       />
     </div>
   );
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AllogApiClient, AllogSource } from '../lib/allog-api-client';
+import {
+  ComparableLog,
+  AlignedLog,
+  prepareLogs,
+  alignByTime,
+  alignByTemplate,
+  compareMonitoring
+} from '../utils/LogComparison';
+import {
+  ComparisonAlignment,
+  ComparisonMode,
+  ComparisonSetup,
+  ComparisonSourceSpec,
+  SavedSession,
+  useComparisonSide,
+  loadSavedSessions
+} from '../hooks/useComparisonSide';
+import StructuralDiffView from './StructuralDiffView';
+import '../styles/ComparisonWorkspace.css';
+
+/**
+ * ComparisonWorkspace - two log streams or two monitoring snapshots side by
+ * side, aligned by time or by message template, with entries that exist on
+ * one side only highlighted
+ */
+
+interface ComparisonWorkspaceProps {
+  apiClient: AllogApiClient;
+  // Logs currently loaded in the Logs view
+  liveLogs: ComparableLog[];
+  onSelectLog?: (log: ComparableLog) => void;
+  // A saved comparison node to open, and saving the current one as a node
+  savedComparison?: { name: string; setup: ComparisonSetup } | null;
+  onSaveComparison?: (name: string, setup: ComparisonSetup) => void;
+}
+
+// Rows rendered before a "show all" button
+const ROW_PAGE_SIZE = 200;
+
+const encodeSpec = (spec: ComparisonSourceSpec): string =>
+  spec.kind === 'live' ? 'live' : spec.kind === 'source' ? `source:${spec.sourceId}` : `saved:${spec.itemId}`;
+
+const decodeSpec = (value: string): ComparisonSourceSpec => {
+  if (value.indexOf('source:') === 0) return { kind: 'source', sourceId: value.slice('source:'.length) };
+  if (value.indexOf('saved:') === 0) return { kind: 'saved', itemId: value.slice('saved:'.length) };
+  return { kind: 'live' };
+};
+
+const formatComparisonTime = (time: number, relative: boolean): string => {
+  if (relative) return `+${(time / 1000).toFixed(3)}s`;
+  const date = new Date(time);
+  return `${date.toLocaleTimeString()}.${('00' + date.getMilliseconds()).slice(-3)}`;
+};
+
+const formatComparisonValue = (value: any): string => {
+  if (value === undefined) return '—';
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? String(value) : json;
+  } catch {
+    return '[Complex Object]';
+  }
+};
+
+const isStructured = (value: any) => value !== null && typeof value === 'object';
+
+export default function ComparisonWorkspace({
+  apiClient,
+  liveLogs,
+  onSelectLog,
+  savedComparison,
+  onSaveComparison
+}: ComparisonWorkspaceProps) {
+  const [mode, setMode] = useState<ComparisonMode>('logs');
+  const [leftSpec, setLeftSpec] = useState<ComparisonSourceSpec>({ kind: 'live' });
+  const [rightSpec, setRightSpec] = useState<ComparisonSourceSpec>({ kind: 'source', sourceId: '' });
+  const [alignment, setAlignment] = useState<ComparisonAlignment>('time');
+  const [toleranceMs, setToleranceMs] = useState(1000);
+  const [relative, setRelative] = useState(false);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [sources, setSources] = useState<AllogSource[]>([]);
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>(loadSavedSessions);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const left = useComparisonSide(apiClient, mode, leftSpec, liveLogs, refreshKey);
+  const right = useComparisonSide(apiClient, mode, rightSpec, liveLogs, refreshKey);
+
+  useEffect(() => {
+    apiClient.getSources()
+      .then(setSources)
+      .catch(error => {
+        console.error('Failed to fetch sources:', error);
+      });
+    setSavedSessions(loadSavedSessions());
+  }, [apiClient, refreshKey]);
+
+  useEffect(() => {
+    if (!savedComparison) return;
+    const { setup } = savedComparison;
+    setMode(setup.mode);
+    setLeftSpec(setup.left);
+    setRightSpec(setup.right);
+    setAlignment(setup.alignment === 'template' ? 'template' : 'time');
+    if (typeof setup.toleranceMs === 'number') setToleranceMs(setup.toleranceMs);
+    setRelative(!!setup.relative);
+  }, [savedComparison]);
+
+  useEffect(() => {
+    setShowAll(false);
+    setSelectedKey(null);
+  }, [mode, leftSpec, rightSpec, alignment, onlyDifferences]);
+
+  // Registered sources plus any seen in the live logs
+  const sourceIds = useMemo(() => {
+    const ids: Record<string, boolean> = {};
+    sources.forEach(source => { ids[source.sourceId] = true; });
+    liveLogs.forEach(log => { if (log.sourceId) ids[log.sourceId] = true; });
+    return Object.keys(ids).sort();
+  }, [sources, liveLogs]);
+
+  const changeMode = (next: ComparisonMode) => {
+    setMode(next);
+    setLeftSpec({ kind: 'live' });
+    setRightSpec(next === 'logs' ? { kind: 'source', sourceId: '' } : { kind: 'live' });
+  };
+
+  const describeSpec = (spec: ComparisonSourceSpec): string => {
+    if (spec.kind === 'live') return 'Live';
+    if (spec.kind === 'source') return spec.sourceId || 'No source';
+    const session = savedSessions.find(item => item.id === spec.itemId);
+    return session ? session.name : 'Saved session';
+  };
+
+  const saveComparison = () => {
+    if (!onSaveComparison) return;
+    onSaveComparison(`${describeSpec(leftSpec)} vs ${describeSpec(rightSpec)}`, {
+      mode,
+      left: leftSpec,
+      right: rightSpec,
+      alignment,
+      toleranceMs,
+      relative
+    });
+  };
+
+  const leftLogs = useMemo(() => prepareLogs(left.logs || [], relative), [left.logs, relative]);
+  const rightLogs = useMemo(() => prepareLogs(right.logs || [], relative), [right.logs, relative]);
+
+  const timeRows = useMemo(
+    () => (mode === 'logs' && alignment === 'time' ? alignByTime(leftLogs, rightLogs, toleranceMs) : []),
+    [mode, alignment, leftLogs, rightLogs, toleranceMs]
+  );
+  const templateRows = useMemo(
+    () => (mode === 'logs' && alignment === 'template' ? alignByTemplate(leftLogs, rightLogs) : []),
+    [mode, alignment, leftLogs, rightLogs]
+  );
+  const monitoringRows = useMemo(
+    () => (mode === 'monitoring' && left.modules && right.modules ? compareMonitoring(left.modules, right.modules) : []),
+    [mode, left.modules, right.modules]
+  );
+
+  const renderSidePicker = (label: string, spec: ComparisonSourceSpec, onChange: (spec: ComparisonSourceSpec) => void) => {
+    const sessionType = mode === 'logs' ? 'log-session' : 'monitoring-session';
+    const sessions = savedSessions.filter(session => session.type === sessionType);
+    return (
+      <label className="comparison-side-picker">
+        <span>{label}</span>
+        <select value={encodeSpec(spec)} onChange={(e) => onChange(decodeSpec(e.target.value))}>
+          <option value="live">{mode === 'logs' ? 'Live (Logs view)' : 'Live monitoring'}</option>
+          {mode === 'logs' && (
+            <optgroup label="Sources">
+              <option value="source:">Choose a source…</option>
+              {sourceIds.map(id => (
+                <option key={id} value={`source:${id}`}>{id}</option>
+              ))}
+            </optgroup>
+          )}
+          {sessions.length > 0 && (
+            <optgroup label="Saved sessions">
+              {sessions.map(session => (
+                <option key={session.id} value={`saved:${session.id}`}>{session.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+    );
+  };
+
+  const renderLogCell = (entry: AlignedLog | undefined) => {
+    if (!entry) return <div className="comparison-cell comparison-cell-empty" />;
+    return (
+      <div
+        className={`comparison-cell comparison-level-${entry.log.level}`}
+        onClick={() => onSelectLog?.(entry.log)}
+        title={entry.template}
+      >
+        <span className="comparison-time">{formatComparisonTime(entry.time, relative)}</span>
+        <span className="comparison-level">{entry.log.level}</span>
+        <span className="comparison-message">{entry.log.message}</span>
+      </div>
+    );
+  };
+
+  const renderPage = <T,>(rows: T[], render: (row: T, index: number) => React.ReactNode) => (
+    <>
+      {(showAll ? rows : rows.slice(0, ROW_PAGE_SIZE)).map(render)}
+      {!showAll && rows.length > ROW_PAGE_SIZE && (
+        <button className="comparison-show-all" onClick={() => setShowAll(true)}>
+          Show all {rows.length} rows
+        </button>
+      )}
+    </>
+  );
+
+  const renderTimeRows = () => {
+    const matched = timeRows.filter(row => row.left && row.right).length;
+    const rows = onlyDifferences ? timeRows.filter(row => !row.left || !row.right) : timeRows;
+    return (
+      <>
+        <div className="comparison-summary">
+          <span>{matched} matched</span>
+          <span className="comparison-count-left">{timeRows.filter(row => !row.right).length} only left</span>
+          <span className="comparison-count-right">{timeRows.filter(row => !row.left).length} only right</span>
+        </div>
+        <div className="comparison-rows">
+          {renderPage(rows, (row, index) => (
+            <div
+              key={`${row.left ? row.left.log.id : ''}-${row.right ? row.right.log.id : ''}-${index}`}
+              className={`comparison-row ${!row.right ? 'comparison-only-left' : !row.left ? 'comparison-only-right' : ''}`}
+            >
+              {renderLogCell(row.left)}
+              {renderLogCell(row.right)}
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  const renderTemplateRows = () => {
+    const rows = onlyDifferences
+      ? templateRows.filter(row => row.left.length !== row.right.length)
+      : templateRows;
+    return (
+      <>
+        <div className="comparison-summary">
+          <span>{templateRows.length} templates</span>
+          <span className="comparison-count-left">{templateRows.filter(row => row.right.length === 0).length} only left</span>
+          <span className="comparison-count-right">{templateRows.filter(row => row.left.length === 0).length} only right</span>
+        </div>
+        <div className="comparison-template-header">
+          <span>Template</span>
+          <span>Left</span>
+          <span>Right</span>
+        </div>
+        <div className="comparison-rows">
+          {renderPage(rows, (row) => (
+            <div
+              key={row.template}
+              className={`comparison-template-row ${
+                row.right.length === 0 ? 'comparison-only-left' :
+                row.left.length === 0 ? 'comparison-only-right' :
+                row.left.length !== row.right.length ? 'comparison-count-differs' : ''
+              }`}
+            >
+              <span className="comparison-template" title={(row.left[0] || row.right[0]).log.message}>{row.template}</span>
+              <span className="comparison-template-count">{row.left.length}</span>
+              <span className="comparison-template-count">{row.right.length}</span>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  const renderMonitoringRows = () => {
+    const rows = onlyDifferences
+      ? monitoringRows.filter(row => row.changed || !row.inLeft || !row.inRight)
+      : monitoringRows;
+    const selected = monitoringRows.find(row => row.key === selectedKey);
+    return (
+      <>
+        <div className="comparison-summary">
+          <span>{monitoringRows.length} values</span>
+          <span className="comparison-count-changed">{monitoringRows.filter(row => row.changed).length} changed</span>
+          <span className="comparison-count-left">{monitoringRows.filter(row => !row.inRight).length} only left</span>
+          <span className="comparison-count-right">{monitoringRows.filter(row => !row.inLeft).length} only right</span>
+        </div>
+        <div className="comparison-rows">
+          {renderPage(rows, (row) => (
+            <div
+              key={row.key}
+              className={`comparison-monitoring-row ${
+                !row.inRight ? 'comparison-only-left' :
+                !row.inLeft ? 'comparison-only-right' :
+                row.changed ? 'comparison-changed' : ''
+              } ${row.key === selectedKey ? 'selected' : ''}`}
+              onClick={() => setSelectedKey(row.key === selectedKey ? null : row.key)}
+            >
+              <span className="comparison-variable" title={`${row.moduleId} / ${row.scriptId}`}>
+                {row.scriptId} · {row.name} <span className="comparison-variable-type">{row.type}</span>
+              </span>
+              <span className="comparison-value">{formatComparisonValue(row.left)}</span>
+              <span className="comparison-value">{formatComparisonValue(row.right)}</span>
+            </div>
+          ))}
+        </div>
+        {selected && selected.changed && (isStructured(selected.left) || isStructured(selected.right)) && (
+          <div className="comparison-diff">
+            <StructuralDiffView before={selected.left} after={selected.right} beforeLabel="Left" afterLabel="Right" />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const loading = left.loading || right.loading;
+  const error = left.error || right.error;
+  const ready = mode === 'logs' ? !!left.logs && !!right.logs : !!left.modules && !!right.modules;
+
+  return (
+    <div className="comparison-workspace">
+      <div className="comparison-toolbar">
+        <div className="comparison-mode-toggle">
+          <button className={mode === 'logs' ? 'active' : ''} onClick={() => changeMode('logs')}>Logs</button>
+          <button className={mode === 'monitoring' ? 'active' : ''} onClick={() => changeMode('monitoring')}>Monitoring</button>
+        </div>
+        {renderSidePicker('Left', leftSpec, setLeftSpec)}
+        {renderSidePicker('Right', rightSpec, setRightSpec)}
+        {mode === 'logs' && (
+          <label className="comparison-option">
+            Align by
+            <select value={alignment} onChange={(e) => setAlignment(e.target.value as ComparisonAlignment)}>
+              <option value="time">Time</option>
+              <option value="template">Message template</option>
+            </select>
+          </label>
+        )}
+        {mode === 'logs' && alignment === 'time' && (
+          <label className="comparison-option" title="Logs with the same template this close in time are paired">
+            ±
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={toleranceMs}
+              onChange={(e) => setToleranceMs(Math.max(0, Number(e.target.value) || 0))}
+            />
+            ms
+          </label>
+        )}
+        {mode === 'logs' && (
+          <label className="comparison-option" title="Measure time from each side's first log">
+            <input type="checkbox" checked={relative} onChange={(e) => setRelative(e.target.checked)} />
+            Align starts
+          </label>
+        )}
+        <label className="comparison-option">
+          <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+          Only differences
+        </label>
+        <button className="comparison-refresh" onClick={() => setRefreshKey(key => key + 1)}>
+          🔄 Refresh
+        </button>
+        {onSaveComparison && (
+          <button className="comparison-save" onClick={saveComparison} title="Save the sides and alignment as a comparison">
+            💾 Save
+          </button>
+        )}
+      </div>
+
+      {error && <div className="comparison-error">{error}</div>}
+      {loading && <div className="comparison-empty">Loading…</div>}
+      {!loading && !error && !ready && (
+        <div className="comparison-empty">Choose what to compare on both sides</div>
+      )}
+
+      {!loading && ready && mode === 'logs' && alignment === 'time' && renderTimeRows()}
+      {!loading && ready && mode === 'logs' && alignment === 'template' && renderTemplateRows()}
+      {!loading && ready && mode === 'monitoring' && renderMonitoringRows()}
+    </div>
+  );
+}
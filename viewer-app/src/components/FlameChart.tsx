@@ -0,0 +1,180 @@
+import React, { useState, useRef } from 'react';
+import { ScriptTrace, TraceSpan } from '../utils/TraceBuilder';
+import '../styles/FlameChart.css';
+
+/**
+ * FlameChart - call spans per script on a shared time axis
+ *
+ * Nested calls stack downwards. Drag across a lane to zoom into that span of
+ * time; failed calls are drawn in red. Clicking a span selects it.
+ */
+
+interface FlameChartProps {
+  traces: ScriptTrace[];
+  selectedSpanId?: string | null;
+  onSelectSpan?: (span: TraceSpan) => void;
+}
+
+type TimeWindow = [number, number];
+
+const ROW_HEIGHT = 20;
+const AXIS_TICKS = 5;
+// Drags narrower than this (px) are clicks
+const MIN_BRUSH_PX = 4;
+
+const SPAN_COLORS = ['#c1793c', '#b8962e', '#a35d2e', '#c4a24a', '#9b6a3c', '#b5733f', '#8f7a35'];
+
+const getSpanColor = (functionName: string): string => {
+  let hash = 0;
+  for (let i = 0; i < functionName.length; i++) {
+    hash = ((hash << 5) - hash + functionName.charCodeAt(i)) | 0;
+  }
+  return SPAN_COLORS[Math.abs(hash) % SPAN_COLORS.length];
+};
+
+const formatDuration = (ms: number): string => {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)}s`;
+  if (ms >= 10) return `${Math.round(ms)}ms`;
+  return `${Math.round(ms * 100) / 100}ms`;
+};
+
+export default function FlameChart({ traces, selectedSpanId, onSelectSpan }: FlameChartProps) {
+  const [zoom, setZoom] = useState<TimeWindow | null>(null);
+  const [brush, setBrush] = useState<{ scriptId: string; start: number; end: number } | null>(null);
+  const laneRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  if (traces.length === 0) {
+    return <div className="flame-empty">No function calls recorded</div>;
+  }
+
+  const fullWindow: TimeWindow = [
+    traces.reduce((min, trace) => Math.min(min, trace.start), Infinity),
+    traces.reduce((max, trace) => Math.max(max, trace.end), -Infinity)
+  ];
+  const view = zoom || fullWindow;
+  const viewSpan = Math.max(1, view[1] - view[0]);
+
+  const toPercent = (time: number) => (time - view[0]) / viewSpan * 100;
+
+  // Pointer position as a fraction of the lane width
+  const getFraction = (scriptId: string, clientX: number): number => {
+    const lane = laneRefs.current[scriptId];
+    if (!lane) return 0;
+    const rect = lane.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+  };
+
+  const handleMouseDown = (scriptId: string, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const fraction = getFraction(scriptId, e.clientX);
+    setBrush({ scriptId, start: fraction, end: fraction });
+  };
+
+  const handleMouseMove = (scriptId: string, e: React.MouseEvent) => {
+    if (!brush || brush.scriptId !== scriptId) return;
+    setBrush({ ...brush, end: getFraction(scriptId, e.clientX) });
+  };
+
+  const handleMouseUp = () => {
+    if (!brush) return;
+    setBrush(null);
+    const lane = laneRefs.current[brush.scriptId];
+    const width = lane ? lane.getBoundingClientRect().width : 0;
+    if (Math.abs(brush.end - brush.start) * width < MIN_BRUSH_PX) return;
+    const from = Math.min(brush.start, brush.end);
+    const to = Math.max(brush.start, brush.end);
+    setZoom([view[0] + from * viewSpan, view[0] + to * viewSpan]);
+  };
+
+  const zoomOut = () => {
+    const center = (view[0] + view[1]) / 2;
+    const next: TimeWindow = [center - viewSpan, center + viewSpan];
+    setZoom(next[0] <= fullWindow[0] && next[1] >= fullWindow[1] ? null : next);
+  };
+
+  const ticks: number[] = [];
+  for (let i = 0; i <= AXIS_TICKS; i++) {
+    ticks.push(view[0] + viewSpan * i / AXIS_TICKS);
+  }
+
+  return (
+    <div className="flame-chart">
+      <div className="flame-toolbar">
+        <span className="flame-range">
+          {new Date(view[0]).toLocaleTimeString()} · {formatDuration(viewSpan)} window
+        </span>
+        <button className="flame-btn" onClick={zoomOut} disabled={!zoom}>Zoom out</button>
+        <button className="flame-btn" onClick={() => setZoom(null)} disabled={!zoom}>Reset zoom</button>
+        <span className="flame-hint">Drag across a lane to zoom</span>
+      </div>
+
+      <div className="flame-axis">
+        {ticks.map((tick, index) => (
+          <span
+            key={index}
+            className="flame-tick"
+            style={{ left: `${index * 100 / AXIS_TICKS}%` }}
+          >
+            +{formatDuration(tick - view[0])}
+          </span>
+        ))}
+      </div>
+
+      {traces.map(trace => {
+        const visible = trace.spans.filter(span => span.end >= view[0] && span.start <= view[1]);
+        const errors = trace.spans.filter(span => span.error).length;
+        return (
+          <div key={trace.scriptId} className="flame-script">
+            <div className="flame-script-header">
+              <span className="flame-script-name">{trace.scriptId}</span>
+              <span className="flame-script-stats">
+                {trace.spans.length} calls{errors > 0 && <span className="flame-script-errors"> · {errors} failed</span>}
+              </span>
+            </div>
+            <div
+              className="flame-lane"
+              ref={el => { laneRefs.current[trace.scriptId] = el; }}
+              style={{ height: (trace.maxDepth + 1) * ROW_HEIGHT }}
+              onMouseDown={(e) => handleMouseDown(trace.scriptId, e)}
+              onMouseMove={(e) => handleMouseMove(trace.scriptId, e)}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={() => setBrush(null)}
+            >
+              {visible.map(span => {
+                const left = Math.max(0, toPercent(span.start));
+                const right = Math.min(100, toPercent(span.end));
+                return (
+                  <div
+                    key={span.id}
+                    className={`flame-span ${span.error ? 'flame-span-error' : ''} ${span.id === selectedSpanId ? 'selected' : ''}`}
+                    style={{
+                      left: `${left}%`,
+                      width: `${Math.max(0, right - left)}%`,
+                      top: span.depth * ROW_HEIGHT,
+                      background: span.error ? undefined : getSpanColor(span.functionName)
+                    }}
+                    title={`${span.functionName} — ${formatDuration(span.duration)}${span.error ? `\nError: ${span.error}` : ''}`}
+                    onClick={() => onSelectSpan && onSelectSpan(span)}
+                  >
+                    <span className="flame-span-label">
+                      {span.functionName} <span className="flame-span-duration">{formatDuration(span.duration)}</span>
+                    </span>
+                  </div>
+                );
+              })}
+              {brush && brush.scriptId === trace.scriptId && (
+                <div
+                  className="flame-brush"
+                  style={{
+                    left: `${Math.min(brush.start, brush.end) * 100}%`,
+                    width: `${Math.abs(brush.end - brush.start) * 100}%`
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
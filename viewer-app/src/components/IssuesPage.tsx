@@ -0,0 +1,265 @@
+import React, { useState, useMemo } from 'react';
+import {
+  ErrorIssue,
+  IssueStatus,
+  groupIssues,
+  getIssueFrequency,
+  getIssueStatus
+} from '../utils/ErrorFingerprint';
+import { LevelDefinition } from '../utils/LogLevels';
+import '../styles/IssuesPage.css';
+
+/**
+ * IssuesPage - recent error logs grouped by stack-trace fingerprint, with
+ * counts, affected sources and scripts, and a frequency sparkline per issue.
+ * Resolved issues reopen when their fingerprint shows up again.
+ */
+
+export interface IssueLog {
+  id: string;
+  message: string;
+  level: string;
+  time?: string;
+  timestamp?: string;
+  scriptId?: string;
+  sourceId?: string;
+  stack?: string;
+}
+
+type IssueFilter = 'unresolved' | 'resolved' | 'all';
+
+interface IssuesPageProps {
+  logs: IssueLog[];
+  resolved: Record<string, string>;
+  onResolve: (fingerprint: string, lastSeen: number) => void;
+  onReopen: (fingerprint: string) => void;
+  onSelectLog?: (log: IssueLog) => void;
+  // Which levels count as errors changes when the server's registry loads
+  levels: LevelDefinition[];
+  loading?: boolean;
+  onRefresh?: () => void;
+}
+
+// Occurrences listed in the drill-down
+const DRILL_DOWN_LIMIT = 200;
+const SPARKLINE_BUCKETS = 24;
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 18;
+
+const STATUS_LABELS: Record<IssueStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  reopened: 'Reopened'
+};
+
+const formatSeen = (time: number): string => {
+  if (!time) return '—';
+  const date = new Date(time);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay ? date.toLocaleTimeString() : date.toLocaleString();
+};
+
+const formatList = (items: string[]): string =>
+  items.length === 0 ? '—' : items.length <= 2 ? items.join(', ') : `${items.slice(0, 2).join(', ')} +${items.length - 2}`;
+
+export default function IssuesPage({ logs, resolved, onResolve, onReopen, onSelectLog, levels, loading, onRefresh }: IssuesPageProps) {
+  const [filter, setFilter] = useState<IssueFilter>('unresolved');
+  const [search, setSearch] = useState('');
+  const [selectedFingerprint, setSelectedFingerprint] = useState<string | null>(null);
+
+  // levels is read through isErrorLog
+  const issues = useMemo(() => groupIssues(logs), [logs, levels]);
+
+  // One time axis for every sparkline so rows can be compared
+  const [rangeStart, rangeEnd] = useMemo(() => {
+    let start = Infinity;
+    let end = 0;
+    issues.forEach(issue => {
+      if (issue.firstSeen) start = Math.min(start, issue.firstSeen);
+      end = Math.max(end, issue.lastSeen);
+    });
+    return start === Infinity ? [0, 0] : [start, end];
+  }, [issues]);
+
+  const statusOf = (issue: ErrorIssue) => getIssueStatus(issue, resolved[issue.fingerprint]);
+
+  const shown = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return issues.filter(issue => {
+      const status = getIssueStatus(issue, resolved[issue.fingerprint]);
+      if (filter === 'unresolved' && status === 'resolved') return false;
+      if (filter === 'resolved' && status !== 'resolved') return false;
+      if (!query) return true;
+      return `${issue.errorType} ${issue.template} ${issue.frames.join(' ')} ${issue.scripts.join(' ')} ${issue.sources.join(' ')}`
+        .toLowerCase()
+        .indexOf(query) !== -1;
+    });
+  }, [issues, resolved, filter, search]);
+
+  const unresolvedCount = issues.filter(issue => statusOf(issue) !== 'resolved').length;
+  const selected = issues.find(issue => issue.fingerprint === selectedFingerprint) || null;
+
+  const renderSparkline = (issue: ErrorIssue) => {
+    const counts = getIssueFrequency(issue, logs, rangeStart, rangeEnd, SPARKLINE_BUCKETS);
+    const max = Math.max.apply(null, counts);
+    const barWidth = SPARKLINE_WIDTH / SPARKLINE_BUCKETS;
+    return (
+      <svg className="issue-sparkline" width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT}>
+        <title>{`${issue.count} occurrences between ${formatSeen(rangeStart)} and ${formatSeen(rangeEnd)}`}</title>
+        {counts.map((count, index) => {
+          if (!count) return null;
+          const height = Math.max(2, count / max * SPARKLINE_HEIGHT);
+          return (
+            <rect
+              key={index}
+              x={index * barWidth}
+              y={SPARKLINE_HEIGHT - height}
+              width={Math.max(1, barWidth - 1)}
+              height={height}
+            />
+          );
+        })}
+      </svg>
+    );
+  };
+
+  const renderResolveButton = (issue: ErrorIssue) => {
+    const status = statusOf(issue);
+    return (
+      <button
+        className="issue-resolve-btn"
+        onClick={(e) => {
+          e.stopPropagation();
+          if (status === 'resolved') {
+            onReopen(issue.fingerprint);
+          } else {
+            onResolve(issue.fingerprint, issue.lastSeen);
+          }
+        }}
+        title={status === 'resolved' ? 'Mark this issue as open again' : 'Hide this issue until it occurs again'}
+      >
+        {status === 'resolved' ? '↺ Reopen' : '✓ Resolve'}
+      </button>
+    );
+  };
+
+  const renderDrillDown = (issue: ErrorIssue) => {
+    // Newest first
+    const members = issue.members.slice(-DRILL_DOWN_LIMIT).reverse();
+    const latest = logs[issue.members[issue.members.length - 1]];
+    const resolvedAt = resolved[issue.fingerprint];
+    return (
+      <div className="issue-drill-down">
+        <div className="issue-drill-header">
+          <span className={`issue-status issue-status-${statusOf(issue)}`}>{STATUS_LABELS[statusOf(issue)]}</span>
+          <span className="issue-drill-title" title={issue.template}>{issue.errorType}: {issue.template}</span>
+          {renderResolveButton(issue)}
+          <button className="issue-close" onClick={() => setSelectedFingerprint(null)}>×</button>
+        </div>
+        <div className="issue-drill-summary">
+          {issue.count} occurrences · first {formatSeen(issue.firstSeen)} · last {formatSeen(issue.lastSeen)}
+          {resolvedAt && ` · resolved ${formatSeen(new Date(resolvedAt).getTime())}`}
+          <br />
+          Sources: {issue.sources.join(', ') || '—'} · Scripts: {issue.scripts.join(', ') || '—'}
+          <br />
+          Fingerprint <code>{issue.fingerprint}</code>
+        </div>
+        {latest && latest.stack ? (
+          <pre className="issue-stack">{latest.stack}</pre>
+        ) : (
+          <div className="issue-no-stack">No stack trace; grouped by message only</div>
+        )}
+        <div className="issue-drill-list">
+          {members.map(index => {
+            const log = logs[index];
+            return (
+              <div key={log.id} className="issue-entry" onClick={() => onSelectLog?.(log)}>
+                <span className="issue-entry-time">{formatSeen(new Date(log.time || log.timestamp || '').getTime() || 0)}</span>
+                {log.scriptId && <span className="issue-entry-script">{log.scriptId}</span>}
+                <span className="issue-entry-message">{log.message}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="issues-page">
+      <div className="issues-toolbar">
+        <input
+          type="text"
+          className="issues-search"
+          placeholder="Filter issues..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <label className="issues-option">
+          Show
+          <select value={filter} onChange={(e) => setFilter(e.target.value as IssueFilter)}>
+            <option value="unresolved">Unresolved</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+        </label>
+        <span className="issues-summary">
+          {issues.length} issues ({unresolvedCount} unresolved) from {logs.length} logs
+        </span>
+        {onRefresh && (
+          <button className="issues-refresh" onClick={onRefresh} disabled={loading}>
+            🔄 Refresh
+          </button>
+        )}
+      </div>
+
+      <div className="issues-content">
+        <div className="issues-table">
+          <div className="issue-row issue-header">
+            <span>Issue</span>
+            <span>Count</span>
+            <span>Trend</span>
+            <span>Sources</span>
+            <span>Scripts</span>
+            <span>First seen</span>
+            <span>Last seen</span>
+            <span />
+          </div>
+          {shown.length === 0 && (
+            <div className="issues-empty">
+              {issues.length === 0 ? (loading ? 'Loading…' : 'No recent errors') : 'No issues match'}
+            </div>
+          )}
+          {shown.map(issue => {
+            const status = statusOf(issue);
+            return (
+              <div
+                key={issue.fingerprint}
+                className={`issue-row ${issue.fingerprint === selectedFingerprint ? 'selected' : ''} ${status === 'resolved' ? 'issue-resolved' : ''}`}
+                onClick={() => setSelectedFingerprint(issue.fingerprint === selectedFingerprint ? null : issue.fingerprint)}
+              >
+                <span className="issue-title" title={`${issue.errorType}: ${issue.template}\n${issue.frames.join('\n')}`}>
+                  {status !== 'open' && (
+                    <span className={`issue-status issue-status-${status}`}>{STATUS_LABELS[status]}</span>
+                  )}
+                  <span className="issue-type">{issue.errorType}</span>
+                  <span className="issue-template">{issue.template}</span>
+                  {issue.frames.length > 0 && <span className="issue-frame">{issue.frames[0]}</span>}
+                </span>
+                <span className="issue-count">{issue.count}</span>
+                {renderSparkline(issue)}
+                <span className="issue-list" title={issue.sources.join(', ')}>{formatList(issue.sources)}</span>
+                <span className="issue-list" title={issue.scripts.join(', ')}>{formatList(issue.scripts)}</span>
+                <span className="issue-seen">{formatSeen(issue.firstSeen)}</span>
+                <span className="issue-seen">{formatSeen(issue.lastSeen)}</span>
+                {renderResolveButton(issue)}
+              </div>
+            );
+          })}
+        </div>
+
+        {selected && renderDrillDown(selected)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { LogFormatter } from '../utils/LogFormatter';
+import '../styles/JsonTree.css';
+
+/**
+ * JsonTree - collapsible, searchable view of a JSON payload
+ *
+ * Values are coloured by type. Each node can copy its JSONPath or value, and
+ * primitive values can be turned into a log filter through onFilter.
+ */
+
+type PathSegment = string | number;
+
+interface JsonTreeProps {
+  data: any;
+  // Path of the root value, prepended to filter paths (e.g. ['data'])
+  basePath?: PathSegment[];
+  defaultExpandDepth?: number;
+  onFilter?: (path: PathSegment[], value: string | number | boolean) => void;
+}
+
+type ExpandMode = 'default' | 'all' | 'none';
+
+// Children rendered per object/array before a "show more" row
+const CHILD_PAGE_SIZE = 100;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const toJsonPath = (path: PathSegment[]): string =>
+  path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return IDENTIFIER.test(segment) ? `${result}.${segment}` : `${result}[${JSON.stringify(segment)}]`;
+  }, '$');
+
+const isContainer = (value: any): boolean => value !== null && typeof value === 'object';
+
+const getChildren = (value: any): Array<[PathSegment, any]> =>
+  Array.isArray(value)
+    ? value.map((child, index) => [index, child] as [PathSegment, any])
+    : Object.keys(value).map(key => [key, value[key]] as [PathSegment, any]);
+
+const formatPrimitive = (value: any): string => {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value === undefined) return 'undefined';
+  return String(value);
+};
+
+// Paths of nodes matching the search, and of every container above a match
+const findMatches = (data: any, search: string) => {
+  const matches: Record<string, true> = {};
+  const ancestors: Record<string, true> = {};
+  let count = 0;
+
+  const visit = (value: any, path: PathSegment[]): boolean => {
+    const id = toJsonPath(path);
+    const key = path.length > 0 ? String(path[path.length - 1]).toLowerCase() : '';
+    let matched = key.indexOf(search) !== -1;
+    let childMatched = false;
+
+    if (isContainer(value)) {
+      getChildren(value).forEach(([segment, child]) => {
+        if (visit(child, path.concat(segment))) childMatched = true;
+      });
+    } else if (formatPrimitive(value).toLowerCase().indexOf(search) !== -1) {
+      matched = true;
+    }
+
+    if (matched) {
+      matches[id] = true;
+      count++;
+    }
+    if (childMatched) ancestors[id] = true;
+    return matched || childMatched;
+  };
+
+  visit(data, []);
+  return { matches, ancestors, count };
+};
+
+export default function JsonTree({ data, basePath = [], defaultExpandDepth = 1, onFilter }: JsonTreeProps) {
+  const [search, setSearch] = useState('');
+  const [expandMode, setExpandMode] = useState<ExpandMode>('default');
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+  const [visibleChildren, setVisibleChildren] = useState<Record<string, number>>({});
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+
+  const searchLower = search.trim().toLowerCase();
+  const searchResult = useMemo(
+    () => (searchLower ? findMatches(data, searchLower) : null),
+    [data, searchLower]
+  );
+
+  const isExpanded = useCallback((id: string, depth: number): boolean => {
+    if (toggled[id] !== undefined) return toggled[id];
+    if (searchResult) return !!searchResult.ancestors[id];
+    if (expandMode === 'all') return true;
+    if (expandMode === 'none') return false;
+    return depth < defaultExpandDepth;
+  }, [toggled, searchResult, expandMode, defaultExpandDepth]);
+
+  const setAllExpanded = (mode: ExpandMode) => {
+    setExpandMode(mode);
+    setToggled({});
+  };
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopyStatus(`Copied ${label}`);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+      setCopyStatus('Copy failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  const renderActions = (value: any, path: PathSegment[], id: string) => {
+    const canFilter = onFilter && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean');
+    return (
+      <span className="json-tree-actions">
+        <button type="button" title="Copy JSONPath" onClick={(e) => { e.stopPropagation(); copyText(id, id); }}>
+          path
+        </button>
+        <button
+          type="button"
+          title="Copy value"
+          onClick={(e) => {
+            e.stopPropagation();
+            copyText(typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? String(value), 'value');
+          }}
+        >
+          value
+        </button>
+        {canFilter && (
+          <button
+            type="button"
+            title="Show logs where this path has this value"
+            onClick={(e) => { e.stopPropagation(); onFilter!(basePath.concat(path), value); }}
+          >
+            filter
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  const renderNode = (value: any, path: PathSegment[], depth: number): React.ReactNode => {
+    const id = toJsonPath(path);
+    const type = LogFormatter.getValueType(value);
+    const matched = !!searchResult && !!searchResult.matches[id];
+    const label = path.length > 0 ? path[path.length - 1] : null;
+    const keyLabel = label === null ? null : (
+      <span className={`json-tree-key ${typeof label === 'number' ? 'index' : ''}`}>
+        {typeof label === 'number' ? label : JSON.stringify(label)}:
+      </span>
+    );
+
+    if (!isContainer(value)) {
+      return (
+        <div key={id} className={`json-tree-node ${matched ? 'matched' : ''}`} style={{ paddingLeft: depth * 14 }}>
+          <span className="json-tree-toggle" />
+          {keyLabel}
+          <span className={`json-tree-value json-value-${type}`}>{formatPrimitive(value)}</span>
+          {renderActions(value, path, id)}
+        </div>
+      );
+    }
+
+    const children = getChildren(value);
+    const expanded = isExpanded(id, depth);
+    const [open, close] = type === 'array' ? ['[', ']'] : ['{', '}'];
+    const summary = type === 'array'
+      ? `${children.length} item${children.length === 1 ? '' : 's'}`
+      : `${children.length} key${children.length === 1 ? '' : 's'}`;
+    const limit = visibleChildren[id] || CHILD_PAGE_SIZE;
+
+    return (
+      <React.Fragment key={id}>
+        <div
+          className={`json-tree-node container ${matched ? 'matched' : ''}`}
+          style={{ paddingLeft: depth * 14 }}
+          onClick={() => children.length > 0 && setToggled(prev => ({ ...prev, [id]: !expanded }))}
+        >
+          <span className="json-tree-toggle">{children.length > 0 ? (expanded ? '▼' : '▶') : ''}</span>
+          {keyLabel}
+          <span className={`json-tree-value json-value-${type}`}>
+            {expanded && children.length > 0 ? open : `${open} ${summary} ${close}`}
+          </span>
+          {renderActions(value, path, id)}
+        </div>
+        {expanded && children.slice(0, limit).map(([segment, child]) =>
+          renderNode(child, path.concat(segment), depth + 1)
+        )}
+        {expanded && children.length > limit && (
+          <div className="json-tree-node" style={{ paddingLeft: (depth + 1) * 14 }}>
+            <button
+              type="button"
+              className="json-tree-more"
+              onClick={() => setVisibleChildren(prev => ({ ...prev, [id]: limit + CHILD_PAGE_SIZE }))}
+            >
+              Show {Math.min(CHILD_PAGE_SIZE, children.length - limit)} more of {children.length - limit} remaining
+            </button>
+          </div>
+        )}
+        {expanded && children.length > 0 && (
+          <div className="json-tree-node" style={{ paddingLeft: depth * 14 }}>
+            <span className="json-tree-toggle" />
+            <span className={`json-tree-value json-value-${type}`}>{close}</span>
+          </div>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="json-tree">
+      <div className="json-tree-toolbar">
+        <input
+          type="text"
+          placeholder="Search keys and values..."
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setToggled({}); }}
+        />
+        {searchResult && (
+          <span className="json-tree-match-count">
+            {searchResult.count} match{searchResult.count === 1 ? '' : 'es'}
+          </span>
+        )}
+        <button type="button" onClick={() => setAllExpanded('all')} title="Expand all">⊞</button>
+        <button type="button" onClick={() => setAllExpanded('none')} title="Collapse all">⊟</button>
+        {copyStatus && <span className="json-tree-copy-status">{copyStatus}</span>}
+      </div>
+      <div className="json-tree-body">
+        {renderNode(data, [], 0)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { LiveTail } from '../hooks/useLiveTail';
+import '../styles/LiveTail.css';
+
+/**
+ * LiveTailControls - pause/resume button and "N new logs" counter for a
+ * list driven by useLiveTail
+ */
+
+interface LiveTailControlsProps {
+  tail: LiveTail<any>;
+}
+
+export default function LiveTailControls({ tail }: LiveTailControlsProps) {
+  const { paused, atHead, newCount } = tail;
+  const following = !paused && atHead;
+
+  return (
+    <div className="live-tail-controls">
+      <button
+        type="button"
+        className={`live-tail-toggle ${paused ? 'paused' : ''}`}
+        onClick={tail.togglePaused}
+        title={paused ? 'Resume live tail and show buffered logs' : 'Pause live tail; new logs are buffered'}
+      >
+        {paused ? '▶ Resume' : '⏸ Pause'}
+      </button>
+      <span className={`live-tail-state ${following ? 'following' : ''}`}>
+        {paused ? 'Paused' : following ? 'Live' : 'Scroll locked'}
+      </span>
+      {newCount > 0 && (
+        <button type="button" className="live-tail-new" onClick={tail.jumpToHead}>
+          ↑ {newCount} new log{newCount === 1 ? '' : 's'}
+        </button>
+      )}
+    </div>
+  );
+}
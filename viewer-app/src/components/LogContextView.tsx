@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AllogApiClient, AllogLogEntry, LogContextResult } from '../lib/allog-api-client';
+import viewerConfig from '../config/config-loader';
+import '../styles/LogContextView.css';
+
+/**
+ * LogContextView - what every source logged around one entry
+ *
+ * Shows ±N entries or ±T seconds around the anchor log, ignoring the Logs
+ * view filters, with the anchor highlighted and scrolled into view.
+ */
+
+type ContextMode = 'entries' | 'seconds';
+
+export interface LogContextAnchor {
+  id: string;
+  message: string;
+  provenance?: string;
+}
+
+interface LogContextViewProps {
+  isOpen: boolean;
+  anchor: LogContextAnchor | null;
+  apiClient: AllogApiClient;
+  includeInternal: boolean;
+  onClose: () => void;
+  onSelectLog?: (log: AllogLogEntry) => void;
+}
+
+const DEFAULT_AMOUNT: Record<ContextMode, number> = {
+  entries: 25,
+  seconds: 30
+};
+
+const formatContextTime = (log: AllogLogEntry): string => {
+  const date = new Date(log.time || log.timestamp || log.serverReceivedAt || '');
+  if (isNaN(date.getTime())) return '';
+  return `${date.toLocaleTimeString()}.${('00' + date.getMilliseconds()).slice(-3)}`;
+};
+
+export default function LogContextView({ isOpen, anchor, apiClient, includeInternal, onClose, onSelectLog }: LogContextViewProps) {
+  const [mode, setMode] = useState<ContextMode>('entries');
+  const [amount, setAmount] = useState(DEFAULT_AMOUNT.entries);
+  const [result, setResult] = useState<LogContextResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const anchorRowRef = useRef<HTMLDivElement>(null);
+
+  const anchorId = anchor?.id;
+  const anchorIsInternal = anchor?.provenance === 'internal';
+
+  // Don't show the previous anchor's window while the new one loads
+  useEffect(() => {
+    setResult(null);
+  }, [anchorId]);
+
+  useEffect(() => {
+    if (!isOpen || !anchorId) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    apiClient.getLogContext(anchorId, {
+      ...(mode === 'seconds' ? { seconds: amount } : { before: amount, after: amount }),
+      includeInternal: includeInternal || anchorIsInternal
+    })
+      .then(context => {
+        if (cancelled) return;
+        setResult(context);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Failed to load context');
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, anchorId, anchorIsInternal, mode, amount, includeInternal, apiClient]);
+
+  // Bring the anchor into view whenever the window changes
+  useEffect(() => {
+    if (anchorRowRef.current) {
+      anchorRowRef.current.scrollIntoView({ block: 'center' });
+    }
+  }, [result]);
+
+  if (!isOpen || !anchor) return null;
+
+  const changeMode = (next: ContextMode) => {
+    setMode(next);
+    setAmount(DEFAULT_AMOUNT[next]);
+  };
+
+  const widen = () => setAmount(prev => prev * 2);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="log-context-backdrop" onClick={handleBackdropClick}>
+      <div className="log-context-modal">
+        <div className="log-context-header">
+          <div className="log-context-title">
+            <h3>Surrounding Context</h3>
+            <span className="log-context-anchor-message" title={anchor.message}>{anchor.message}</span>
+          </div>
+          <button className="close-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="log-context-controls">
+          <span>±</span>
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value) && value > 0) setAmount(value);
+            }}
+          />
+          <select value={mode} onChange={(e) => changeMode(e.target.value as ContextMode)}>
+            <option value="entries">entries</option>
+            <option value="seconds">seconds</option>
+          </select>
+          <span className="log-context-note">All sources, current filters ignored</span>
+          {result && (
+            <span className="log-context-count">{result.logs.length} entries</span>
+          )}
+        </div>
+
+        <div className="log-context-list">
+          {error && <div className="log-context-error">Error: {error}</div>}
+          {loading && !result && <div className="log-context-empty">Loading...</div>}
+          {result && result.hasMoreBefore && (
+            <button className="log-context-more" onClick={widen}>Show earlier</button>
+          )}
+          {result && result.logs.map(entry => {
+            const isAnchor = entry.id === result.anchorId;
+            const scriptId = entry.scriptId || entry.sourceId || 'unknown';
+            return (
+              <div
+                key={entry.id}
+                ref={isAnchor ? anchorRowRef : undefined}
+                className={`log-context-row ${isAnchor ? 'anchor' : ''}`}
+                onClick={() => onSelectLog && onSelectLog(entry)}
+              >
+                <span className="log-context-time">{formatContextTime(entry)}</span>
+                <span className="log-context-level" style={{ color: viewerConfig.getLogLevelColor(entry.level) }}>
+                  {entry.level.toUpperCase()}
+                </span>
+                <span className="log-context-script" style={{ color: viewerConfig.getScriptColor(scriptId) }}>
+                  {scriptId}
+                </span>
+                <span className="log-context-message">{entry.message}</span>
+              </div>
+            );
+          })}
+          {result && result.hasMoreAfter && (
+            <button className="log-context-more" onClick={widen}>Show later</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
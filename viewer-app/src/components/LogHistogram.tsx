@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AllogApiClient, LogHistogram as LogHistogramData, LogHistogramBucket, LogQuery } from '../lib/allog-api-client';
+import { formatHistoryTime } from '../utils/MonitoringHistory';
+import { getLevelColor, getLogLevels } from '../utils/LogLevels';
+import '../styles/LogHistogram.css';
+
+/**
+ * LogHistogram - log volume per level over time, drawn as stacked bars
+ * above the log list
+ *
+ * Counts come from the server so they cover the whole buffer, not just the
+ * loaded page. Drag across the bars to filter the list to that range.
+ */
+
+interface LogHistogramProps {
+  apiClient: AllogApiClient;
+  query: LogQuery;
+  // Changes when new logs arrive
+  refreshKey?: number;
+  startDate: string;
+  endDate: string;
+  onRangeChange: (start: string, end: string) => void;
+}
+
+const BUCKET_OPTIONS = [
+  { value: 'auto', label: 'Auto' },
+  { value: '1s', label: '1 sec' },
+  { value: '10s', label: '10 sec' },
+  { value: '1m', label: '1 min' },
+  { value: '5m', label: '5 min' },
+  { value: '15m', label: '15 min' },
+  { value: '1h', label: '1 hour' },
+  { value: '1d', label: '1 day' }
+];
+
+const WIDTH = 1000;
+const HEIGHT = 72;
+const PAD_LEFT = 40;
+const PAD_RIGHT = 8;
+const PAD_TOP = 4;
+const PAD_BOTTOM = 16;
+// Drags narrower than this are treated as clicks
+const MIN_BRUSH_WIDTH = 4;
+// Live updates refetch at most this often
+const REFRESH_THROTTLE_MS = 2000;
+
+// Known levels stack least severe first, anything else on top
+const orderLevels = (levels: string[]): string[] => {
+  const known = getLogLevels().map(level => level.name).filter(level => levels.indexOf(level) !== -1);
+  return known.concat(levels.filter(level => known.indexOf(level) === -1));
+};
+
+const formatBucketSize = (ms: number): string => {
+  if (ms % 86400000 === 0) return `${ms / 86400000}d`;
+  if (ms % 3600000 === 0) return `${ms / 3600000}h`;
+  if (ms % 60000 === 0) return `${ms / 60000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+};
+
+export default function LogHistogram({ apiClient, query, refreshKey, startDate, endDate, onRangeChange }: LogHistogramProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [bucket, setBucket] = useState('auto');
+  const [histogram, setHistogram] = useState<LogHistogramData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+  const [hovered, setHovered] = useState<LogHistogramBucket | null>(null);
+  const lastFetchRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      lastFetchRef.current = Date.now();
+      try {
+        const data = await apiClient.getLogHistogram(query, bucket);
+        if (!cancelled) {
+          setHistogram(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load histogram');
+      }
+    };
+    const wait = Math.max(0, lastFetchRef.current + REFRESH_THROTTLE_MS - Date.now());
+    const timeout = setTimeout(load, wait);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [apiClient, query, bucket, refreshKey]);
+
+  const buckets = histogram ? histogram.buckets : [];
+  const levels = histogram ? orderLevels(histogram.levels) : [];
+  const bucketMs = histogram ? histogram.bucketMs : 1000;
+  const domainStart = buckets.length > 0 ? buckets[0].start : 0;
+  const domainEnd = buckets.length > 0 ? buckets[buckets.length - 1].start + bucketMs : 1;
+  const span = Math.max(1, domainEnd - domainStart);
+  const plotWidth = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotBottom = HEIGHT - PAD_BOTTOM;
+  const maxTotal = buckets.reduce((max, item) => Math.max(max, item.total), 0);
+  // Spans under a minute need milliseconds to tell buckets apart
+  const withMillis = span < 60000;
+
+  const toX = (time: number) => PAD_LEFT + (time - domainStart) / span * plotWidth;
+  const toTime = (x: number) =>
+    domainStart + (Math.min(Math.max(x, PAD_LEFT), PAD_LEFT + plotWidth) - PAD_LEFT) / plotWidth * span;
+
+  // Pointer position in viewBox units
+  const getSvgX = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return (e.clientX - rect.left) / rect.width * WIDTH;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || buckets.length === 0) return;
+    const x = getSvgX(e);
+    setBrush({ start: x, end: x });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const x = getSvgX(e);
+    const index = Math.floor((toTime(x) - domainStart) / bucketMs);
+    setHovered(buckets[Math.min(index, buckets.length - 1)] || null);
+    if (brush) setBrush({ ...brush, end: x });
+  };
+
+  const handleMouseUp = () => {
+    if (!brush) return;
+    setBrush(null);
+    if (Math.abs(brush.end - brush.start) >= MIN_BRUSH_WIDTH) {
+      const start = toTime(Math.min(brush.start, brush.end));
+      const end = toTime(Math.max(brush.start, brush.end));
+      onRangeChange(new Date(start).toISOString(), new Date(end).toISOString());
+    }
+  };
+
+  const handleMouseLeave = () => {
+    setHovered(null);
+    setBrush(null);
+  };
+
+  const renderBars = () => {
+    const barWidth = Math.max(1, plotWidth / buckets.length - (buckets.length > 100 ? 0 : 1));
+    return buckets.map(item => {
+      if (item.total === 0) return null;
+      let y = plotBottom;
+      return (
+        <g key={item.start}>
+          {levels.map(level => {
+            const count = item.counts[level] || 0;
+            if (!count) return null;
+            const height = count / maxTotal * (plotBottom - PAD_TOP);
+            y -= height;
+            return (
+              <rect
+                key={level}
+                x={toX(item.start)}
+                y={y}
+                width={barWidth}
+                height={height}
+                fill={getLevelColor(level)}
+              />
+            );
+          })}
+        </g>
+      );
+    });
+  };
+
+  const hasRange = !!(startDate || endDate);
+  const formatRangeEnd = (value: string) =>
+    value ? formatHistoryTime(new Date(value).getTime(), withMillis) : '…';
+
+  return (
+    <div className="log-histogram">
+      <div className="log-histogram-controls">
+        <label>
+          Bucket
+          <select value={bucket} onChange={(e) => setBucket(e.target.value)}>
+            {BUCKET_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {histogram && bucket === 'auto' && buckets.length > 0 && (
+          <span className="log-histogram-meta">{formatBucketSize(bucketMs)} buckets</span>
+        )}
+        {hasRange && (
+          <span className="log-histogram-range">
+            {formatRangeEnd(startDate)} – {formatRangeEnd(endDate)}
+            <button onClick={() => onRangeChange('', '')} title="Show logs from any time">✕ Clear</button>
+          </span>
+        )}
+        <span className="log-histogram-readout">
+          {hovered
+            ? `${formatHistoryTime(hovered.start, withMillis)} · ${hovered.total} logs` +
+              orderLevels(Object.keys(hovered.counts)).map(level => ` · ${level} ${hovered.counts[level]}`).join('')
+            : histogram ? `${histogram.total} logs · drag to filter by time` : ''}
+        </span>
+      </div>
+
+      {error ? (
+        <div className="log-histogram-error">Histogram unavailable: {error}</div>
+      ) : buckets.length === 0 ? (
+        <div className="log-histogram-empty">{histogram ? 'No logs in this range' : 'Loading…'}</div>
+      ) : (
+        <svg
+          ref={svgRef}
+          className="log-histogram-svg"
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+        >
+          <text className="log-histogram-axis" x={PAD_LEFT - 4} y={PAD_TOP + 8} textAnchor="end">{maxTotal}</text>
+          <line className="log-histogram-baseline" x1={PAD_LEFT} x2={PAD_LEFT + plotWidth} y1={plotBottom} y2={plotBottom} />
+          {renderBars()}
+          <text className="log-histogram-axis" x={PAD_LEFT} y={HEIGHT - 3}>
+            {formatHistoryTime(domainStart, withMillis)}
+          </text>
+          <text className="log-histogram-axis" x={PAD_LEFT + plotWidth} y={HEIGHT - 3} textAnchor="end">
+            {formatHistoryTime(domainEnd, withMillis)}
+          </text>
+          {brush && (
+            <rect
+              className="log-histogram-brush"
+              x={Math.min(brush.start, brush.end)}
+              y={PAD_TOP}
+              width={Math.abs(brush.end - brush.start)}
+              height={plotBottom - PAD_TOP}
+            />
+          )}
+        </svg>
+      )}
+    </div>
+  );
+}
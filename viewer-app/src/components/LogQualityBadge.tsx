@@ -0,0 +1,32 @@
+import React from 'react';
+import { LogEntryMetadata, LogQuality } from '../lib/allog-api-client';
+
+/**
+ * LogQualityBadge - marks entries that arrived as raw text or malformed
+ * data, and ones a parser rule structured; nothing for normal entries
+ */
+
+interface LogQualityBadgeProps {
+  quality?: LogQuality;
+  metadata?: LogEntryMetadata;
+}
+
+const QUALITY_LABELS: Record<Exclude<LogQuality, 'normal'>, string> = {
+  'raw-text': '📝 Raw Text',
+  malformed: '⚠️ Malformed',
+  parsed: '🧩 Parsed'
+};
+
+export default function LogQualityBadge({ quality, metadata }: LogQualityBadgeProps) {
+  if (!quality || quality === 'normal') return null;
+  const parser = metadata?.parser;
+
+  return (
+    <span
+      className={`log-quality ${quality}`}
+      title={quality === 'parsed' && parser ? `Parsed by ${parser.ruleName || parser.ruleId}` : undefined}
+    >
+      {QUALITY_LABELS[quality]}
+    </span>
+  );
+}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { AllogLogEntry } from '../lib/allog-api-client';
+import { getLevelColor } from '../utils/LogLevels';
+import LogQualityBadge from './LogQualityBadge';
 
 interface LogViewerProps {
   logs: AllogLogEntry[];
@@ -47,16 +49,10 @@ const LogViewer: React.FC<LogViewerProps> = ({
             <div key={log.id} className="log-entry">
               <div className="log-header">
                 <span className="log-time">{new Date(log.timestamp).toLocaleTimeString()}</span>
-                <span className={`log-level ${log.level}`}>{log.level}</span>
+                <span className={`log-level ${log.level}`} style={{ backgroundColor: getLevelColor(log.level) }}>{log.level}</span>
                 <span className="log-script">{log.scriptId || 'unknown'}</span>
                 <span className="log-message">{log.message}</span>
-                {/* Quality indicator for raw/malformed logs */}
-                {(log as any).quality && (log as any).quality !== 'normal' && (
-                  <span className={`log-quality ${(log as any).quality}`}>
-                    {(log as any).quality === 'raw-text' ? '📝' : '⚠️'} 
-                    {(log as any).quality === 'raw-text' ? 'Raw Text' : 'Malformed'}
-                  </span>
-                )}
+                <LogQualityBadge quality={log.quality} metadata={log.metadata} />
               </div>
               {/* Image preview if present */}
               {isImage && (
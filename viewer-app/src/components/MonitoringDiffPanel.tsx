@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AllogApiClient, MonitoringHistoryEntry } from '../lib/allog-api-client';
+import StructuralDiffView from './StructuralDiffView';
+import { useMonitoringHistory } from '../hooks/useMonitoringHistory';
+import { formatHistoryTime } from '../utils/MonitoringHistory';
+import '../styles/StructuralDiff.css';
+
+/**
+ * MonitoringDiffPanel - structural diff of the selected variable, between
+ * its previous and current value by default or any two kept snapshots
+ */
+
+interface MonitoringDiffPanelProps {
+  apiClient: AllogApiClient;
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  value: any;
+  previousValue?: any;
+  refreshKey?: string | number;
+}
+
+const PREVIOUS = 'previous';
+const CURRENT = 'current';
+
+const snapshotKey = (entry: MonitoringHistoryEntry) => `history:${entry.id}`;
+
+export default function MonitoringDiffPanel({
+  apiClient,
+  moduleId,
+  scriptId,
+  type,
+  name,
+  value,
+  previousValue,
+  refreshKey
+}: MonitoringDiffPanelProps) {
+  const { series } = useMonitoringHistory(apiClient, { moduleId, scriptId, type, name }, refreshKey);
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string>(CURRENT);
+
+  const entries = series ? series.entries : [];
+  const hasPrevious = previousValue !== undefined;
+
+  // Without a previous value, compare against the snapshot before the latest
+  const defaultFrom = hasPrevious
+    ? PREVIOUS
+    : entries.length >= 2 ? snapshotKey(entries[entries.length - 2]) : CURRENT;
+  const fromKey = from || defaultFrom;
+
+  const resolve = (key: string): any => {
+    if (key === PREVIOUS) return previousValue;
+    if (key === CURRENT) return value;
+    for (let i = 0; i < entries.length; i++) {
+      if (snapshotKey(entries[i]) === key) return entries[i].value;
+    }
+    return undefined;
+  };
+
+  const labelFor = (key: string): string => {
+    if (key === PREVIOUS) return 'Previous value';
+    if (key === CURRENT) return 'Current value';
+    for (let i = 0; i < entries.length; i++) {
+      if (snapshotKey(entries[i]) === key) return formatHistoryTime(entries[i].timestamp, true);
+    }
+    return 'Snapshot';
+  };
+
+  const renderOptions = () => (
+    <>
+      {hasPrevious && <option value={PREVIOUS}>Previous value</option>}
+      <option value={CURRENT}>Current value</option>
+      {entries.slice().reverse().map(entry => (
+        <option key={entry.id} value={snapshotKey(entry)}>
+          {formatHistoryTime(entry.timestamp, true)}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="monitoring-diff-panel">
+      <div className="diff-snapshot-picker">
+        <select value={fromKey} onChange={(e) => setFrom(e.target.value)} title="Compare from">
+          {renderOptions()}
+        </select>
+        <span>→</span>
+        <select value={to} onChange={(e) => setTo(e.target.value)} title="Compare to">
+          {renderOptions()}
+        </select>
+      </div>
+      <StructuralDiffView
+        before={resolve(fromKey)}
+        after={resolve(to)}
+        beforeLabel={labelFor(fromKey)}
+        afterLabel={labelFor(to)}
+      />
+    </div>
+  );
+}
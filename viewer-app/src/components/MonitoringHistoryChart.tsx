@@ -0,0 +1,231 @@
+import React, { useState, useRef } from 'react';
+import { MonitoringHistoryEntry } from '../lib/allog-api-client';
+import {
+  TimeDomain,
+  getHistoryKind,
+  getStateLabel,
+  getStateColor,
+  clipToDomain,
+  getNumericExtent,
+  formatHistoryTime,
+  formatAxisNumber
+} from '../utils/MonitoringHistory';
+import '../styles/MonitoringHistory.css';
+
+/**
+ * MonitoringHistoryChart - value over time for one monitored variable
+ *
+ * Numeric series are drawn as a stepped line (a value holds until the next
+ * update); everything else as a band of colored states. Drag across the
+ * chart to zoom into that span, double-click to reset.
+ */
+
+interface MonitoringHistoryChartProps {
+  entries: MonitoringHistoryEntry[];
+  domain: TimeDomain;
+  onZoom?: (domain: TimeDomain) => void;
+  onResetZoom?: () => void;
+}
+
+const WIDTH = 400;
+const PAD_LEFT = 48;
+const PAD_RIGHT = 8;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 18;
+const LINE_HEIGHT = 140;
+const BAND_HEIGHT = 56;
+const MAX_LEGEND_ITEMS = 8;
+// Drags narrower than this are treated as clicks
+const MIN_BRUSH_WIDTH = 4;
+
+export default function MonitoringHistoryChart({ entries, domain, onZoom, onResetZoom }: MonitoringHistoryChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+
+  const kind = getHistoryKind(entries);
+  const height = kind === 'numeric' ? LINE_HEIGHT : BAND_HEIGHT;
+  const plotWidth = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotBottom = height - PAD_BOTTOM;
+  const span = Math.max(1, domain[1] - domain[0]);
+  // Sub-minute spans need milliseconds to tell updates apart
+  const withMillis = span < 60000;
+
+  const toX = (time: number) =>
+    PAD_LEFT + (Math.min(Math.max(time, domain[0]), domain[1]) - domain[0]) / span * plotWidth;
+  const toTime = (x: number) =>
+    domain[0] + (Math.min(Math.max(x, PAD_LEFT), PAD_LEFT + plotWidth) - PAD_LEFT) / plotWidth * span;
+
+  // Pointer position in viewBox units
+  const getSvgX = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return (e.clientX - rect.left) / rect.width * WIDTH;
+  };
+
+  const visible = clipToDomain(entries, domain);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!onZoom || e.button !== 0) return;
+    const x = getSvgX(e);
+    setBrush({ start: x, end: x });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const x = getSvgX(e);
+    setHoverTime(toTime(x));
+    if (brush) setBrush({ ...brush, end: x });
+  };
+
+  const handleMouseUp = () => {
+    if (!brush) return;
+    setBrush(null);
+    if (onZoom && Math.abs(brush.end - brush.start) >= MIN_BRUSH_WIDTH) {
+      const start = toTime(Math.min(brush.start, brush.end));
+      const end = toTime(Math.max(brush.start, brush.end));
+      onZoom([start, end]);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    setHoverTime(null);
+    setBrush(null);
+  };
+
+  // Entry in effect at the hovered time
+  let hovered: MonitoringHistoryEntry | null = null;
+  if (hoverTime !== null) {
+    for (let i = visible.length - 1; i >= 0; i--) {
+      if (visible[i].timestamp <= hoverTime) {
+        hovered = visible[i];
+        break;
+      }
+    }
+  }
+
+  const renderLine = () => {
+    const extent = getNumericExtent(visible);
+    const toY = (value: number) =>
+      plotBottom - (value - extent[0]) / (extent[1] - extent[0]) * (plotBottom - PAD_TOP);
+
+    let path = '';
+    visible.forEach((entry, index) => {
+      const x = toX(entry.timestamp);
+      const y = toY(entry.value);
+      path += index === 0 ? `M${x},${y}` : `H${x}V${y}`;
+    });
+    if (visible.length > 0) path += `H${toX(domain[1])}`;
+
+    return (
+      <g>
+        <text className="history-axis-label" x={PAD_LEFT - 4} y={PAD_TOP + 4} textAnchor="end">
+          {formatAxisNumber(extent[1])}
+        </text>
+        <text className="history-axis-label" x={PAD_LEFT - 4} y={plotBottom} textAnchor="end">
+          {formatAxisNumber(extent[0])}
+        </text>
+        <line className="history-grid" x1={PAD_LEFT} x2={PAD_LEFT + plotWidth} y1={PAD_TOP} y2={PAD_TOP} />
+        <line className="history-grid" x1={PAD_LEFT} x2={PAD_LEFT + plotWidth} y1={plotBottom} y2={plotBottom} />
+        <path className="history-line" d={path} />
+        {visible.filter(entry => entry.timestamp >= domain[0]).map(entry => (
+          <circle
+            key={entry.id}
+            className={`history-point ${hovered === entry ? 'hovered' : ''}`}
+            cx={toX(entry.timestamp)}
+            cy={toY(entry.value)}
+            r={hovered === entry ? 3.5 : 2}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const renderBand = () => (
+    <g>
+      {visible.map((entry, index) => {
+        const start = toX(entry.timestamp);
+        const next = visible[index + 1];
+        const end = next ? toX(next.timestamp) : toX(domain[1]);
+        const label = getStateLabel(entry.value);
+        return (
+          <rect
+            key={entry.id}
+            className={`history-band ${hovered === entry ? 'hovered' : ''}`}
+            x={start}
+            y={PAD_TOP}
+            width={Math.max(1, end - start)}
+            height={plotBottom - PAD_TOP}
+            fill={getStateColor(label)}
+          />
+        );
+      })}
+    </g>
+  );
+
+  const legend: string[] = [];
+  if (kind === 'state') {
+    visible.forEach(entry => {
+      const label = getStateLabel(entry.value);
+      if (legend.indexOf(label) === -1) legend.push(label);
+    });
+  }
+
+  return (
+    <div className="history-chart">
+      <svg
+        ref={svgRef}
+        className={`history-chart-svg ${onZoom ? 'zoomable' : ''}`}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onDoubleClick={onResetZoom}
+      >
+        {kind === 'numeric' ? renderLine() : renderBand()}
+        <text className="history-axis-label" x={PAD_LEFT} y={height - 4}>
+          {formatHistoryTime(domain[0], withMillis)}
+        </text>
+        <text className="history-axis-label" x={PAD_LEFT + plotWidth} y={height - 4} textAnchor="end">
+          {formatHistoryTime(domain[1], withMillis)}
+        </text>
+        {hoverTime !== null && !brush && (
+          <line className="history-cursor" x1={toX(hoverTime)} x2={toX(hoverTime)} y1={PAD_TOP} y2={plotBottom} />
+        )}
+        {brush && (
+          <rect
+            className="history-brush"
+            x={Math.min(brush.start, brush.end)}
+            y={PAD_TOP}
+            width={Math.abs(brush.end - brush.start)}
+            height={plotBottom - PAD_TOP}
+          />
+        )}
+      </svg>
+
+      <div className="history-readout">
+        {hovered
+          ? <>
+              <span className="history-readout-value">{getStateLabel(hovered.value)}</span>
+              <span className="history-readout-time">since {formatHistoryTime(hovered.timestamp, withMillis)}</span>
+            </>
+          : <span className="history-readout-time">
+              {visible.length === 0 ? 'No values in this range' : 'Hover for values, drag to zoom'}
+            </span>}
+      </div>
+
+      {legend.length > 0 && (
+        <div className="history-legend">
+          {legend.slice(0, MAX_LEGEND_ITEMS).map(label => (
+            <span key={label} className="history-legend-item">
+              <span className="history-legend-swatch" style={{ background: getStateColor(label) }} />
+              {label}
+            </span>
+          ))}
+          {legend.length > MAX_LEGEND_ITEMS && (
+            <span className="history-legend-item">+{legend.length - MAX_LEGEND_ITEMS} more</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
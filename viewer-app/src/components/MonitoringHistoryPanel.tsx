@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { AllogApiClient } from '../lib/allog-api-client';
+import MonitoringHistoryChart from './MonitoringHistoryChart';
+import { useMonitoringHistory } from '../hooks/useMonitoringHistory';
+import { TimeDomain, clipToDomain } from '../utils/MonitoringHistory';
+import '../styles/MonitoringHistory.css';
+
+/**
+ * MonitoringHistoryPanel - value history of the selected variable for the
+ * monitoring detail panel, with a time range picker and drag-to-zoom
+ */
+
+type HistoryRange = '1m' | '5m' | '15m' | '1h' | 'all' | 'custom';
+
+const RANGE_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000
+};
+
+const RANGE_LABELS: Record<HistoryRange, string> = {
+  '1m': 'Last 1m',
+  '5m': 'Last 5m',
+  '15m': 'Last 15m',
+  '1h': 'Last 1h',
+  all: 'All kept',
+  custom: 'Custom'
+};
+
+interface MonitoringHistoryPanelProps {
+  apiClient: AllogApiClient;
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  // Changes whenever monitoring data was refreshed
+  refreshKey?: string | number;
+}
+
+export default function MonitoringHistoryPanel({ apiClient, moduleId, scriptId, type, name, refreshKey }: MonitoringHistoryPanelProps) {
+  const { series, maxHistory, fetchedAt, error } = useMonitoringHistory(apiClient, { moduleId, scriptId, type, name }, refreshKey);
+  const [range, setRange] = useState<HistoryRange>('all');
+  const [customSince, setCustomSince] = useState('');
+  const [customUntil, setCustomUntil] = useState('');
+  const [zoom, setZoom] = useState<TimeDomain | null>(null);
+
+  const entries = series ? series.entries : [];
+
+  const getRangeDomain = (): TimeDomain => {
+    if (range === 'custom') {
+      const since = customSince ? new Date(customSince).getTime() : NaN;
+      const until = customUntil ? new Date(customUntil).getTime() : NaN;
+      const start = !isNaN(since) ? since : entries.length > 0 ? entries[0].timestamp : fetchedAt - RANGE_MS['5m'];
+      const end = !isNaN(until) ? until : fetchedAt;
+      return [start, Math.max(end, start + 1)];
+    }
+    if (range === 'all') {
+      const start = entries.length > 0 ? entries[0].timestamp : fetchedAt - RANGE_MS['5m'];
+      return [start, Math.max(fetchedAt, start + 1)];
+    }
+    return [fetchedAt - RANGE_MS[range], fetchedAt];
+  };
+
+  const domain = zoom || getRangeDomain();
+  const inView = clipToDomain(entries, domain).filter(entry => entry.timestamp >= domain[0]).length;
+
+  const changeRange = (next: HistoryRange) => {
+    setRange(next);
+    setZoom(null);
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="history-controls">
+        <select value={range} onChange={(e) => changeRange(e.target.value as HistoryRange)}>
+          {(Object.keys(RANGE_LABELS) as HistoryRange[]).map(key => (
+            <option key={key} value={key}>{RANGE_LABELS[key]}</option>
+          ))}
+        </select>
+        {zoom && (
+          <button className="history-reset-zoom" onClick={() => setZoom(null)}>
+            Reset zoom
+          </button>
+        )}
+        <span className="history-count" title={`The server keeps the last ${maxHistory} values per variable`}>
+          {inView} of {entries.length} values
+        </span>
+      </div>
+
+      {range === 'custom' && (
+        <div className="history-custom-range">
+          <input
+            type="datetime-local"
+            step="1"
+            value={customSince}
+            onChange={(e) => { setCustomSince(e.target.value); setZoom(null); }}
+          />
+          <span>to</span>
+          <input
+            type="datetime-local"
+            step="1"
+            value={customUntil}
+            onChange={(e) => { setCustomUntil(e.target.value); setZoom(null); }}
+          />
+        </div>
+      )}
+
+      {error && <div className="history-error">Error: {error}</div>}
+      {!error && entries.length === 0 && <div className="history-empty">No history recorded yet</div>}
+      {entries.length > 0 && (
+        <MonitoringHistoryChart
+          entries={entries}
+          domain={domain}
+          onZoom={setZoom}
+          onResetZoom={() => setZoom(null)}
+        />
+      )}
+    </div>
+  );
+}
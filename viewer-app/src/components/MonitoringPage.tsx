@@ -3,6 +3,23 @@ import '../styles/MonitoringPage.css';
 import ContextMenu from './ContextMenu';
 import { useContextMenu } from '../hooks/useContextMenu';
 import { useHighlights } from '../hooks/useHighlights';
+import { LogFormatter } from '../utils/LogFormatter';
+import { AllogApiClient, MonitoringHistoryEntry, MonitoringHistorySeries } from '../lib/allog-api-client';
+import { buildTraces, TraceSpan } from '../utils/TraceBuilder';
+import MonitoringHistoryPanel from './MonitoringHistoryPanel';
+import Sparkline from './Sparkline';
+import MonitoringDiffPanel from './MonitoringDiffPanel';
+import FlameChart from './FlameChart';
+import { AllogSocket } from '../lib/allog-socket';
+import { useMonitoringStream } from '../hooks/useMonitoringStream';
+import TimeTravelBar from './TimeTravelBar';
+import {
+  MonitoringSnapshot,
+  MONITORING_SNAPSHOT_VERSION,
+  filterSeries,
+  clipSeriesTo,
+  rebuildMonitoringAt
+} from '../utils/MonitoringSnapshot';
 
 interface MonitoringData {
   moduleId: string;
@@ -67,7 +84,85 @@ interface FilterOptions {
   showEvents: boolean;
 }
 
+// Values per table sparkline
+const SPARKLINE_POINTS = 30;
+
+// How long a pushed change stays highlighted
+const FLASH_MS = 1200;
+
+type MonitoringCategory = 'variables' | 'states' | 'functions' | 'properties' | 'events';
+
+// Objects and arrays get a structural diff in the detail panel
+const isStructured = (value: any) => value !== null && typeof value === 'object';
+
+const getVariableKey = (moduleId: string, scriptId: string, type: string, name: string) =>
+  JSON.stringify([moduleId, scriptId, type, name]);
+
+/**
+ * Module tree with a pushed entry applied, or null when the tree already holds
+ * the same or a newer value for that variable
+ */
+const applyMonitoringEntry = (
+  modules: { [moduleId: string]: ModuleData },
+  entry: MonitoringData
+): { [moduleId: string]: ModuleData } | null => {
+  const category = `${entry.type}s` as MonitoringCategory;
+  const moduleData = modules[entry.moduleId] || { moduleId: entry.moduleId, scripts: {}, lastUpdate: 0 };
+  const scriptData = moduleData.scripts[entry.scriptId] || {
+    variables: {}, states: {}, functions: {}, properties: {}, events: {}, lastUpdate: 0
+  };
+  const current = scriptData[category] ? scriptData[category][entry.name] : undefined;
+  if (current && current.timestamp >= entry.timestamp) return null;
+
+  return {
+    ...modules,
+    [entry.moduleId]: {
+      ...moduleData,
+      lastUpdate: Math.max(moduleData.lastUpdate, entry.timestamp),
+      scripts: {
+        ...moduleData.scripts,
+        [entry.scriptId]: {
+          ...scriptData,
+          [category]: { ...scriptData[category], [entry.name]: entry },
+          lastUpdate: Math.max(scriptData.lastUpdate, entry.timestamp)
+        }
+      }
+    }
+  };
+};
+
+// Same counts the server reports from /api/monitoring
+const countMonitoringStats = (modules: { [moduleId: string]: ModuleData }): MonitoringStats => {
+  const stats: MonitoringStats = {
+    totalModules: 0,
+    totalScripts: 0,
+    totalVariables: 0,
+    totalStates: 0,
+    totalFunctions: 0,
+    totalProperties: 0,
+    totalEvents: 0,
+    lastUpdate: new Date().toISOString()
+  };
+  Object.keys(modules).forEach(moduleId => {
+    stats.totalModules++;
+    const scripts = modules[moduleId].scripts || {};
+    Object.keys(scripts).forEach(scriptId => {
+      const script = scripts[scriptId];
+      stats.totalScripts++;
+      stats.totalVariables += Object.keys(script.variables || {}).length;
+      stats.totalStates += Object.keys(script.states || {}).length;
+      stats.totalFunctions += Object.keys(script.functions || {}).length;
+      stats.totalProperties += Object.keys(script.properties || {}).length;
+      stats.totalEvents += Object.keys(script.events || {}).length;
+    });
+  });
+  return stats;
+};
+
 interface MonitoringPageProps {
+  apiClient: AllogApiClient;
+  // Pushes monitoring_update messages; without it the page polls
+  socket?: AllogSocket;
   onStatsUpdate?: (stats: MonitoringStats) => void;
   onConnectionUpdate?: (connection: ConnectionStatus) => void;
   saveSystemRef?: React.RefObject<{
@@ -91,16 +186,25 @@ interface MonitoringPageProps {
   refreshInterval?: number;
   onAutoRefreshChange?: (enabled: boolean) => void;
   onRefreshIntervalChange?: (interval: number) => void;
+  // monitoring-session opened from the SaveSystem, shown instead of live data
+  savedSession?: { name: string; snapshot: MonitoringSnapshot } | null;
+  onCloseSavedSession?: () => void;
+  onSaveSnapshot?: (name: string, snapshot: MonitoringSnapshot) => void;
 }
 
 export default function MonitoringPage({ 
+  apiClient,
+  socket,
   onStatsUpdate, 
   onConnectionUpdate, 
   saveSystemRef,
   autoRefresh: propAutoRefresh = false,
   refreshInterval: propRefreshInterval = 30000,
   onAutoRefreshChange,
-  onRefreshIntervalChange
+  onRefreshIntervalChange,
+  savedSession,
+  onCloseSavedSession,
+  onSaveSnapshot
 }: MonitoringPageProps) {
   const { contextMenu, showContextMenu, hideContextMenu } = useContextMenu();
   const { getHighlightStyles, isElementHighlighted } = useHighlights();
@@ -157,7 +261,27 @@ export default function MonitoringPage({
   const [expandedModules, setExpandedModules] = useState<Set<string>>(new Set());
   const [expandedScripts, setExpandedScripts] = useState<Set<string>>(new Set());
   const [selectedData, setSelectedData] = useState<MonitoringData | null>(null);
-  const [viewMode, setViewMode] = useState<'tree' | 'table' | 'timeline'>('table');
+  const [viewMode, setViewMode] = useState<'tree' | 'table' | 'timeline' | 'trace'>('table');
+  const [sparklines, setSparklines] = useState<Record<string, MonitoringHistoryEntry[]>>({});
+  const [functionHistory, setFunctionHistory] = useState<MonitoringHistorySeries[]>([]);
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(null);
+  // Bumped by every full fetch; pushed entries are applied locally instead
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+  // Bumped when the selected variable's history may have changed
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [flashing, setFlashing] = useState<Record<string, boolean>>({});
+  // Kept history being scrubbed, or a saved session; null while live
+  const [travel, setTravel] = useState<{ snapshot: MonitoringSnapshot; time: number; sessionName?: string } | null>(null);
+  const [travelError, setTravelError] = useState<string | null>(null);
+  const flashTimersRef = useRef<Record<string, NodeJS.Timeout>>({});
+  const monitoringDataRef = useRef(monitoringData);
+  monitoringDataRef.current = monitoringData;
+  const statsRef = useRef(stats);
+  statsRef.current = stats;
+  const connectionRef = useRef(connection);
+  connectionRef.current = connection;
+  const selectedDataRef = useRef(selectedData);
+  selectedDataRef.current = selectedData;
   const [sortConfig, setSortConfig] = useState<{
     key: 'moduleId' | 'scriptId' | 'name' | 'type' | 'value' | 'timestamp';
     direction: 'asc' | 'desc';
@@ -170,9 +294,11 @@ export default function MonitoringPage({
       if (response.ok) {
         const data = await response.json();
         setMonitoringData(data.modules || {});
-        const newStats = data.stats || stats;
+        setSnapshotVersion(version => version + 1);
+        setHistoryRefreshKey(key => key + 1);
+        const newStats = data.stats || statsRef.current;
         setStats(newStats);
-        const newConnection = { ...connection, isConnected: true, error: undefined };
+        const newConnection = { ...connectionRef.current, isConnected: true, error: undefined };
         setConnection(newConnection);
         
         // Notify parent component of updates
@@ -181,6 +307,7 @@ export default function MonitoringPage({
         
         // Only update selected data if it no longer exists in the new data
         // This prevents jumping between different timestamps of the same property
+        const selectedData = selectedDataRef.current;
         if (selectedData) {
           const moduleData = data.modules?.[selectedData.moduleId];
           if (moduleData) {
@@ -206,19 +333,96 @@ export default function MonitoringPage({
        // Using console.error temporarily until AllogLogger integration
        console.error('Failed to fetch monitoring data:', error);
        const newConnection = { 
-         ...connection, 
+         ...connectionRef.current, 
          isConnected: false, 
          error: 'Connection failed',
-         retryCount: connection.retryCount + 1
+         retryCount: connectionRef.current.retryCount + 1
        };
        setConnection(newConnection);
        onConnectionUpdate?.(newConnection);
      }
-  }, [stats, selectedData]);
+  }, []);
+
+  const flashVariable = useCallback((key: string) => {
+    if (flashTimersRef.current[key]) clearTimeout(flashTimersRef.current[key]);
+    setFlashing(prev => ({ ...prev, [key]: true }));
+    flashTimersRef.current[key] = setTimeout(() => {
+      delete flashTimersRef.current[key];
+      setFlashing(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }, FLASH_MS);
+  }, []);
+
+  useEffect(() => () => {
+    Object.keys(flashTimersRef.current).forEach(key => clearTimeout(flashTimersRef.current[key]));
+  }, []);
+
+  // Apply one pushed entry to the module tree and the derived views
+  const handleStreamEntry = (entry: MonitoringData & { id?: string }) => {
+    if (!entry || !entry.moduleId || !entry.scriptId || !entry.name) return;
+    const next = applyMonitoringEntry(monitoringDataRef.current, entry);
+    if (!next) return;
+    monitoringDataRef.current = next;
+    setMonitoringData(next);
+
+    const newStats = countMonitoringStats(next);
+    setStats(newStats);
+    onStatsUpdate?.(newStats);
+
+    const key = getVariableKey(entry.moduleId, entry.scriptId, entry.type, entry.name);
+    flashVariable(key);
+
+    const historyEntry: MonitoringHistoryEntry = {
+      id: entry.id || `${key}-${entry.timestamp}`,
+      value: entry.value,
+      previousValue: entry.previousValue,
+      timestamp: entry.timestamp,
+      metadata: entry.metadata
+    };
+    setSparklines(prev => ({
+      ...prev,
+      [key]: (prev[key] || []).concat(historyEntry).slice(-SPARKLINE_POINTS)
+    }));
+    if (entry.type === 'function') {
+      setFunctionHistory(prev => {
+        let found = false;
+        const updated = prev.map(series => {
+          if (series.moduleId !== entry.moduleId || series.scriptId !== entry.scriptId || series.name !== entry.name) {
+            return series;
+          }
+          found = true;
+          return { ...series, total: series.total + 1, entries: series.entries.concat(historyEntry) };
+        });
+        return found ? updated : updated.concat({
+          moduleId: entry.moduleId,
+          scriptId: entry.scriptId,
+          type: entry.type,
+          name: entry.name,
+          total: 1,
+          entries: [historyEntry]
+        });
+      });
+    }
+
+    const selected = selectedDataRef.current;
+    if (selected && getVariableKey(selected.moduleId, selected.scriptId, selected.type, selected.name) === key) {
+      setHistoryRefreshKey(value => value + 1);
+    }
+  };
+
+  // Pushed updates replace polling while the stream is connected
+  const { live } = useMonitoringStream({
+    socket,
+    onEntry: handleStreamEntry,
+    onResync: fetchMonitoringData
+  });
 
   // Auto-refresh effect with page visibility check
   useEffect(() => {
-    if (!autoRefresh) return;
+    if (!autoRefresh || live) return;
 
     let interval: NodeJS.Timeout;
     
@@ -250,23 +454,152 @@ export default function MonitoringPage({
       stopInterval();
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [autoRefresh, refreshInterval, fetchMonitoringData]);
+  }, [autoRefresh, live, refreshInterval, fetchMonitoringData]);
 
   // Initial fetch
   useEffect(() => {
     fetchMonitoringData();
   }, [fetchMonitoringData]);
 
+  // Recent values for the table sparklines, refreshed with the monitoring data
+  useEffect(() => {
+    if (viewMode !== 'table') return;
+    let cancelled = false;
+
+    apiClient.getMonitoringHistory({ limit: SPARKLINE_POINTS })
+      .then(result => {
+        if (cancelled) return;
+        const next: Record<string, MonitoringHistoryEntry[]> = {};
+        result.series.forEach(series => {
+          next[getVariableKey(series.moduleId, series.scriptId, series.type, series.name)] = series.entries;
+        });
+        setSparklines(next);
+      })
+      .catch(error => {
+        console.error('Failed to fetch monitoring history:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, snapshotVersion, viewMode]);
+
+  // Every kept function call, for the trace view
+  useEffect(() => {
+    if (viewMode !== 'trace') return;
+    let cancelled = false;
+
+    apiClient.getMonitoringHistory({ type: 'function' })
+      .then(result => {
+        if (!cancelled) setFunctionHistory(result.series);
+      })
+      .catch(error => {
+        console.error('Failed to fetch function history:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, snapshotVersion, viewMode]);
+
+  // Open saved sessions as they are picked in the SaveSystem
+  useEffect(() => {
+    if (savedSession) {
+      setTravel({ snapshot: savedSession.snapshot, time: savedSession.snapshot.capturedAt, sessionName: savedSession.name });
+      setTravelError(null);
+      setSelectedData(null);
+    } else {
+      setTravel(prev => prev && prev.sessionName ? null : prev);
+    }
+  }, [savedSession]);
+
+  const startTimeTravel = async () => {
+    setTravelError(null);
+    try {
+      const result = await apiClient.getMonitoringHistory({});
+      const series = filterSeries(result.series, filters.moduleId, filters.scriptId);
+      if (series.length === 0) {
+        setTravelError('No monitoring history kept for the current filters');
+        return;
+      }
+      const capturedAt = Date.now();
+      setTravel({
+        snapshot: {
+          version: MONITORING_SNAPSHOT_VERSION,
+          capturedAt,
+          moduleId: filters.moduleId || undefined,
+          scriptId: filters.scriptId || undefined,
+          series
+        },
+        time: capturedAt
+      });
+    } catch (error) {
+      setTravelError(`Failed to load monitoring history: ${(error as Error).message}`);
+    }
+  };
+
+  const exitTimeTravel = () => {
+    if (travel && travel.sessionName) onCloseSavedSession?.();
+    setTravel(null);
+    setTravelError(null);
+  };
+
+  // Save the state at the scrubber position, with the history leading up to it
+  const saveSnapshot = () => {
+    if (!travel || !onSaveSnapshot) return;
+    const { snapshot, time } = travel;
+    const scope = [snapshot.moduleId, snapshot.scriptId].filter(Boolean).join(' / ') || 'All modules';
+    onSaveSnapshot(`${scope} @ ${new Date(time).toLocaleString()}`, {
+      ...snapshot,
+      capturedAt: time,
+      series: clipSeriesTo(snapshot.series, time)
+    });
+  };
+
+  const travelData = useMemo(() => travel
+    ? rebuildMonitoringAt(travel.snapshot.series, travel.time) as { [moduleId: string]: ModuleData }
+    : null, [travel]);
+
+  const travelSparklines = useMemo(() => {
+    if (!travel) return null;
+    const lines: Record<string, MonitoringHistoryEntry[]> = {};
+    clipSeriesTo(travel.snapshot.series, travel.time).forEach(series => {
+      lines[getVariableKey(series.moduleId, series.scriptId, series.type, series.name)] = series.entries.slice(-SPARKLINE_POINTS);
+    });
+    return lines;
+  }, [travel]);
+
+  // Keep the detail panel on the selected variable as the scrubber moves
+  useEffect(() => {
+    const selected = selectedDataRef.current;
+    if (!travelData || !selected) return;
+    const script = travelData[selected.moduleId] ? travelData[selected.moduleId].scripts[selected.scriptId] : undefined;
+    const entry = script ? script[`${selected.type}s` as MonitoringCategory][selected.name] : undefined;
+    if (entry && entry.timestamp !== selected.timestamp) setSelectedData(entry);
+  }, [travelData]);
+
+  const displayedData = travelData || monitoringData;
+
+  const traces = useMemo(() => {
+    const source = travel
+      ? clipSeriesTo(travel.snapshot.series.filter(series => series.type === 'function'), travel.time)
+      : functionHistory;
+    return buildTraces(source.filter(series =>
+      (!filters.moduleId || series.moduleId.includes(filters.moduleId)) &&
+      (!filters.scriptId || series.scriptId.includes(filters.scriptId))
+    ));
+  }, [travel, functionHistory, filters.moduleId, filters.scriptId]);
+
   // Filtered and sorted data
   const filteredData = useMemo(() => {
     const filtered: { [moduleId: string]: ModuleData } = {};
     
-    // Safety check for monitoringData
-    if (!monitoringData || typeof monitoringData !== 'object') {
+    // Safety check for displayedData
+    if (!displayedData || typeof displayedData !== 'object') {
       return filtered;
     }
     
-    Object.entries(monitoringData).forEach(([moduleId, moduleData]) => {
+    Object.entries(displayedData).forEach(([moduleId, moduleData]) => {
       if (filters.moduleId && !moduleId.includes(filters.moduleId)) return;
       if (!moduleData || !moduleData.scripts || typeof moduleData.scripts !== 'object') return;
       
@@ -347,7 +680,7 @@ export default function MonitoringPage({
     });
     
     return filtered;
-  }, [monitoringData, filters]);
+  }, [displayedData, filters]);
 
   // Toggle module expansion
   const toggleModule = (moduleId: string) => {
@@ -385,17 +718,9 @@ export default function MonitoringPage({
     return String(value);
   };
 
-  // Get value type
-  const getValueType = (value: any): string => {
-    if (value === null) return 'null';
-    if (value === undefined) return 'undefined';
-    if (Array.isArray(value)) return 'array';
-    return typeof value;
-  };
-
-  // Get time ago
+  // Get time ago, relative to the scrubber position while time travelling
   const getTimeAgo = (timestamp: number): string => {
-    const now = Date.now();
+    const now = travel ? travel.time : Date.now();
     const diff = now - timestamp;
     
     if (diff < 1000) return 'just now';
@@ -414,14 +739,14 @@ export default function MonitoringPage({
   };
 
   // Sort function for table data
-  const sortTableData = (data: Array<{
+  const sortTableData = <T extends {
     moduleId: string;
     scriptId: string;
     name: string;
     type: 'variable' | 'state' | 'function' | 'property' | 'event';
     value: any;
     timestamp: number;
-  }>) => {
+  }>(data: T[]): T[] => {
     if (!sortConfig) return data;
 
     return [...data].sort((a, b) => {
@@ -489,7 +814,7 @@ export default function MonitoringPage({
       valueInformation: {
         currentValue: selectedData.value,
         previousValue: selectedData.previousValue,
-        valueType: getValueType(selectedData.value)
+        valueType: LogFormatter.getValueType(selectedData.value)
       },
       metadata: selectedData.metadata || {}
     };
@@ -589,12 +914,15 @@ export default function MonitoringPage({
   };
 
   // Render data item
+  const isFlashing = (data: { moduleId: string; scriptId: string; type: string; name: string }) =>
+    !travel && !!flashing[getVariableKey(data.moduleId, data.scriptId, data.type, data.name)];
+
   const renderDataItem = (data: MonitoringData, key: string) => {
     const highlightStyles = getHighlightStyles(data.type, data.scriptId, data.moduleId, data.name);
     return (
     <div 
       key={key}
-      className={`monitoring-data-item monitoring-data-${data.type} ${highlightStyles.className}`}
+      className={`monitoring-data-item monitoring-data-${data.type} ${isFlashing(data) ? 'value-flash' : ''} ${highlightStyles.className}`}
       style={highlightStyles.style}
       onClick={() => setSelectedData(data)}
       onContextMenu={(e) => handleDataItemRightClick(e, data)}
@@ -608,14 +936,14 @@ export default function MonitoringPage({
       <div className="data-content">
         <div className="data-value">
           <span className="value-label">Value:</span>
-          <span className={`value-content value-${getValueType(data.value)}`}>
+          <span className={`value-content value-${LogFormatter.getValueType(data.value)}`}>
             {formatValue(data.value)}
           </span>
         </div>
         {data.previousValue !== undefined && (
           <div className="data-previous">
             <span className="value-label">Previous:</span>
-            <span className={`value-content value-${getValueType(data.previousValue)}`}>
+            <span className={`value-content value-${LogFormatter.getValueType(data.previousValue)}`}>
               {formatValue(data.previousValue)}
             </span>
           </div>
@@ -748,6 +1076,7 @@ export default function MonitoringPage({
       name: string;
       type: 'variable' | 'state' | 'function' | 'property' | 'event';
       value: any;
+      previousValue?: any;
       timestamp: number;
       metadata?: {
         file?: string;
@@ -772,6 +1101,7 @@ export default function MonitoringPage({
                   name,
                   type,
                   value: data.value,
+                  previousValue: data.previousValue,
                   timestamp: data.timestamp || Date.now(),
                   metadata: data.metadata
                 });
@@ -817,6 +1147,9 @@ export default function MonitoringPage({
                 >
                   Value<span className="sort-indicator">{getSortIndicator('value')}</span>
                 </th>
+                <th className="table-trend">
+                  Trend
+                </th>
                 <th>
                   Context
                 </th>
@@ -842,6 +1175,7 @@ export default function MonitoringPage({
                   name: row.name,
                   type: row.type,
                   value: row.value,
+                  previousValue: row.previousValue,
                   timestamp: row.timestamp
                 })}
                 onContextMenu={(e) => handleTableRowRightClick(e, row)}
@@ -855,9 +1189,12 @@ export default function MonitoringPage({
                     {row.type}
                   </span>
                 </td>
-                <td className="table-value">
+                <td className={`table-value ${isFlashing(row) ? 'value-flash' : ''}`}>
                   {formatValue(row.value)}
                 </td>
+                <td className="table-trend">
+                  <Sparkline entries={(travelSparklines || sparklines)[getVariableKey(row.moduleId, row.scriptId, row.type, row.name)] || []} />
+                </td>
                 <td className="table-context">
                   {row.metadata && (
                     <div className="context-info">
@@ -891,6 +1228,29 @@ export default function MonitoringPage({
     );
   };
 
+  // Render trace view
+  const renderTraceView = () => (
+    <div className="monitoring-trace">
+      <FlameChart
+        traces={traces}
+        selectedSpanId={selectedData ? selectedSpanId : null}
+        onSelectSpan={(span: TraceSpan) => {
+          setSelectedSpanId(span.id);
+          setSelectedData({
+            moduleId: span.moduleId,
+            scriptId: span.scriptId,
+            type: 'function',
+            name: span.name,
+            value: span.entry.value,
+            previousValue: span.entry.previousValue,
+            timestamp: span.entry.timestamp,
+            metadata: span.entry.metadata
+          });
+        }}
+      />
+    </div>
+  );
+
   // Render timeline view
   const renderTimelineView = () => {
     const allData: Array<{ moduleId: string; scriptId: string; data: MonitoringData }> = [];
@@ -942,7 +1302,7 @@ export default function MonitoringPage({
           return (
           <div 
             key={index}
-            className={`timeline-item timeline-${item.data.type} ${highlightStyles.className}`}
+            className={`timeline-item timeline-${item.data.type} ${isFlashing(item.data) ? 'value-flash' : ''} ${highlightStyles.className}`}
             style={highlightStyles.style}
             onClick={() => setSelectedData(item.data)}
             {...highlightStyles.dataAttributes}
@@ -1066,6 +1426,12 @@ export default function MonitoringPage({
               <option value={30000}>30 seconds</option>
               <option value={60000}>1 minute</option>
             </select>
+            <span
+              className={`stream-status ${live ? 'stream-live' : 'stream-polling'}`}
+              title={live ? 'Updates are pushed by the server' : 'Push stream unavailable; using auto-refresh'}
+            >
+              {live ? '● Live' : '○ Polling'}
+            </span>
           </div>
         </div>
 
@@ -1088,15 +1454,41 @@ export default function MonitoringPage({
           >
             Timeline
           </button>
+          <button
+            className={`view-mode-btn ${viewMode === 'trace' ? 'active' : ''}`}
+            onClick={() => setViewMode('trace')}
+          >
+            Trace
+          </button>
+          <button
+            className={`view-mode-btn ${travel ? 'active' : ''}`}
+            onClick={travel ? exitTimeTravel : startTimeTravel}
+            title="Scrub through the kept monitoring history"
+          >
+            ⏱ Time travel
+          </button>
         </div>
       </div>
 
+      {travel && (
+        <TimeTravelBar
+          snapshot={travel.snapshot}
+          time={travel.time}
+          sessionName={travel.sessionName}
+          onTimeChange={(time) => setTravel(prev => prev ? { ...prev, time } : prev)}
+          onSave={onSaveSnapshot && !travel.sessionName ? saveSnapshot : undefined}
+          onExit={exitTimeTravel}
+        />
+      )}
+      {travelError && <div className="time-travel-error">{travelError}</div>}
+
       {/* Content */}
       <div className="monitoring-content">
         <div className="monitoring-main">
           {viewMode === 'tree' && renderTreeView()}
           {viewMode === 'table' && renderTableView()}
           {viewMode === 'timeline' && renderTimelineView()}
+          {viewMode === 'trace' && renderTraceView()}
         </div>
 
         {/* Detail Panel */}
@@ -1149,7 +1541,7 @@ export default function MonitoringPage({
                 <div className="detail-item">
                   <span className="detail-label">Current Value:</span>
                   <div className="detail-value-container">
-                    <span className={`detail-value detail-value-${getValueType(selectedData.value)}`}>
+                    <span className={`detail-value detail-value-${LogFormatter.getValueType(selectedData.value)}`}>
                       {formatValue(selectedData.value)}
                     </span>
                   </div>
@@ -1158,7 +1550,7 @@ export default function MonitoringPage({
                   <div className="detail-item">
                     <span className="detail-label">Previous Value:</span>
                     <div className="detail-value-container">
-                      <span className={`detail-value detail-value-${getValueType(selectedData.previousValue)}`}>
+                      <span className={`detail-value detail-value-${LogFormatter.getValueType(selectedData.previousValue)}`}>
                         {formatValue(selectedData.previousValue)}
                       </span>
                     </div>
@@ -1166,6 +1558,36 @@ export default function MonitoringPage({
                 )}
               </div>
 
+              {!travel?.sessionName && (isStructured(selectedData.value) || isStructured(selectedData.previousValue)) && (
+                <div className="detail-section">
+                  <h4>Changes</h4>
+                  <MonitoringDiffPanel
+                    apiClient={apiClient}
+                    moduleId={selectedData.moduleId}
+                    scriptId={selectedData.scriptId}
+                    type={selectedData.type}
+                    name={selectedData.name}
+                    value={selectedData.value}
+                    previousValue={selectedData.previousValue}
+                    refreshKey={historyRefreshKey}
+                  />
+                </div>
+              )}
+
+              {!travel?.sessionName && (
+                <div className="detail-section">
+                  <h4>History</h4>
+                  <MonitoringHistoryPanel
+                    apiClient={apiClient}
+                    moduleId={selectedData.moduleId}
+                    scriptId={selectedData.scriptId}
+                    type={selectedData.type}
+                    name={selectedData.name}
+                    refreshKey={historyRefreshKey}
+                  />
+                </div>
+              )}
+
               {selectedData.metadata && (
                 <div className="detail-section">
                   <h4>Metadata</h4>
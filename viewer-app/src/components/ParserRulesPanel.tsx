@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  AllogApiClient,
+  ParserRule,
+  ParserRuleType,
+  ParserTestResult
+} from '../lib/allog-api-client';
+import { getLogLevels } from '../utils/LogLevels';
+import '../styles/ParserRulesPanel.css';
+
+/**
+ * ParserRulesPanel - edits the server's extraction rules for raw-text and
+ * malformed logs and tries them against sample lines before saving
+ */
+
+interface ParserRulesPanelProps {
+  apiClient: AllogApiClient;
+}
+
+const RULE_TYPE_LABELS: Record<ParserRuleType, string> = {
+  grok: 'Grok',
+  regex: 'Regex (named groups)',
+  kv: 'key=value',
+  logfmt: 'logfmt',
+  'access-log': 'Apache/Nginx access log',
+  'nginx-error': 'Nginx error log'
+};
+
+const SAMPLE_LINES: Record<ParserRuleType, string> = {
+  grok: '2024-05-01T12:00:00Z WARN [worker-3] Slow query took=1200ms',
+  regex: 'ERROR: disk /dev/sda1 is 95% full',
+  kv: 'user=alice action=login ok=true',
+  logfmt: 'level=warn msg="cache miss" key=user:42 duration=12ms',
+  'access-log': '203.0.113.7 - - [01/May/2024:12:00:00 +0000] "GET /api/orders?id=7 HTTP/1.1" 502 173 "-" "curl/8.4.0"',
+  'nginx-error': '2024/05/01 12:00:00 [error] 31#31: *8 connect() failed (111: Connection refused) while connecting to upstream'
+};
+
+// Debounce for re-running the tester while editing
+const TEST_DELAY_MS = 400;
+
+const newRuleId = (rules: ParserRule[]): string => {
+  let index = rules.length + 1;
+  while (rules.some(rule => rule.id === `rule-${index}`)) index++;
+  return `rule-${index}`;
+};
+
+// Only what the server accepts; stats are reported, not saved
+const toSavedRule = (rule: ParserRule): ParserRule => {
+  const { stats, ...saved } = rule;
+  return saved;
+};
+
+export default function ParserRulesPanel({ apiClient }: ParserRulesPanelProps) {
+  const [rules, setRules] = useState<ParserRule[]>([]);
+  const [savedJson, setSavedJson] = useState('[]');
+  const [types, setTypes] = useState<ParserRuleType[]>(Object.keys(RULE_TYPE_LABELS) as ParserRuleType[]);
+  const [grokPatterns, setGrokPatterns] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [sample, setSample] = useState('');
+  const [results, setResults] = useState<ParserTestResult[]>([]);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await apiClient.getParserRules();
+      setRules(result.rules);
+      // Start off with a line the first rule can parse
+      if (result.rules.length > 0) setSample(prev => prev || SAMPLE_LINES[result.rules[0].type] || '');
+      setSavedJson(JSON.stringify(result.rules.map(toSavedRule)));
+      if (result.types && result.types.length > 0) setTypes(result.types);
+      setGrokPatterns(result.grokPatterns || []);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load parser rules');
+    }
+  }, [apiClient]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const selected: ParserRule | undefined = rules[selectedIndex];
+  const dirty = JSON.stringify(rules.map(toSavedRule)) !== savedJson;
+
+  useEffect(() => {
+    if (!selected || !sample.trim()) {
+      setResults([]);
+      setTestError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const lines = sample.split('\n').filter(line => line.trim());
+        const tested = await apiClient.testParserRule(toSavedRule(selected), lines);
+        if (!cancelled) {
+          setResults(tested);
+          setTestError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setResults([]);
+          setTestError(error instanceof Error ? error.message : 'Test failed');
+        }
+      }
+    }, TEST_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [apiClient, selected, sample]);
+
+  const updateSelected = (changes: Partial<ParserRule>) => {
+    setRules(prev => prev.map((rule, index) => (index === selectedIndex ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    const rule: ParserRule = { id: newRuleId(rules), name: 'New rule', enabled: true, type: 'logfmt', sources: [] };
+    setRules(prev => prev.concat(rule));
+    setSelectedIndex(rules.length);
+    setSample(SAMPLE_LINES.logfmt);
+  };
+
+  const removeSelected = () => {
+    setRules(prev => prev.filter((_, index) => index !== selectedIndex));
+    setSelectedIndex(Math.max(0, selectedIndex - 1));
+  };
+
+  const moveSelected = (offset: number) => {
+    const target = selectedIndex + offset;
+    if (target < 0 || target >= rules.length) return;
+    setRules(prev => {
+      const next = prev.slice();
+      next[selectedIndex] = prev[target];
+      next[target] = prev[selectedIndex];
+      return next;
+    });
+    setSelectedIndex(target);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const saved = await apiClient.saveParserRules(rules.map(toSavedRule));
+      setRules(saved);
+      setSavedJson(JSON.stringify(saved.map(toSavedRule)));
+      setSaveError(null);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save parser rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revert = () => {
+    setRules(JSON.parse(savedJson));
+    setSelectedIndex(0);
+    setSaveError(null);
+  };
+
+  const renderRuleOptions = (rule: ParserRule) => {
+    switch (rule.type) {
+      case 'grok':
+      case 'regex':
+        return (
+          <>
+            <label className="parser-field parser-field-wide">
+              {rule.type === 'grok' ? 'Grok pattern' : 'Regular expression'}
+              <textarea
+                value={rule.pattern || ''}
+                onChange={(e) => updateSelected({ pattern: e.target.value })}
+                placeholder={rule.type === 'grok'
+                  ? '%{TIMESTAMP_ISO8601:time} %{LOGLEVEL:level} %{GREEDYDATA:message}'
+                  : '^(?<level>\\w+): (?<message>.*)$'}
+                rows={3}
+                spellCheck={false}
+              />
+            </label>
+            {rule.type === 'regex' && (
+              <label className="parser-field">
+                Flags
+                <input type="text" value={rule.flags || ''} onChange={(e) => updateSelected({ flags: e.target.value })} placeholder="i" />
+              </label>
+            )}
+            {rule.type === 'grok' && grokPatterns.length > 0 && (
+              <div className="parser-hint">
+                Patterns: {grokPatterns.join(', ')}. Write <code>%{'{'}NAME:field{'}'}</code>, or <code>%{'{'}NAME:field:int{'}'}</code> for numbers.
+              </div>
+            )}
+          </>
+        );
+      case 'kv':
+        return (
+          <>
+            <label className="parser-field">
+              Separator
+              <input type="text" value={rule.separator || ''} onChange={(e) => updateSelected({ separator: e.target.value || undefined })} placeholder="=" />
+            </label>
+            <label className="parser-field">
+              Pair delimiter
+              <input type="text" value={rule.delimiter || ''} onChange={(e) => updateSelected({ delimiter: e.target.value || undefined })} placeholder="whitespace" />
+            </label>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderFieldMapping = (rule: ParserRule) => {
+    const fields = rule.fields || {};
+    const setField = (role: 'message' | 'level' | 'time', value: string) => {
+      const next = { ...fields, [role]: value || undefined };
+      updateSelected({ fields: next.message || next.level || next.time ? next : undefined });
+    };
+    return (
+      <div className="parser-mapping">
+        {(['message', 'level', 'time'] as const).map(role => (
+          <label key={role} className="parser-field">
+            {role} field
+            <input
+              type="text"
+              value={fields[role] || ''}
+              onChange={(e) => setField(role, e.target.value)}
+              placeholder={role === 'message' ? 'message, msg' : role === 'level' ? 'level, lvl, severity' : 'time, timestamp, ts'}
+            />
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const renderEditor = (rule: ParserRule) => (
+    <div className="parser-editor">
+      <div className="parser-editor-row">
+        <label className="parser-field">
+          Name
+          <input type="text" value={rule.name || ''} onChange={(e) => updateSelected({ name: e.target.value })} />
+        </label>
+        <label className="parser-field">
+          Id
+          <input type="text" value={rule.id} onChange={(e) => updateSelected({ id: e.target.value })} />
+        </label>
+        <label className="parser-field">
+          Type
+          <select value={rule.type} onChange={(e) => updateSelected({ type: e.target.value as ParserRuleType })}>
+            {types.map(type => (
+              <option key={type} value={type}>{RULE_TYPE_LABELS[type] || type}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="parser-editor-row">
+        <label className="parser-field parser-field-wide">
+          Sources
+          <input
+            type="text"
+            value={(rule.sources || []).join(', ')}
+            onChange={(e) => updateSelected({ sources: e.target.value.split(',').map(source => source.trim()).filter(Boolean) })}
+            placeholder="All sources, or e.g. nginx-*, legacy-billing"
+          />
+        </label>
+        <label className="parser-field">
+          Default level
+          <select value={rule.level || ''} onChange={(e) => updateSelected({ level: e.target.value || undefined })}>
+            {[''].concat(getLogLevels().map(level => level.name)).map(level => (
+              <option key={level} value={level}>{level || '(keep)'}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="parser-editor-row">
+        {(['raw-text', 'malformed'] as const).map(quality => {
+          const appliesTo = rule.appliesTo && rule.appliesTo.length > 0 ? rule.appliesTo : ['raw-text', 'malformed'];
+          const checked = appliesTo.indexOf(quality) !== -1;
+          return (
+            <label key={quality} className="parser-check">
+              <input
+                type="checkbox"
+                checked={checked}
+                onChange={() => {
+                  const next = checked ? appliesTo.filter(item => item !== quality) : appliesTo.concat(quality);
+                  // Unchecking both would silently mean both again
+                  if (next.length > 0) updateSelected({ appliesTo: next as Array<'raw-text' | 'malformed'> });
+                }}
+              />
+              {quality === 'raw-text' ? 'Raw text logs' : 'Malformed logs'}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="parser-editor-row">{renderRuleOptions(rule)}</div>
+      {renderFieldMapping(rule)}
+
+      <div className="parser-tester">
+        <label className="parser-field parser-field-wide">
+          Sample lines (one per line)
+          <textarea value={sample} onChange={(e) => setSample(e.target.value)} rows={4} spellCheck={false} />
+        </label>
+        {testError && <div className="parser-error">{testError}</div>}
+        {results.map((result, index) => (
+          <div key={index} className={`parser-result ${result.matched ? 'matched' : 'unmatched'}`}>
+            <div className="parser-result-line">
+              <span className="parser-result-mark">{result.matched ? '✓' : '✗'}</span>
+              <code>{result.line}</code>
+            </div>
+            {result.entry && (
+              <div className="parser-result-entry">
+                <div>
+                  <span className="parser-result-label">message</span> {result.entry.message}
+                </div>
+                {result.entry.level && (
+                  <div><span className="parser-result-label">level</span> {result.entry.level}</div>
+                )}
+                {result.entry.time && (
+                  <div><span className="parser-result-label">time</span> {result.entry.time}</div>
+                )}
+                {Object.keys(result.entry.data).length > 0 && (
+                  <pre>{JSON.stringify(result.entry.data, null, 2)}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (loadError) {
+    return (
+      <div className="parser-panel">
+        <div className="parser-error">Failed to load parser rules: {loadError}</div>
+        <button className="action-btn secondary" onClick={load}>Retry</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="parser-panel">
+      <div className="parser-rules">
+        {rules.length === 0 && <div className="parser-empty">No rules. Raw and malformed logs are stored as they arrive.</div>}
+        {rules.map((rule, index) => (
+          <div
+            key={index}
+            className={`parser-rule ${index === selectedIndex ? 'selected' : ''} ${rule.enabled === false ? 'disabled' : ''}`}
+            onClick={() => setSelectedIndex(index)}
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled !== false}
+              title="Enabled"
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setRules(prev => prev.map((item, i) => (i === index ? { ...item, enabled: e.target.checked } : item)))}
+            />
+            <div className="parser-rule-text">
+              <div className="parser-rule-name">{rule.name || rule.id}</div>
+              <div className="parser-rule-meta">
+                {RULE_TYPE_LABELS[rule.type] || rule.type} · {rule.sources && rule.sources.length > 0 ? rule.sources.join(', ') : 'all sources'}
+                {rule.stats && rule.stats.matched > 0 && ` · ${rule.stats.matched} parsed`}
+              </div>
+            </div>
+          </div>
+        ))}
+        <div className="parser-rule-actions">
+          <button className="action-btn secondary" onClick={addRule}>+ Add rule</button>
+          {selected && (
+            <>
+              <button className="action-btn secondary" onClick={() => moveSelected(-1)} disabled={selectedIndex === 0} title="Try this rule earlier">↑</button>
+              <button className="action-btn secondary" onClick={() => moveSelected(1)} disabled={selectedIndex === rules.length - 1} title="Try this rule later">↓</button>
+              <button className="action-btn secondary" onClick={removeSelected}>Delete</button>
+            </>
+          )}
+        </div>
+        <p className="help-text">
+          Rules run in order on raw-text and malformed logs; the first match structures the entry.
+          Saved rules are kept by the server across restarts and replace the seed rules in <code>ingestion.parsers</code> in <code>server/config.json</code>.
+        </p>
+        <div className="parser-save">
+          <button className="action-btn primary" onClick={save} disabled={!dirty || saving}>
+            {saving ? '⏳ Saving...' : '💾 Save rules'}
+          </button>
+          <button className="action-btn secondary" onClick={revert} disabled={!dirty || saving}>Revert</button>
+        </div>
+        {saveError && <div className="parser-error">{saveError}</div>}
+      </div>
+
+      {selected ? renderEditor(selected) : <div className="parser-editor parser-empty">Select or add a rule</div>}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useState, useMemo } from 'react';
+import { LogPattern, mineTemplates, matchesTemplate } from '../utils/MessageTemplates';
+import { getLevelColor, getLevelSeverity } from '../utils/LogLevels';
+import '../styles/PatternsPage.css';
+
+/**
+ * PatternsPage - the most recent logs grouped by message template with
+ * counts, first/last seen and level mix; patterns can be drilled into or
+ * muted
+ */
+
+export interface PatternLog {
+  id: string;
+  message: string;
+  level: string;
+  time?: string;
+  timestamp?: string;
+  scriptId?: string;
+}
+
+type PatternSort = 'count' | 'lastSeen' | 'firstSeen';
+
+interface PatternsPageProps {
+  logs: PatternLog[];
+  muted: string[];
+  onMute: (template: string) => void;
+  onUnmute: (template: string) => void;
+  onSelectLog?: (log: PatternLog) => void;
+  loading?: boolean;
+  onRefresh?: () => void;
+}
+
+// Matching entries listed in the drill-down
+const DRILL_DOWN_LIMIT = 200;
+
+const formatSeen = (time: number): string => {
+  if (!time) return '—';
+  const date = new Date(time);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay ? date.toLocaleTimeString() : date.toLocaleString();
+};
+
+// Most severe first, unknown levels last
+const orderedLevels = (levels: Record<string, number>): string[] =>
+  Object.keys(levels).sort((a, b) => {
+    const sa = getLevelSeverity(a);
+    const sb = getLevelSeverity(b);
+    return (sb === undefined ? 0 : sb) - (sa === undefined ? 0 : sa);
+  });
+
+export default function PatternsPage({ logs, muted, onMute, onUnmute, onSelectLog, loading, onRefresh }: PatternsPageProps) {
+  const [sort, setSort] = useState<PatternSort>('count');
+  const [search, setSearch] = useState('');
+  const [showMuted, setShowMuted] = useState(true);
+  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+
+  const patterns = useMemo(() => mineTemplates(logs), [logs]);
+
+  // A mined pattern can be muted under an older, broader template
+  const isPatternMuted = (pattern: LogPattern) =>
+    muted.indexOf(pattern.template) !== -1 ||
+    (pattern.members.length > 0 && muted.some(template => matchesTemplate(logs[pattern.members[0]].message, template)));
+
+  const shown = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return patterns
+      .filter(pattern => !query || pattern.template.toLowerCase().indexOf(query) !== -1)
+      .filter(pattern => showMuted || !isPatternMuted(pattern))
+      .sort((a, b) => b[sort] - a[sort]);
+    // isPatternMuted reads logs and muted
+  }, [patterns, search, sort, showMuted, muted, logs]);
+
+  const selected = patterns.find(pattern => pattern.template === selectedTemplate) || null;
+  const maxCount = shown.reduce((max, pattern) => Math.max(max, pattern.count), 0);
+
+  const renderLevelMix = (pattern: LogPattern) => (
+    <div
+      className="pattern-level-mix"
+      title={orderedLevels(pattern.levels).map(level => `${level}: ${pattern.levels[level]}`).join(', ')}
+    >
+      {orderedLevels(pattern.levels).map(level => (
+        <span
+          key={level}
+          className={`pattern-level pattern-level-${level}`}
+          style={{ width: `${(pattern.levels[level] / pattern.count) * 100}%`, backgroundColor: getLevelColor(level) }}
+        />
+      ))}
+    </div>
+  );
+
+  const renderDrillDown = (pattern: LogPattern) => {
+    // Newest first
+    const members = pattern.members.slice(-DRILL_DOWN_LIMIT).reverse();
+    return (
+      <div className="pattern-drill-down">
+        <div className="pattern-drill-header">
+          <span className="pattern-drill-title" title={pattern.template}>{pattern.template}</span>
+          <button className="pattern-close" onClick={() => setSelectedTemplate(null)}>×</button>
+        </div>
+        <div className="pattern-drill-summary">
+          {pattern.count} entries · first {formatSeen(pattern.firstSeen)} · last {formatSeen(pattern.lastSeen)}
+          {pattern.count > DRILL_DOWN_LIMIT && ` · showing newest ${DRILL_DOWN_LIMIT}`}
+        </div>
+        <div className="pattern-drill-list">
+          {members.map(index => {
+            const log = logs[index];
+            return (
+              <div key={log.id} className={`pattern-entry pattern-entry-${log.level}`} onClick={() => onSelectLog?.(log)}>
+                <span className="pattern-entry-time">{formatSeen(new Date(log.time || log.timestamp || '').getTime() || 0)}</span>
+                <span className="pattern-entry-level" style={{ color: getLevelColor(log.level) }}>{log.level}</span>
+                {log.scriptId && <span className="pattern-entry-script">{log.scriptId}</span>}
+                <span className="pattern-entry-message">{log.message}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="patterns-page">
+      <div className="patterns-toolbar">
+        <input
+          type="text"
+          className="patterns-search"
+          placeholder="Filter patterns..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <label className="patterns-option">
+          Sort by
+          <select value={sort} onChange={(e) => setSort(e.target.value as PatternSort)}>
+            <option value="count">Count</option>
+            <option value="lastSeen">Last seen</option>
+            <option value="firstSeen">First seen</option>
+          </select>
+        </label>
+        <label className="patterns-option">
+          <input type="checkbox" checked={showMuted} onChange={(e) => setShowMuted(e.target.checked)} />
+          Show muted
+        </label>
+        <span className="patterns-summary">
+          {patterns.length} patterns from {logs.length} logs
+          {muted.length > 0 && ` · ${muted.length} muted`}
+        </span>
+        {onRefresh && (
+          <button className="patterns-refresh" onClick={onRefresh} disabled={loading}>
+            🔄 Refresh
+          </button>
+        )}
+      </div>
+
+      <div className="patterns-content">
+        <div className="patterns-table">
+          <div className="pattern-row pattern-header">
+            <span>Pattern</span>
+            <span>Count</span>
+            <span>First seen</span>
+            <span>Last seen</span>
+            <span>Levels</span>
+            <span />
+          </div>
+          {shown.length === 0 && (
+            <div className="patterns-empty">
+              {logs.length === 0 ? (loading ? 'Loading…' : 'No logs') : 'No patterns match'}
+            </div>
+          )}
+          {shown.map(pattern => {
+            const patternMuted = isPatternMuted(pattern);
+            return (
+              <div
+                key={pattern.template}
+                className={`pattern-row ${pattern.template === selectedTemplate ? 'selected' : ''} ${patternMuted ? 'pattern-muted' : ''}`}
+                onClick={() => setSelectedTemplate(pattern.template === selectedTemplate ? null : pattern.template)}
+              >
+                <span className="pattern-template" title={pattern.template}>{pattern.template}</span>
+                <span className="pattern-count">
+                  <span className="pattern-count-bar" style={{ width: `${maxCount ? (pattern.count / maxCount) * 100 : 0}%` }} />
+                  <span className="pattern-count-value">{pattern.count}</span>
+                </span>
+                <span className="pattern-seen">{formatSeen(pattern.firstSeen)}</span>
+                <span className="pattern-seen">{formatSeen(pattern.lastSeen)}</span>
+                {renderLevelMix(pattern)}
+                <button
+                  className="pattern-mute-btn"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (patternMuted) {
+                      muted
+                        .filter(template => template === pattern.template || matchesTemplate(logs[pattern.members[0]].message, template))
+                        .forEach(onUnmute);
+                    } else {
+                      onMute(pattern.template);
+                    }
+                  }}
+                  title={patternMuted ? 'Show these logs in the Logs view again' : 'Hide these logs from the Logs view'}
+                >
+                  {patternMuted ? '🔊 Unmute' : '🔇 Mute'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {selected && renderDrillDown(selected)}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { LogFormatter, FormattedLog } from '../utils/LogFormatter';
+import JsonTree from './JsonTree';
 import '../styles/RecursiveLogsPage.css';
 import { createAllogApiClient, AllogApiClient } from '../lib/allog-api-client';
 import viewerConfig from '../config/config-loader';
+import VirtualLogList from './VirtualLogList';
+import LiveTailControls from './LiveTailControls';
+import { useAllogSocket } from '../hooks/useAllogSocket';
+import { useLiveTail } from '../hooks/useLiveTail';
 
 // Pure HTTP API approach - no allog imports due to safety constraints
 
@@ -33,11 +38,15 @@ export default function RecursiveLogsPage({ serverUrl, autoRefresh, refreshInter
     direction: 'asc' | 'desc';
   } | null>(null);
 
-  // Format logs for better readability
+  // Format logs for better readability (keyed by id, the list is filtered and sorted)
   const formattedLogs = useMemo(() => {
-    return logs.map(log => LogFormatter.formatLog(log));
+    const byId = new Map<string, FormattedLog>();
+    logs.forEach(log => byId.set(log.id, LogFormatter.formatLog(log)));
+    return byId;
   }, [logs]);
 
+  const getLogKey = useCallback((log: any) => String(log.id), []);
+
   // Create API client instance
   const [apiClient] = useState<AllogApiClient>(() => createAllogApiClient(serverUrl));
 
@@ -64,13 +73,40 @@ export default function RecursiveLogsPage({ serverUrl, autoRefresh, refreshInter
     return logStats;
   }, [apiClient]);
 
+  // Live tail over the server log stream, newest first
+  const prependLogs = useCallback((entries: any[]) => {
+    setLogs(prev => {
+      const seen = new Set(prev.map(log => log.id));
+      const fresh = entries.filter(log => !seen.has(log.id));
+      return fresh.length > 0 ? fresh.concat(prev).slice(0, viewerConfig.maxInternalLogs) : prev;
+    });
+  }, []);
+  const tail = useLiveTail<any>(prependLogs, { maxBuffer: viewerConfig.maxInternalLogs });
+  const pausedRef = useRef(false);
+  pausedRef.current = tail.paused;
+
+  const wsUrl = useMemo(() => serverUrl.replace(/^http/, 'ws'), [serverUrl]);
+  const { socket } = useAllogSocket(wsUrl);
+
+  useEffect(() => {
+    socket.subscribe({ includeInternal: true, query: 'provenance:internal', monitoring: false });
+    return socket.onMessage((msg) => {
+      if (msg.type === 'new_server_log') {
+        tail.receive([msg.data]);
+      }
+    });
+  }, [socket, tail.receive]);
+
   // Fetch recursive logs from server using API client
   const fetchRecursiveLogs = useCallback(async () => {
     try {
       // Use pure HTTP API functions
       const recursiveLogs = await fetchLogs();
       
-      setLogs(recursiveLogs);
+      // A paused tail keeps the list as it is; stats still refresh
+      if (!pausedRef.current) {
+        setLogs(recursiveLogs.slice().reverse());
+      }
       setIsConnected(true);
       setError(null);
 
@@ -344,6 +380,7 @@ export default function RecursiveLogsPage({ serverUrl, autoRefresh, refreshInter
             >
               📋 Copy Logs
             </button>
+            <LiveTailControls tail={tail} />
           </div>
 
           {/* Connection Status */}
@@ -354,86 +391,103 @@ export default function RecursiveLogsPage({ serverUrl, autoRefresh, refreshInter
           )}
 
           {/* Logs List */}
-          <div className="recursive-logs-list">
-            {filteredLogs.length === 0 ? (
+          <VirtualLogList
+            className="recursive-logs-list"
+            items={filteredLogs}
+            getKey={getLogKey}
+            onHeadChange={tail.setAtHead}
+            scrollToHeadSignal={tail.scrollToHeadSignal}
+            emptyState={
               <div className="no-logs">
                 {logs.length === 0 ? 'No recursive logs found' : 'No logs match current filter'}
               </div>
-            ) : (
-              filteredLogs.map((log, index) => {
-                const formattedLog = formattedLogs[index];
-                return (
-                  <div 
-                    key={log.id} 
-                    className={`log-entry ${expandedLogs.has(log.id) ? 'expanded' : ''} ${selectedLog?.id === log.id ? 'selected' : ''} ${formattedLog.isServerLog ? 'server-log' : 'application-log'}`}
-                    data-script-id={log.scriptId}
-                  >
-                    <div className="log-header" onClick={() => toggleLogExpansion(log.id)}>
-                      <div className="log-level" style={{ color: getLevelColor(log.level) }}>
-                        {log.level.toUpperCase()}
+            }
+            renderItem={(log) => {
+              const formattedLog = formattedLogs.get(log.id) || LogFormatter.formatLog(log);
+              return (
+              <div 
+                className={`log-entry ${expandedLogs.has(log.id) ? 'expanded' : ''} ${selectedLog?.id === log.id ? 'selected' : ''} ${formattedLog.isServerLog ? 'server-log' : 'application-log'}`}
+                data-script-id={log.scriptId}
+              >
+                <div className="log-header" onClick={() => toggleLogExpansion(log.id)}>
+                  <div className="log-level" style={{ color: getLevelColor(log.level) }}>
+                    {log.level.toUpperCase()}
+                  </div>
+                  <div className="log-time">{formatTime(log.time)}</div>
+                  <div className="log-script" style={{ color: getScriptColor(log.scriptId) }}>
+                    {highlightSearchMatch(log.scriptId || '', filter.search)}
+                  </div>
+                  <div className="log-message">
+                    {formattedLog.isServerLog ? (
+                      <span className="server-log-message">
+                        🔧 {highlightSearchMatch(formattedLog.message, filter.search)}
+                      </span>
+                    ) : (
+                      highlightSearchMatch(log.message, filter.search)
+                    )}
+                  </div>
+                  <div className="log-expand">▶</div>
+                </div>
+                
+                {expandedLogs.has(log.id) && (
+                  <div className="log-details">
+                    {/* Show formatted details for server logs */}
+                    {formattedLog.isServerLog && formattedLog.details && (
+                      <div className="log-details-formatted">
+                        <strong>Details:</strong>
+                        <div className="details-text">{formattedLog.details}</div>
                       </div>
-                      <div className="log-time">{formatTime(log.time)}</div>
-                      <div className="log-script" style={{ color: getScriptColor(log.scriptId) }}>
-                        {highlightSearchMatch(log.scriptId || '', filter.search)}
+                    )}
+                    
+                    {/* Show metadata for server logs */}
+                    {formattedLog.isServerLog && formattedLog.metadata && Object.keys(formattedLog.metadata).length > 0 && (
+                      <div className="log-metadata">
+                        <strong>Metadata:</strong>
+                        <pre>{LogFormatter.formatValue(formattedLog.metadata, 2)}</pre>
+                      </div>
+                    )}
+                    
+                    {/* Show raw data for application logs or when needed */}
+                    {(!formattedLog.isServerLog || !formattedLog.details) && log.data && (
+                      <div className="log-data">
+                        <strong>Data:</strong>
+                        <JsonTree data={log.data} />
                       </div>
-                      <div className="log-message">
-                        {formattedLog.isServerLog ? (
-                          <span className="server-log-message">
-                            🔧 {highlightSearchMatch(formattedLog.message, filter.search)}
-                          </span>
-                        ) : (
-                          highlightSearchMatch(log.message, filter.search)
-                        )}
+                    )}
+
+                    {formattedLog.attributes && (
+                      <div className="log-data">
+                        <strong>Attributes:</strong>
+                        <JsonTree data={formattedLog.attributes} />
                       </div>
-                      <div className="log-expand">▶</div>
-                    </div>
+                    )}
+
+                    {formattedLog.resource && (
+                      <div className="log-data">
+                        <strong>Resource:</strong>
+                        <JsonTree data={formattedLog.resource} defaultExpandDepth={0} />
+                      </div>
+                    )}
+
+                    {log.file && (
+                      <div className="log-file">
+                        <strong>File:</strong> {log.file}:{log.line}:{log.column}
+                        {log.functionName && ` (${log.functionName})`}
+                      </div>
+                    )}
                     
-                    {expandedLogs.has(log.id) && (
-                      <div className="log-details">
-                        {/* Show formatted details for server logs */}
-                        {formattedLog.isServerLog && formattedLog.details && (
-                          <div className="log-details-formatted">
-                            <strong>Details:</strong>
-                            <div className="details-text">{formattedLog.details}</div>
-                          </div>
-                        )}
-                        
-                        {/* Show metadata for server logs */}
-                        {formattedLog.isServerLog && formattedLog.metadata && Object.keys(formattedLog.metadata).length > 0 && (
-                          <div className="log-metadata">
-                            <strong>Metadata:</strong>
-                            <pre>{LogFormatter.formatValue(formattedLog.metadata, 2)}</pre>
-                          </div>
-                        )}
-                        
-                        {/* Show raw data for application logs or when needed */}
-                        {(!formattedLog.isServerLog || !formattedLog.details) && log.data && (
-                          <div className="log-data">
-                            <strong>Data:</strong>
-                            <pre>{JSON.stringify(log.data, null, 2)}</pre>
-                          </div>
-                        )}
-                        
-                        {log.file && (
-                          <div className="log-file">
-                            <strong>File:</strong> {log.file}:{log.line}:{log.column}
-                            {log.functionName && ` (${log.functionName})`}
-                          </div>
-                        )}
-                        
-                        {log.stack && (
-                          <div className="log-stack">
-                            <strong>Stack:</strong>
-                            <pre>{log.stack}</pre>
-                          </div>
-                        )}
+                    {log.stack && (
+                      <div className="log-stack">
+                        <strong>Stack:</strong>
+                        <pre>{log.stack}</pre>
                       </div>
                     )}
                   </div>
-                );
-              })
-            )}
-          </div>
+                )}
+              </div>
+              );
+            }}
+          />
         </div>
       </div>
     </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef, forwardRef, useImperativeHandle } from 'react';
 import '../styles/SaveSystem.css';
+import { WATCH_OPERATIONS, compileWatchRule, compileWatchRules } from '../utils/WatchRules';
 
 export interface SaveNode {
   id: string;
@@ -20,6 +21,8 @@ export interface SaveNode {
       result?: any;
       isValid: boolean;
       error?: string;
+      // Evaluated live against monitoring updates (see useWatchRules)
+      enabled?: boolean;
     };
     highlightData?: {
       scriptId?: string;
@@ -43,6 +46,8 @@ export interface SaveFolder {
     tags?: string[];
     createdAt: string;
     updatedAt: string;
+    // Saved session contents, e.g. a monitoring snapshot
+    data?: any;
   };
 }
 
@@ -81,7 +86,7 @@ interface SaveSystemProps {
   onExport: (item: SaveItem) => void;
   onImport: (data: any) => void;
   currentData?: any;
-  currentView: 'logs' | 'monitoring' | 'recursive' | 'instrumentation';
+  currentView: 'logs' | 'monitoring' | 'recursive' | 'instrumentation' | 'compare' | 'patterns' | 'issues' | 'trace';
   onCreateHighlight?: (highlightData: {
     name: string;
     description: string;
@@ -117,6 +122,21 @@ export interface SaveSystemRef {
     name?: string;
     logMessage?: string;
   }) => boolean;
+  createMonitoringSession: (session: {
+    name: string;
+    description: string;
+    tags: string[];
+    data: any;
+  }) => SaveFolder;
+  // Save a comparison workspace setup as a comparison node
+  createComparison: (comparison: {
+    name: string;
+    description: string;
+    tags: string[];
+    data: any;
+  }) => SaveNode;
+  // Record (or with null, clear) when an error issue was marked resolved
+  setIssueResolution: (fingerprint: string, resolvedAt: string | null) => void;
 }
 
 interface SaveEditorProps {
@@ -154,6 +174,8 @@ const SaveSystem = forwardRef<SaveSystemRef, SaveSystemProps>(({
   const [showEditor, setShowEditor] = useState(false);
   // Double-click detection for native context menu
   const doubleClickRefs = useRef<Map<string, { lastClick: number; timeout: NodeJS.Timeout | null }>>(new Map());
+  // Watch rules last announced, so UI-only saves don't reset their state
+  const watchRulesRef = useRef<string | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
     isVisible: false,
     x: 0,
@@ -560,11 +582,23 @@ const SaveSystem = forwardRef<SaveSystemRef, SaveSystemProps>(({
       expandedFolders: Array.from(state.expandedFolders),
       activeProfile: state.activeProfile
     });
-    localStorage.setItem('allog-save-system', JSON.stringify({
-      items: state.items,
-      expandedFolders: Array.from(state.expandedFolders),
-      activeProfile: state.activeProfile
-    }));
+    try {
+      localStorage.setItem('allog-save-system', JSON.stringify({
+        items: state.items,
+        expandedFolders: Array.from(state.expandedFolders),
+        activeProfile: state.activeProfile
+      }));
+    } catch (error) {
+      // Large monitoring sessions can exceed the storage quota
+      console.error('SaveSystem: Failed to save state to localStorage:', error);
+    }
+    // Comparison nodes double as watch rules
+    const watchRules = JSON.stringify(compileWatchRules(state.items));
+    if (watchRulesRef.current !== null && watchRules !== watchRulesRef.current) {
+      window.dispatchEvent(new CustomEvent('watch-rules-updated'));
+    }
+    watchRulesRef.current = watchRules;
+    window.dispatchEvent(new CustomEvent('issue-resolutions-updated'));
   }, [state.items, state.expandedFolders, state.activeProfile]);
 
   // Close context menu when clicking outside
@@ -1186,11 +1220,85 @@ const SaveSystem = forwardRef<SaveSystemRef, SaveSystemProps>(({
     return false;
   }, [state.items, state.expandedFolders]);
 
-  // Expose functions through ref
-  useImperativeHandle(ref, () => ({
-    createHighlightFromData,
-    removeHighlightForElement
-  }), [createHighlightFromData, removeHighlightForElement]);
+  // Save a monitoring snapshot under the default monitoring sessions folder
+  const createMonitoringSession = useCallback((session: {
+    name: string;
+    description: string;
+    tags: string[];
+    data: any;
+  }) => {
+    const sessionsFolder = state.items.find(item =>
+      item.type === 'monitoring-session' && item.parentId === 'default-profile'
+    );
+    const timestamp = new Date().toISOString();
+
+    const sessionItem: SaveFolder = {
+      id: `monitoring-session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: session.name,
+      type: 'monitoring-session',
+      parentId: sessionsFolder ? sessionsFolder.id : 'default-profile',
+      metadata: {
+        description: session.description,
+        tags: session.tags,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        data: session.data
+      }
+    };
+
+    setState(prev => {
+      const expandedFolders = new Set(prev.expandedFolders);
+      if (sessionsFolder) expandedFolders.add(sessionsFolder.id);
+      return {
+        ...prev,
+        items: [...prev.items, sessionItem],
+        expandedFolders,
+        selectedItem: sessionItem
+      };
+    });
+
+    return sessionItem;
+  }, [state.items]);
+
+  // Save a comparison workspace setup under the default comparison folder
+  const createComparison = useCallback((comparison: {
+    name: string;
+    description: string;
+    tags: string[];
+    data: any;
+  }) => {
+    const comparisonFolder = state.items.find(item =>
+      item.type === 'comparison' && item.parentId === 'default-profile'
+    );
+    const timestamp = new Date().toISOString();
+
+    const comparisonItem: SaveNode = {
+      id: `comparison-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: comparison.name,
+      type: 'comparison',
+      parentId: comparisonFolder ? comparisonFolder.id : 'default-profile',
+      metadata: {
+        description: comparison.description,
+        tags: comparison.tags,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        data: comparison.data
+      }
+    };
+
+    setState(prev => {
+      const expandedFolders = new Set(prev.expandedFolders);
+      if (comparisonFolder) expandedFolders.add(comparisonFolder.id);
+      return {
+        ...prev,
+        items: [...prev.items, comparisonItem],
+        expandedFolders,
+        selectedItem: comparisonItem
+      };
+    });
+
+    return comparisonItem;
+  }, [state.items]);
 
   // Create profile settings for a profile
   const createProfileSettings = useCallback((profileId: string, profileName: string) => {
@@ -1246,6 +1354,50 @@ const SaveSystem = forwardRef<SaveSystemRef, SaveSystemProps>(({
     return profileSettings;
   }, []);
 
+  // Issue resolutions live in the active profile's settings
+  const setIssueResolution = useCallback((fingerprint: string, resolvedAt: string | null) => {
+    setState(prev => {
+      const profile = prev.activeProfile?.type === 'profile'
+        ? prev.activeProfile
+        : prev.items.find(item => item.id === 'default-profile');
+      if (!profile) return prev;
+
+      const settingsId = `profile-settings-${profile.id}`;
+      const existing = prev.items.find(item => item.id === settingsId) as SaveNode | undefined;
+      const settings = existing || createProfileSettings(profile.id, profile.name);
+      const resolvedIssues = { ...(settings.metadata?.data?.resolvedIssues || {}) };
+      if (resolvedAt) {
+        resolvedIssues[fingerprint] = resolvedAt;
+      } else {
+        delete resolvedIssues[fingerprint];
+      }
+
+      const updated: SaveNode = {
+        ...settings,
+        metadata: {
+          ...settings.metadata!,
+          updatedAt: new Date().toISOString(),
+          data: { ...settings.metadata?.data, resolvedIssues }
+        }
+      };
+      return {
+        ...prev,
+        items: existing
+          ? prev.items.map(item => (item.id === settingsId ? updated : item))
+          : [...prev.items, updated]
+      };
+    });
+  }, [createProfileSettings]);
+
+  // Expose functions through ref
+  useImperativeHandle(ref, () => ({
+    createHighlightFromData,
+    removeHighlightForElement,
+    createMonitoringSession,
+    createComparison,
+    setIssueResolution
+  }), [createHighlightFromData, removeHighlightForElement, createMonitoringSession, createComparison, setIssueResolution]);
+
   // Create a new profile
   const createNewProfile = useCallback(() => {
     const profileName = `New Profile ${state.items.filter(item => item.type === 'profile').length + 1}`;
@@ -2284,9 +2436,20 @@ const ComparisonEditor: React.FC<{ item: SaveNode, onUpdate: (item: SaveNode) =>
   const [operation, setOperation] = useState(item.metadata?.comparisonData?.operation || '');
   const [leftOperand, setLeftOperand] = useState(JSON.stringify(item.metadata?.comparisonData?.leftOperand || ''));
   const [rightOperand, setRightOperand] = useState(JSON.stringify(item.metadata?.comparisonData?.rightOperand || ''));
+  const [enabled, setEnabled] = useState(item.metadata?.comparisonData?.enabled !== false);
+  const [validationError, setValidationError] = useState<string | null>(null);
 
   const handleUpdate = useCallback(() => {
     try {
+      const comparisonData = {
+        operation,
+        leftOperand: JSON.parse(leftOperand),
+        rightOperand: JSON.parse(rightOperand),
+        enabled,
+        result: null
+      };
+      const { error } = compileWatchRule({ id: item.id, name: item.name, metadata: { comparisonData } });
+      setValidationError(error);
       const updatedItem = {
         ...item,
         metadata: {
@@ -2294,24 +2457,22 @@ const ComparisonEditor: React.FC<{ item: SaveNode, onUpdate: (item: SaveNode) =>
           createdAt: item.metadata?.createdAt || new Date().toISOString(),
           updatedAt: new Date().toISOString(),
           comparisonData: {
-            operation,
-            leftOperand: JSON.parse(leftOperand),
-            rightOperand: JSON.parse(rightOperand),
-            isValid: true, // This would be validated
-            result: null // This would be calculated
+            ...comparisonData,
+            isValid: error === null,
+            error: error || undefined
           }
         }
       };
       onUpdate(updatedItem);
     } catch (error) {
-      console.error('Invalid JSON in comparison operands:', error);
+      setValidationError('Operands must be valid JSON, e.g. "cart.total" and 1000');
     }
-  }, [item, operation, leftOperand, rightOperand, onUpdate]);
+  }, [item, operation, leftOperand, rightOperand, enabled, onUpdate]);
 
   // Auto-update when values change
   useEffect(() => {
     handleUpdate();
-  }, [operation, leftOperand, rightOperand, handleUpdate]);
+  }, [operation, leftOperand, rightOperand, enabled, handleUpdate]);
 
   return (
     <div className="editor-section">
@@ -2321,12 +2482,9 @@ const ComparisonEditor: React.FC<{ item: SaveNode, onUpdate: (item: SaveNode) =>
           <label>Operation:</label>
           <select value={operation} onChange={(e) => setOperation(e.target.value)}>
             <option value="">Select operation...</option>
-            <option value="equals">Equals</option>
-            <option value="not-equals">Not Equals</option>
-            <option value="greater-than">Greater Than</option>
-            <option value="less-than">Less Than</option>
-            <option value="contains">Contains</option>
-            <option value="matches">Matches Pattern</option>
+            {WATCH_OPERATIONS.map(op => (
+              <option key={op.value} value={op.value}>{op.label}</option>
+            ))}
           </select>
         </div>
         <div>
@@ -2334,7 +2492,7 @@ const ComparisonEditor: React.FC<{ item: SaveNode, onUpdate: (item: SaveNode) =>
           <textarea
             value={leftOperand}
             onChange={(e) => setLeftOperand(e.target.value)}
-            placeholder="Enter left operand..."
+            placeholder='Monitored value, e.g. "cart.total", "checkout:auth.state" or "fetchUser.duration"'
             rows={2}
           />
         </div>
@@ -2347,6 +2505,11 @@ const ComparisonEditor: React.FC<{ item: SaveNode, onUpdate: (item: SaveNode) =>
             rows={2}
           />
         </div>
+        <label className="comparison-watch-toggle">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          Watch live monitoring updates and alert when this fires
+        </label>
+        {validationError && <div className="comparison-error">{validationError}</div>}
       </div>
     </div>
   );
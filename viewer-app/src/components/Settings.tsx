@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import ParserRulesPanel from './ParserRulesPanel';
+import { AllogApiClient } from '../lib/allog-api-client';
 import '../styles/Settings.css';
 
 interface SettingsProps {
@@ -8,6 +10,8 @@ interface SettingsProps {
   monitoringRefreshInterval?: number;
   onMonitoringAutoRefreshChange?: (enabled: boolean) => void;
   onMonitoringRefreshIntervalChange?: (interval: number) => void;
+  // Needed for the Parsers tab
+  apiClient?: AllogApiClient;
 }
 
 interface RecipientInfo {
@@ -61,7 +65,8 @@ const Settings: React.FC<SettingsProps> = ({
   monitoringAutoRefresh: propMonitoringAutoRefresh = true,
   monitoringRefreshInterval: propMonitoringRefreshInterval = 5000,
   onMonitoringAutoRefreshChange,
-  onMonitoringRefreshIntervalChange
+  onMonitoringRefreshIntervalChange,
+  apiClient
 }) => {
   const [recipients, setRecipients] = useState<RecipientInfo[]>([
     {
@@ -152,7 +157,7 @@ const Settings: React.FC<SettingsProps> = ({
   });
   
   // Data Management States
-  const [activeTab, setActiveTab] = useState<'recipients' | 'database' | 'archives' | 'maintenance'>('recipients');
+  const [activeTab, setActiveTab] = useState<'recipients' | 'database' | 'archives' | 'maintenance' | 'parsers'>('recipients');
   const [databaseConfig, setDatabaseConfig] = useState<DatabaseConfig | null>(null);
   const [databaseStats, setDatabaseStats] = useState<DatabaseStats | null>(null);
   const [archiveInfo, setArchiveInfo] = useState<ArchiveInfo | null>(null);
@@ -404,6 +409,14 @@ const Settings: React.FC<SettingsProps> = ({
           >
             🔧 Maintenance
           </button>
+          {apiClient && (
+            <button 
+              className={`tab-btn ${activeTab === 'parsers' ? 'active' : ''}`}
+              onClick={() => setActiveTab('parsers')}
+            >
+              🧩 Parsers
+            </button>
+          )}
         </div>
 
         <div className="settings-content">
@@ -698,6 +711,14 @@ const Settings: React.FC<SettingsProps> = ({
             </>
           )}
 
+          {/* Parsers Tab */}
+          {activeTab === 'parsers' && apiClient && (
+            <div className="settings-section">
+              <h3>🧩 Parser Rules</h3>
+              <ParserRulesPanel apiClient={apiClient} />
+            </div>
+          )}
+
           {/* Auto-Refresh Settings (always show) */}
           <div className="settings-section">
             <h3>🔄 Auto-Refresh Settings</h3>
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MonitoringHistoryEntry } from '../lib/allog-api-client';
+import { getHistoryKind, getStateLabel, getStateColor, getNumericExtent } from '../utils/MonitoringHistory';
+import '../styles/MonitoringHistory.css';
+
+/**
+ * Sparkline - inline trend of a monitored variable's recent values, a stepped
+ * line for numbers and a state band otherwise
+ */
+
+interface SparklineProps {
+  entries: MonitoringHistoryEntry[];
+  width?: number;
+  height?: number;
+}
+
+export default function Sparkline({ entries, width = 80, height = 18 }: SparklineProps) {
+  if (entries.length < 2) {
+    return <span className="sparkline-empty">—</span>;
+  }
+
+  const start = entries[0].timestamp;
+  const span = Math.max(1, entries[entries.length - 1].timestamp - start);
+  const toX = (time: number) => (time - start) / span * width;
+  const title = `${entries.length} values: ${entries.map(entry => getStateLabel(entry.value)).slice(-5).join(' → ')}`;
+
+  if (getHistoryKind(entries) === 'numeric') {
+    const extent = getNumericExtent(entries);
+    const toY = (value: number) => height - 1 - (value - extent[0]) / (extent[1] - extent[0]) * (height - 2);
+    let path = '';
+    entries.forEach((entry, index) => {
+      path += index === 0 ? `M${toX(entry.timestamp)},${toY(entry.value)}` : `H${toX(entry.timestamp)}V${toY(entry.value)}`;
+    });
+
+    return (
+      <svg className="sparkline" width={width} height={height}>
+        <title>{title}</title>
+        <path className="sparkline-line" d={path} />
+      </svg>
+    );
+  }
+
+  return (
+    <svg className="sparkline" width={width} height={height}>
+      <title>{title}</title>
+      {entries.map((entry, index) => {
+        const x = toX(entry.timestamp);
+        const next = entries[index + 1];
+        return (
+          <rect
+            key={entry.id}
+            x={Math.min(x, width - 2)}
+            y={2}
+            width={next ? Math.max(1, toX(next.timestamp) - x) : 2}
+            height={height - 4}
+            fill={getStateColor(getStateLabel(entry.value))}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState, useMemo } from 'react';
+import { diffValues, summarizeDiff, DiffChange } from '../utils/StructuralDiff';
+import { toJsonPath } from './JsonTree';
+import '../styles/StructuralDiff.css';
+
+/**
+ * StructuralDiffView - added, removed, changed and moved paths between two
+ * values, as a unified list or side by side
+ */
+
+type DiffLayout = 'unified' | 'split';
+
+interface StructuralDiffViewProps {
+  before: any;
+  after: any;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+// Changes rendered before a "show all" button
+const CHANGE_PAGE_SIZE = 200;
+
+const KIND_SYMBOLS: Record<DiffChange['kind'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  moved: '↔'
+};
+
+const formatDiffValue = (value: any): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return '[Complex Object]';
+  }
+};
+
+export default function StructuralDiffView({ before, after, beforeLabel = 'Before', afterLabel = 'After' }: StructuralDiffViewProps) {
+  const [layout, setLayout] = useState<DiffLayout>('unified');
+  const [showAll, setShowAll] = useState(false);
+
+  const changes = useMemo(() => diffValues(before, after), [before, after]);
+  const summary = summarizeDiff(changes);
+  const shown = showAll ? changes : changes.slice(0, CHANGE_PAGE_SIZE);
+
+  const renderSide = (change: DiffChange, side: 'before' | 'after') => {
+    const present = side === 'before' ? change.kind !== 'added' : change.kind !== 'removed';
+    if (!present) return <div className="diff-side diff-side-empty" />;
+    // Moves show where the element went, not its (unchanged) content
+    if (change.kind === 'moved') {
+      return <div className="diff-side">[{side === 'before' ? change.fromIndex : change.toIndex}]</div>;
+    }
+    return (
+      <pre className={`diff-side diff-side-${side}`}>
+        {formatDiffValue(side === 'before' ? change.before : change.after)}
+      </pre>
+    );
+  };
+
+  const renderUnified = (change: DiffChange) => (
+    <div className="diff-unified-body">
+      {change.kind === 'moved' && (
+        <span className="diff-move">moved from [{change.fromIndex}] to [{change.toIndex}]</span>
+      )}
+      {(change.kind === 'removed' || change.kind === 'changed') && (
+        <pre className="diff-line diff-line-before">- {formatDiffValue(change.before)}</pre>
+      )}
+      {(change.kind === 'added' || change.kind === 'changed') && (
+        <pre className="diff-line diff-line-after">+ {formatDiffValue(change.after)}</pre>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="structural-diff">
+      <div className="diff-toolbar">
+        <span className="diff-summary">
+          <span className="diff-count-added">+{summary.added}</span>
+          <span className="diff-count-removed">−{summary.removed}</span>
+          <span className="diff-count-changed">~{summary.changed}</span>
+          <span className="diff-count-moved">↔{summary.moved}</span>
+        </span>
+        <div className="diff-layout-toggle">
+          <button className={layout === 'unified' ? 'active' : ''} onClick={() => setLayout('unified')}>
+            Unified
+          </button>
+          <button className={layout === 'split' ? 'active' : ''} onClick={() => setLayout('split')}>
+            Side by side
+          </button>
+        </div>
+      </div>
+
+      {changes.length === 0 && <div className="diff-empty">No differences</div>}
+
+      {changes.length > 0 && layout === 'split' && (
+        <div className="diff-split-header">
+          <span>Path</span>
+          <span>{beforeLabel}</span>
+          <span>{afterLabel}</span>
+        </div>
+      )}
+
+      <div className="diff-changes">
+        {shown.map((change, index) => (
+          <div key={`${toJsonPath(change.path)}-${change.kind}-${index}`} className={`diff-change diff-${change.kind} diff-layout-${layout}`}>
+            <div className="diff-path" title={toJsonPath(change.path)}>
+              <span className="diff-kind">{KIND_SYMBOLS[change.kind]}</span>
+              {toJsonPath(change.path)}
+            </div>
+            {layout === 'unified'
+              ? renderUnified(change)
+              : <>
+                  {renderSide(change, 'before')}
+                  {renderSide(change, 'after')}
+                </>}
+          </div>
+        ))}
+      </div>
+
+      {!showAll && changes.length > CHANGE_PAGE_SIZE && (
+        <button className="diff-show-all" onClick={() => setShowAll(true)}>
+          Show all {changes.length} changes
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { MonitoringSnapshot, getChangeTimes } from '../utils/MonitoringSnapshot';
+import { formatHistoryTime } from '../utils/MonitoringHistory';
+import '../styles/TimeTravel.css';
+
+/**
+ * TimeTravelBar - slider over the kept monitoring history; every position
+ * shows the state at that moment
+ */
+
+interface TimeTravelBarProps {
+  snapshot: MonitoringSnapshot;
+  time: number;
+  // Name of the saved session being viewed, if it is one
+  sessionName?: string;
+  onTimeChange: (time: number) => void;
+  onSave?: () => void;
+  onExit: () => void;
+}
+
+export default function TimeTravelBar({ snapshot, time, sessionName, onTimeChange, onSave, onExit }: TimeTravelBarProps) {
+  const changeTimes = useMemo(() => getChangeTimes(snapshot.series), [snapshot]);
+
+  const start = changeTimes.length > 0 ? changeTimes[0] : snapshot.capturedAt;
+  const end = Math.max(snapshot.capturedAt, start);
+
+  // Changes up to and including the current position
+  let changesSoFar = 0;
+  while (changesSoFar < changeTimes.length && changeTimes[changesSoFar] <= time) changesSoFar++;
+
+  const previousChange = changesSoFar >= 2 ? changeTimes[changesSoFar - 2] : null;
+  const nextChange = changesSoFar < changeTimes.length ? changeTimes[changesSoFar] : null;
+
+  return (
+    <div className={`time-travel-bar ${sessionName ? 'time-travel-saved' : ''}`}>
+      <span className="time-travel-label">
+        {sessionName ? `📊 ${sessionName}` : '⏱ Time travel'}
+      </span>
+      <button
+        className="time-travel-btn"
+        onClick={() => previousChange !== null && onTimeChange(previousChange)}
+        disabled={previousChange === null}
+        title="Previous change"
+      >
+        ⏮
+      </button>
+      <input
+        type="range"
+        className="time-travel-slider"
+        min={start}
+        max={end}
+        value={Math.min(Math.max(time, start), end)}
+        onChange={(e) => onTimeChange(Number(e.target.value))}
+        disabled={end === start}
+      />
+      <button
+        className="time-travel-btn"
+        onClick={() => nextChange !== null && onTimeChange(nextChange)}
+        disabled={nextChange === null}
+        title="Next change"
+      >
+        ⏭
+      </button>
+      <span className="time-travel-time" title={new Date(time).toLocaleString()}>
+        {formatHistoryTime(time, true)}
+      </span>
+      <span className="time-travel-count">
+        {changesSoFar}/{changeTimes.length} changes
+      </span>
+      {onSave && (
+        <button className="time-travel-btn" onClick={onSave} title="Save the state at this moment as a monitoring session">
+          💾 Save snapshot
+        </button>
+      )}
+      <button className="time-travel-btn" onClick={onExit}>
+        {sessionName ? 'Close' : 'Back to live'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { AllogApiClient, AllogLogEntry, TraceResult, TraceSummary } from '../lib/allog-api-client';
+import { buildDistributedTrace, formatTraceDuration, TraceItem, TraceSpanRow } from '../utils/DistributedTrace';
+import viewerConfig from '../config/config-loader';
+import '../styles/TracePage.css';
+
+/**
+ * TracePage - follows one request across sources: every log and monitoring
+ * entry sharing a trace id, as a waterfall of spans
+ */
+
+interface TracePageProps {
+  apiClient: AllogApiClient;
+  // Trace to open, e.g. from a log's details
+  traceId?: string | null;
+  onTraceChange?: (traceId: string | null) => void;
+  onSelectLog?: (log: AllogLogEntry) => void;
+}
+
+const TRACE_LIST_LIMIT = 100;
+const INDENT_PX = 14;
+
+const formatClock = (time: number): string => {
+  const date = new Date(time);
+  return `${date.toLocaleTimeString()}.${String(date.getMilliseconds() + 1000).slice(1)}`;
+};
+
+export default function TracePage({ apiClient, traceId, onTraceChange, onSelectLog }: TracePageProps) {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [listError, setListError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(traceId || null);
+  const [result, setResult] = useState<TraceResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [traceError, setTraceError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    if (traceId) setSelectedId(traceId);
+  }, [traceId]);
+
+  const loadTraces = useCallback(async () => {
+    try {
+      setTraces(await apiClient.getTraces(TRACE_LIST_LIMIT));
+      setListError(null);
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Failed to load traces');
+    }
+  }, [apiClient]);
+
+  const loadTrace = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      setResult(await apiClient.getTrace(id));
+      setTraceError(null);
+    } catch (error) {
+      setResult(null);
+      setTraceError(error instanceof Error ? error.message : 'Failed to load trace');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiClient]);
+
+  useEffect(() => {
+    loadTraces();
+  }, [loadTraces]);
+
+  useEffect(() => {
+    setExpanded({});
+    if (selectedId) {
+      loadTrace(selectedId);
+    } else {
+      setResult(null);
+    }
+  }, [selectedId, loadTrace]);
+
+  const selectTrace = (id: string | null) => {
+    setSelectedId(id);
+    onTraceChange?.(id);
+  };
+
+  const refresh = () => {
+    loadTraces();
+    if (selectedId) loadTrace(selectedId);
+  };
+
+  const trace = useMemo(() => (result ? buildDistributedTrace(result) : null), [result]);
+
+  const shownTraces = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return traces;
+    return traces.filter(summary =>
+      summary.traceId.toLowerCase().indexOf(query) !== -1 ||
+      String(summary.rootMessage || '').toLowerCase().indexOf(query) !== -1 ||
+      summary.sources.some(source => source.toLowerCase().indexOf(query) !== -1)
+    );
+  }, [traces, filter]);
+
+  const renderTimeline = (row: TraceSpanRow, start: number, span: number) => {
+    const toPercent = (time: number) => (time - start) / span * 100;
+    return (
+      <div className="trace-timeline">
+        <div
+          className={`trace-span-bar ${row.errorCount > 0 ? 'trace-span-error' : ''}`}
+          style={{
+            left: `${toPercent(row.start)}%`,
+            width: `${Math.max(0.3, toPercent(row.end) - toPercent(row.start))}%`,
+            background: viewerConfig.getScriptColor(row.sources[0])
+          }}
+        />
+        {row.items.map(item => item.kind === 'call' ? (
+          <div
+            key={item.id}
+            className={`trace-call-bar ${item.error ? 'trace-call-error' : ''}`}
+            style={{ left: `${toPercent(item.start)}%`, width: `${Math.max(0.3, toPercent(item.end) - toPercent(item.start))}%` }}
+            title={`${item.label} · ${formatTraceDuration(item.end - item.start)}`}
+          />
+        ) : (
+          <div
+            key={item.id}
+            className="trace-point"
+            style={{
+              left: `${toPercent(item.start)}%`,
+              background: item.level ? viewerConfig.getLogLevelColor(item.level) : '#c586c0'
+            }}
+            title={`${formatClock(item.start)} ${item.label}`}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const renderItem = (item: TraceItem, traceStart: number) => (
+    <div
+      key={item.id}
+      className={`trace-item trace-item-${item.kind} ${item.log ? 'clickable' : ''}`}
+      onClick={() => item.log && onSelectLog?.(item.log)}
+    >
+      <span className="trace-item-offset">+{formatTraceDuration(item.start - traceStart)}</span>
+      <span className="trace-item-source" style={{ color: viewerConfig.getScriptColor(item.sourceId) }}>{item.sourceId}</span>
+      {item.level
+        ? <span className="trace-item-level" style={{ color: viewerConfig.getLogLevelColor(item.level) }}>{item.level}</span>
+        : <span className="trace-item-level">{item.kind === 'call' ? 'call' : item.entry?.type}</span>}
+      <span className={`trace-item-label ${item.error ? 'trace-item-error' : ''}`}>
+        {item.label}
+        {item.kind === 'call' && ` · ${formatTraceDuration(item.end - item.start)}`}
+        {item.kind === 'monitoring' && item.entry && ` = ${JSON.stringify(item.entry.value)}`}
+      </span>
+    </div>
+  );
+
+  const renderWaterfall = () => {
+    if (!selectedId) {
+      return <div className="trace-empty">Select a trace, or open one from a log's details</div>;
+    }
+    if (traceError) {
+      return <div className="trace-error">Failed to load trace: {traceError}</div>;
+    }
+    if (!trace || trace.rows.length === 0) {
+      return <div className="trace-empty">{loading ? 'Loading…' : `No entries found for trace ${selectedId}`}</div>;
+    }
+
+    const span = Math.max(1, trace.end - trace.start);
+    return (
+      <>
+        <div className="trace-header">
+          <span className="trace-header-id">{trace.traceId}</span>
+          <span>{formatTraceDuration(trace.end - trace.start)}</span>
+          <span>{trace.rows.length} spans</span>
+          <span className="trace-header-sources">
+            {trace.sources.map(source => (
+              <span key={source} className="trace-source-chip" style={{ borderColor: viewerConfig.getScriptColor(source) }}>
+                {source}
+              </span>
+            ))}
+          </span>
+        </div>
+        <div className="trace-rows">
+          <div className="trace-row trace-row-header">
+            <span>Span</span>
+            <div className="trace-axis">
+              <span>{formatClock(trace.start)}</span>
+              <span>+{formatTraceDuration(span / 2)}</span>
+              <span>+{formatTraceDuration(span)}</span>
+            </div>
+          </div>
+          {trace.rows.map(row => (
+            <React.Fragment key={row.spanId}>
+              <div
+                className={`trace-row ${expanded[row.spanId] ? 'expanded' : ''}`}
+                onClick={() => setExpanded(prev => ({ ...prev, [row.spanId]: !prev[row.spanId] }))}
+              >
+                <span className="trace-span-label" style={{ paddingLeft: row.depth * INDENT_PX }}>
+                  <span className="trace-toggle">{expanded[row.spanId] ? '▾' : '▸'}</span>
+                  <span className="trace-span-source" style={{ color: viewerConfig.getScriptColor(row.sources[0]) }}>
+                    {row.sources.join(', ')}
+                  </span>
+                  <span className="trace-span-name" title={row.synthetic ? row.label : `${row.label}\nspan ${row.spanId}`}>{row.label}</span>
+                  {row.missingParent && <span className="trace-span-note" title={`Parent span ${row.parentSpanId} has no entries`}>orphan</span>}
+                  {row.errorCount > 0 && <span className="trace-span-errors">{row.errorCount} ✖</span>}
+                </span>
+                {renderTimeline(row, trace.start, span)}
+              </div>
+              {expanded[row.spanId] && (
+                <div className="trace-items" style={{ paddingLeft: row.depth * INDENT_PX + 18 }}>
+                  {row.items.map(item => renderItem(item, trace.start))}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="trace-page">
+      <div className="trace-list">
+        <div className="trace-list-toolbar">
+          <input
+            type="text"
+            placeholder="Trace id, message or source..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            onKeyDown={(e) => {
+              // Open ids that have scrolled out of the recent list
+              if (e.key === 'Enter' && filter.trim()) selectTrace(filter.trim());
+            }}
+          />
+          <button onClick={refresh} title="Reload traces">↻</button>
+        </div>
+        {listError && <div className="trace-error">Failed to load traces: {listError}</div>}
+        {!listError && shownTraces.length === 0 && (
+          <div className="trace-empty">
+            {traces.length === 0 ? 'No traced entries yet. Send logs with a traceId to correlate them.' : 'No traces match'}
+          </div>
+        )}
+        {shownTraces.map(summary => (
+          <div
+            key={summary.traceId}
+            className={`trace-list-item ${summary.traceId === selectedId ? 'selected' : ''}`}
+            onClick={() => selectTrace(summary.traceId)}
+          >
+            <div className="trace-list-message">
+              {summary.errorCount > 0 && <span className="trace-span-errors">{summary.errorCount} ✖</span>}
+              {summary.rootMessage || summary.traceId}
+            </div>
+            <div className="trace-list-meta">
+              {formatClock(summary.start)} · {formatTraceDuration(summary.end - summary.start)} ·{' '}
+              {summary.logCount + summary.monitoringCount} entries · {summary.sources.join(', ')}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="trace-waterfall">
+        {renderWaterfall()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from 'react';
+import '../styles/VirtualLogList.css';
+
+/**
+ * VirtualLogList - windowed list for large log buffers
+ *
+ * Only the rows inside the viewport (plus overscan) are mounted. Row heights
+ * are measured after render so expanded entries can be any height, and the
+ * first visible row stays anchored when entries are prepended above it.
+ * At the head (scrolled to the top) the list follows new entries instead.
+ */
+
+interface VirtualLogListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedRowHeight?: number;
+  overscan?: number;
+  className?: string;
+  emptyState?: React.ReactNode;
+  footer?: React.ReactNode;
+  onHeadChange?: (atHead: boolean) => void;
+  // Scrolls back to the head whenever this value changes
+  scrollToHeadSignal?: number;
+}
+
+interface ScrollAnchor {
+  key: string;
+  offset: number;
+}
+
+// Index of the last row whose top is at or above the given position
+const findRowAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+export default function VirtualLogList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedRowHeight = 34,
+  overscan = 8,
+  className = '',
+  emptyState,
+  footer,
+  onHeadChange,
+  scrollToHeadSignal
+}: VirtualLogListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowElements = useRef<Map<string, HTMLDivElement>>(new Map());
+  const measuredHeights = useRef<Map<string, number>>(new Map());
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  const keys = useMemo(() => items.map(getKey), [items, getKey]);
+
+  // Top offset of every row, plus the total height as the last element.
+  // measureVersion invalidates it when a row's measured height changes.
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    let top = 0;
+    for (let i = 0; i < keys.length; i++) {
+      result[i] = top;
+      top += measuredHeights.current.get(keys[i]) || estimatedRowHeight;
+    }
+    result[keys.length] = top;
+    return result;
+  }, [keys, estimatedRowHeight, measureVersion]);
+
+  const keyIndex = useMemo(() => {
+    const index = new Map<string, number>();
+    keys.forEach((key, i) => index.set(key, i));
+    return index;
+  }, [keys]);
+
+  const totalHeight = offsets[keys.length];
+  const firstVisible = keys.length > 0 ? findRowAt(offsets, scrollTop) : 0;
+  const lastVisible = keys.length > 0 ? findRowAt(offsets, scrollTop + viewportHeight) : -1;
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(keys.length - 1, lastVisible + overscan);
+
+  // Remember which row is at the top of the viewport, and how far into it we are
+  const updateAnchor = useCallback((top: number) => {
+    if (top <= 0 || keys.length === 0) {
+      anchorRef.current = null;
+      return;
+    }
+    const index = findRowAt(offsets, top);
+    anchorRef.current = { key: keys[index], offset: top - offsets[index] };
+  }, [keys, offsets]);
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
+    updateAnchor(container.scrollTop);
+    if (onHeadChange) {
+      onHeadChange(container.scrollTop <= estimatedRowHeight / 2);
+    }
+  }, [updateAnchor, onHeadChange, estimatedRowHeight]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (scrollToHeadSignal === undefined || !container) return;
+    anchorRef.current = null;
+    container.scrollTop = 0;
+    setScrollTop(0);
+  }, [scrollToHeadSignal]);
+
+  // Track viewport size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => setViewportHeight(container.clientHeight);
+    updateSize();
+
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(updateSize);
+      observer.observe(container);
+      return () => observer.disconnect();
+    }
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  // Measure mounted rows after every render; expansion changes row height
+  useLayoutEffect(() => {
+    let changed = false;
+    rowElements.current.forEach((element, key) => {
+      const height = element.offsetHeight;
+      if (height > 0 && measuredHeights.current.get(key) !== height) {
+        measuredHeights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      setMeasureVersion(version => version + 1);
+    }
+  });
+
+  // Keep the anchored row in place when rows are prepended or re-measured above it
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    if (!container || !anchor) return;
+
+    const index = keyIndex.get(anchor.key);
+    if (index === undefined) {
+      anchorRef.current = null;
+      return;
+    }
+
+    const target = offsets[index] + anchor.offset;
+    if (Math.abs(container.scrollTop - target) > 1) {
+      container.scrollTop = target;
+      setScrollTop(target);
+    }
+  }, [offsets, keyIndex]);
+
+  // Forget heights of rows that are no longer in the list
+  useEffect(() => {
+    if (measuredHeights.current.size <= keys.length * 2) return;
+    const pruned = new Map<string, number>();
+    keys.forEach(key => {
+      const height = measuredHeights.current.get(key);
+      if (height !== undefined) pruned.set(key, height);
+    });
+    measuredHeights.current = pruned;
+  }, [keys]);
+
+  const setRowElement = (key: string) => (element: HTMLDivElement | null) => {
+    if (element) {
+      rowElements.current.set(key, element);
+    } else {
+      rowElements.current.delete(key);
+    }
+  };
+
+  const rows: React.ReactNode[] = [];
+  for (let i = start; i <= end; i++) {
+    const key = keys[i];
+    rows.push(
+      <div key={key} ref={setRowElement(key)} className="virtual-log-row">
+        {renderItem(items[i], i)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={`virtual-log-list ${className}`} onScroll={handleScroll}>
+      {items.length === 0 ? (
+        emptyState
+      ) : (
+        <div className="virtual-log-spacer" style={{ height: totalHeight }}>
+          <div className="virtual-log-window" style={{ transform: `translateY(${offsets[start] || 0}px)` }}>
+            {rows}
+          </div>
+        </div>
+      )}
+      {footer}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { WatchAlert } from '../hooks/useWatchRules';
+import '../styles/WatchAlerts.css';
+
+/**
+ * WatchAlerts - toast stack for fired watch rules. While there are watches
+ * but no alerts yet, only the offer to enable desktop notifications shows,
+ * so the first alert can already reach the desktop.
+ */
+
+interface WatchAlertsProps {
+  alerts: WatchAlert[];
+  ruleCount: number;
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}
+
+// Toasts shown at once; the rest are summarised
+const VISIBLE_ALERTS = 4;
+
+const formatValue = (value: any): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+export default function WatchAlerts({ alerts, ruleCount, onDismiss, onClear }: WatchAlertsProps) {
+  const [permission, setPermission] = useState<string>(
+    typeof Notification !== 'undefined' ? Notification.permission : 'unsupported'
+  );
+
+  const canRequestPermission = permission === 'default';
+  if (alerts.length === 0 && !(ruleCount > 0 && canRequestPermission)) return null;
+
+  const requestPermission = () => {
+    Notification.requestPermission().then(setPermission);
+  };
+
+  return (
+    <div className="watch-alerts">
+      {alerts.slice(0, VISIBLE_ALERTS).map(alert => (
+        <div key={alert.id} className="watch-alert">
+          <div className="watch-alert-header">
+            <span className="watch-alert-name">🔔 {alert.ruleName}</span>
+            <span className="watch-alert-time">{new Date(alert.firedAt).toLocaleTimeString()}</span>
+            <button className="watch-alert-dismiss" onClick={() => onDismiss(alert.id)} title="Dismiss">
+              ×
+            </button>
+          </div>
+          <div className="watch-alert-rule">{alert.description}</div>
+          <div className="watch-alert-value">
+            {alert.entry.scriptId} · {alert.entry.name} = {formatValue(alert.value)}
+          </div>
+        </div>
+      ))}
+      <div className="watch-alerts-footer">
+        {alerts.length > VISIBLE_ALERTS && <span>+{alerts.length - VISIBLE_ALERTS} more</span>}
+        <span>{ruleCount} active watch{ruleCount === 1 ? '' : 'es'}</span>
+        {canRequestPermission && (
+          <button onClick={requestPermission}>Enable desktop notifications</button>
+        )}
+        {alerts.length > 0 && <button onClick={onClear}>Clear all</button>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect, useMemo } from 'react';
+import { createAllogSocket, AllogSocket, SocketStatus } from '../lib/allog-socket';
+
+/**
+ * Owns an AllogSocket for the lifetime of the component and exposes its
+ * connection status as React state
+ */
+export function useAllogSocket(url: string): { socket: AllogSocket; status: SocketStatus } {
+  const socket = useMemo(() => createAllogSocket({ url }), [url]);
+  const [status, setStatus] = useState<SocketStatus>(socket.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = socket.onStatus(setStatus);
+    socket.connect();
+    return () => {
+      unsubscribe();
+      socket.close();
+    };
+  }, [socket]);
+
+  return { socket, status };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import viewerConfig from '../config/config-loader';
+import { AllogApiClient, AllogLogEntry } from '../lib/allog-api-client';
+
+/**
+ * The most recent logs for the Patterns and Issues views, queried on their
+ * own so that the Logs view's filters and loaded pages don't change what they
+ * count. Fetched while `active`, again when `q` or `includeInternal` change,
+ * and every `refreshInterval` ms when one is given.
+ */
+
+interface AnalysisLogsOptions {
+  // Narrows what the server returns, e.g. to error logs
+  q?: string;
+  includeInternal: boolean;
+  active: boolean;
+  refreshInterval?: number | null;
+}
+
+export function useAnalysisLogs(
+  apiClient: AllogApiClient,
+  { q, includeInternal, active, refreshInterval }: AnalysisLogsOptions
+): { logs: AllogLogEntry[]; loading: boolean; error: string | null; refresh: () => void } {
+  const [logs, setLogs] = useState<AllogLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may set state
+  const requestRef = useRef(0);
+
+  const refresh = useCallback(() => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    apiClient.queryLogs({
+      q,
+      includeInternal,
+      order: 'desc',
+      limit: viewerConfig.maxLogBuffer
+    })
+      .then(result => {
+        if (request !== requestRef.current) return;
+        setLogs(result.logs);
+        setError(null);
+      })
+      .catch(err => {
+        if (request !== requestRef.current) return;
+        console.error('Failed to fetch logs for analysis:', err);
+        setError((err as Error).message);
+      })
+      .then(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+  }, [apiClient, q, includeInternal]);
+
+  useEffect(() => {
+    if (!active) return;
+    refresh();
+    if (!refreshInterval) return;
+
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [active, refresh, refreshInterval]);
+
+  return { logs, loading, error, refresh };
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { AllogApiClient } from '../lib/allog-api-client';
+import { ComparableLog } from '../utils/LogComparison';
+import { SnapshotModule, isMonitoringSnapshot, rebuildMonitoringAt } from '../utils/MonitoringSnapshot';
+
+/**
+ * Loads one side of the comparison workspace: the live data, a source's
+ * logs from the server, or a saved `log-session` / `monitoring-session` item
+ */
+
+export type ComparisonMode = 'logs' | 'monitoring';
+
+export type ComparisonSourceSpec =
+  | { kind: 'live' }
+  | { kind: 'source'; sourceId: string }
+  | { kind: 'saved'; itemId: string };
+
+export type ComparisonAlignment = 'time' | 'template';
+
+/**
+ * What a saved SaveSystem `comparison` node restores: the two sides and how
+ * they are aligned
+ */
+export interface ComparisonSetup {
+  mode: ComparisonMode;
+  left: ComparisonSourceSpec;
+  right: ComparisonSourceSpec;
+  alignment: ComparisonAlignment;
+  toleranceMs: number;
+  relative: boolean;
+}
+
+const isSourceSpec = (spec: any): spec is ComparisonSourceSpec =>
+  !!spec &&
+  (spec.kind === 'live' ||
+    (spec.kind === 'source' && typeof spec.sourceId === 'string') ||
+    (spec.kind === 'saved' && typeof spec.itemId === 'string'));
+
+export const isComparisonSetup = (data: any): data is ComparisonSetup =>
+  !!data &&
+  typeof data === 'object' &&
+  (data.mode === 'logs' || data.mode === 'monitoring') &&
+  isSourceSpec(data.left) &&
+  isSourceSpec(data.right);
+
+export interface SavedSession {
+  id: string;
+  name: string;
+  type: 'log-session' | 'monitoring-session';
+  data: any;
+}
+
+export interface ComparisonSideData {
+  logs?: ComparableLog[];
+  modules?: { [moduleId: string]: SnapshotModule };
+  loading: boolean;
+  error: string | null;
+}
+
+const SAVE_SYSTEM_KEY = 'allog-save-system';
+// Most recent logs fetched for a source
+export const COMPARISON_LOG_LIMIT = 2000;
+
+/**
+ * Saved sessions that carry data, i.e. not the category folders
+ */
+export const loadSavedSessions = (): SavedSession[] => {
+  try {
+    const savedData = localStorage.getItem(SAVE_SYSTEM_KEY);
+    if (!savedData) return [];
+    const data = JSON.parse(savedData);
+    return (data.items || [])
+      .filter((item: any) =>
+        (item.type === 'log-session' && Array.isArray(item.metadata?.data?.logs)) ||
+        (item.type === 'monitoring-session' && isMonitoringSnapshot(item.metadata?.data))
+      )
+      .map((item: any) => ({ id: item.id, name: item.name, type: item.type, data: item.metadata.data }));
+  } catch {
+    return [];
+  }
+};
+
+export function useComparisonSide(
+  apiClient: AllogApiClient,
+  mode: ComparisonMode,
+  spec: ComparisonSourceSpec,
+  liveLogs: ComparableLog[],
+  refreshKey: number
+): ComparisonSideData {
+  const [fetched, setFetched] = useState<{ logs?: ComparableLog[]; modules?: { [moduleId: string]: SnapshotModule } } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const specKey = JSON.stringify(spec);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFetched(null);
+    setError(null);
+
+    const load = async () => {
+      if (spec.kind === 'saved') {
+        const session = loadSavedSessions().find(item => item.id === spec.itemId);
+        if (!session) throw new Error('Saved session not found');
+        if (mode === 'logs') {
+          if (session.type !== 'log-session') throw new Error(`"${session.name}" is not a log session`);
+          return { logs: session.data.logs as ComparableLog[] };
+        }
+        if (session.type !== 'monitoring-session') throw new Error(`"${session.name}" is not a monitoring session`);
+        return { modules: rebuildMonitoringAt(session.data.series, session.data.capturedAt) };
+      }
+
+      if (mode === 'monitoring') {
+        const result = await apiClient.getMonitoringHistory({});
+        return { modules: rebuildMonitoringAt(result.series, Date.now()) };
+      }
+
+      if (spec.kind === 'source') {
+        if (!spec.sourceId) return null;
+        const result = await apiClient.queryLogs({ sourceId: spec.sourceId, limit: COMPARISON_LOG_LIMIT, order: 'desc' });
+        return { logs: result.logs };
+      }
+
+      // Live logs come straight from the Logs view
+      return null;
+    };
+
+    setLoading(true);
+    load()
+      .then(result => {
+        if (!cancelled) setFetched(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .then(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // specKey stands in for spec, which is a new object every render
+  }, [apiClient, mode, specKey, refreshKey]);
+
+  const isLiveLogs = mode === 'logs' && spec.kind === 'live';
+  return {
+    logs: isLiveLogs ? liveLogs : fetched?.logs,
+    modules: fetched?.modules,
+    loading: isLiveLogs ? false : loading,
+    error
+  };
+}
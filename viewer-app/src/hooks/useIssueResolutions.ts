@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, RefObject } from 'react';
+import { SaveSystemRef } from '../components/SaveSystem';
+
+/**
+ * Resolved error issues, kept in the active SaveSystem profile's settings as
+ * fingerprint -> resolvedAt
+ */
+
+export interface IssueResolutionsApi {
+  resolved: Record<string, string>;
+  // lastSeen guards against sources whose clocks run ahead of the viewer
+  resolve(fingerprint: string, lastSeen?: number): void;
+  reopen(fingerprint: string): void;
+}
+
+const SAVE_SYSTEM_KEY = 'allog-save-system';
+
+const loadResolutions = (): Record<string, string> => {
+  try {
+    const savedData = localStorage.getItem(SAVE_SYSTEM_KEY);
+    if (!savedData) return {};
+    const data = JSON.parse(savedData);
+    const profileId = data.activeProfile?.type === 'profile' ? data.activeProfile.id : 'default-profile';
+    const settings = (data.items || []).find((item: any) => item.id === `profile-settings-${profileId}`);
+    return settings?.metadata?.data?.resolvedIssues || {};
+  } catch {
+    return {};
+  }
+};
+
+export function useIssueResolutions(saveSystemRef: RefObject<SaveSystemRef>): IssueResolutionsApi {
+  const [resolved, setResolved] = useState<Record<string, string>>(loadResolutions);
+
+  useEffect(() => {
+    const reload = () => setResolved(loadResolutions());
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === SAVE_SYSTEM_KEY) reload();
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    window.addEventListener('issue-resolutions-updated', reload);
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      window.removeEventListener('issue-resolutions-updated', reload);
+    };
+  }, []);
+
+  const resolve = useCallback((fingerprint: string, lastSeen = 0) => {
+    const resolvedAt = new Date(Math.max(Date.now(), lastSeen)).toISOString();
+    setResolved(prev => ({ ...prev, [fingerprint]: resolvedAt }));
+    saveSystemRef.current?.setIssueResolution(fingerprint, resolvedAt);
+  }, [saveSystemRef]);
+
+  const reopen = useCallback((fingerprint: string) => {
+    setResolved(prev => {
+      const next = { ...prev };
+      delete next[fingerprint];
+      return next;
+    });
+    saveSystemRef.current?.setIssueResolution(fingerprint, null);
+  }, [saveSystemRef]);
+
+  return { resolved, resolve, reopen };
+}
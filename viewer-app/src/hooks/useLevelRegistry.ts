@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { AllogApiClient } from '../lib/allog-api-client';
+import { LevelDefinition, getLogLevels, setLevelRegistry } from '../utils/LogLevels';
+
+/**
+ * Loads the server's level registry into utils/LogLevels once and returns
+ * its levels, least severe first, so the caller re-renders when they arrive
+ */
+
+export function useLevelRegistry(apiClient: AllogApiClient): LevelDefinition[] {
+  const [levels, setLevels] = useState<LevelDefinition[]>(getLogLevels);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.getLevels()
+      .then(registry => {
+        setLevelRegistry(registry);
+        if (!cancelled) setLevels(getLogLevels());
+      })
+      .catch(error => {
+        console.error('Failed to load log levels:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient]);
+
+  return levels;
+}
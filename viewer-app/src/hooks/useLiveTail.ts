@@ -0,0 +1,145 @@
+import { useState, useRef, useCallback } from 'react';
+
+/**
+ * Live tail state for a newest-first log list. While paused, incoming entries
+ * are buffered instead of applied; resuming flushes them. While the user is
+ * scrolled away from the head, entries are still applied (the list keeps its
+ * scroll anchor) and counted as unseen.
+ */
+
+export interface LiveTail<T> {
+  paused: boolean;
+  atHead: boolean;
+  // Entries buffered while paused plus entries applied while away from the head
+  newCount: number;
+  // Increments whenever the list should scroll back to the head
+  scrollToHeadSignal: number;
+  receive(entries: T[]): void;
+  pause(): void;
+  resume(): void;
+  togglePaused(): void;
+  jumpToHead(): void;
+  setAtHead(atHead: boolean): void;
+  clear(): void;
+}
+
+interface LiveTailOptions {
+  // Largest buffer kept while paused; beyond it resuming calls onOverflow
+  maxBuffer: number;
+  // Called instead of flushing when entries were dropped while paused
+  onOverflow?: () => void;
+}
+
+/**
+ * @param apply Adds newest-first entries to the head of the list
+ */
+export function useLiveTail<T>(apply: (entries: T[]) => void, options: LiveTailOptions): LiveTail<T> {
+  const [paused, setPaused] = useState(false);
+  const [atHead, setAtHeadState] = useState(true);
+  const [newCount, setNewCount] = useState(0);
+  const [scrollToHeadSignal, setScrollToHeadSignal] = useState(0);
+
+  // Refs so receive() stays stable for socket listeners
+  const pausedRef = useRef(false);
+  const atHeadRef = useRef(true);
+  const bufferRef = useRef<T[]>([]);
+  const overflowedRef = useRef(false);
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const receive = useCallback((entries: T[]) => {
+    if (entries.length === 0) return;
+
+    if (pausedRef.current) {
+      const buffer = entries.concat(bufferRef.current);
+      const { maxBuffer } = optionsRef.current;
+      if (buffer.length > maxBuffer) {
+        buffer.length = maxBuffer;
+        overflowedRef.current = true;
+      }
+      bufferRef.current = buffer;
+      setNewCount(count => count + entries.length);
+      return;
+    }
+
+    applyRef.current(entries);
+    if (!atHeadRef.current) {
+      setNewCount(count => count + entries.length);
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setPaused(false);
+
+    const buffer = bufferRef.current;
+    bufferRef.current = [];
+    if (overflowedRef.current) {
+      overflowedRef.current = false;
+      if (optionsRef.current.onOverflow) {
+        optionsRef.current.onOverflow();
+      } else {
+        applyRef.current(buffer);
+      }
+    } else if (buffer.length > 0) {
+      applyRef.current(buffer);
+    }
+
+    setNewCount(0);
+    setScrollToHeadSignal(signal => signal + 1);
+  }, []);
+
+  const togglePaused = useCallback(() => {
+    if (pausedRef.current) {
+      resume();
+    } else {
+      pause();
+    }
+  }, [pause, resume]);
+
+  const jumpToHead = useCallback(() => {
+    if (pausedRef.current) {
+      resume();
+      return;
+    }
+    setNewCount(0);
+    setScrollToHeadSignal(signal => signal + 1);
+  }, [resume]);
+
+  const setAtHead = useCallback((value: boolean) => {
+    if (atHeadRef.current === value) return;
+    atHeadRef.current = value;
+    setAtHeadState(value);
+    // Reaching the head shows everything that was unseen
+    if (value && !pausedRef.current) {
+      setNewCount(0);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    bufferRef.current = [];
+    overflowedRef.current = false;
+    setNewCount(0);
+  }, []);
+
+  return {
+    paused,
+    atHead,
+    newCount,
+    scrollToHeadSignal,
+    receive,
+    pause,
+    resume,
+    togglePaused,
+    jumpToHead,
+    setAtHead,
+    clear
+  };
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { AllogApiClient, MonitoringHistorySeries } from '../lib/allog-api-client';
+
+/**
+ * Full kept history of one monitored variable. The server keeps at most
+ * maxHistory entries per variable, so callers fetch everything and slice
+ * locally.
+ */
+
+export interface MonitoringVariableRef {
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+}
+
+export interface MonitoringHistoryState {
+  series: MonitoringHistorySeries | null;
+  maxHistory: number;
+  // When the series was last fetched, used as "now" for relative ranges
+  fetchedAt: number;
+  error: string | null;
+}
+
+/**
+ * @param refreshKey Refetches whenever it changes
+ */
+export function useMonitoringHistory(
+  apiClient: AllogApiClient,
+  variable: MonitoringVariableRef,
+  refreshKey?: string | number
+): MonitoringHistoryState {
+  const [state, setState] = useState<MonitoringHistoryState>({
+    series: null,
+    maxHistory: 0,
+    fetchedAt: Date.now(),
+    error: null
+  });
+  const { moduleId, scriptId, type, name } = variable;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.getMonitoringHistory({ moduleId, scriptId, type, name })
+      .then(result => {
+        if (cancelled) return;
+        setState({
+          series: result.series[0] || null,
+          maxHistory: result.maxHistory,
+          fetchedAt: Date.now(),
+          error: null
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setState(prev => ({ ...prev, error: err instanceof Error ? err.message : 'Failed to load history' }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, moduleId, scriptId, type, name, refreshKey]);
+
+  return state;
+}
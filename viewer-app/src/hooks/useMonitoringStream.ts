@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { AllogSocket } from '../lib/allog-socket';
+
+/**
+ * Incremental monitoring entries pushed by the server over the viewer
+ * WebSocket. `live` is false without a socket or while it is down, so the
+ * caller can fall back to polling. `onResync` runs whenever the socket
+ * (re)connects, since entries sent while it was down are lost.
+ */
+
+interface MonitoringStreamOptions {
+  socket?: AllogSocket;
+  onEntry: (entry: any) => void;
+  onResync: () => void;
+}
+
+export function useMonitoringStream({ socket, onEntry, onResync }: MonitoringStreamOptions): { live: boolean } {
+  const [live, setLive] = useState(false);
+  // Refs so listeners stay attached while callbacks change
+  const handlersRef = useRef({ onEntry, onResync });
+  handlersRef.current = { onEntry, onResync };
+
+  useEffect(() => {
+    if (!socket) {
+      setLive(false);
+      return;
+    }
+
+    setLive(socket.getStatus().state === 'open');
+
+    const unsubscribeStatus = socket.onStatus(status => setLive(status.state === 'open'));
+    const unsubscribeOpen = socket.onOpen(() => handlersRef.current.onResync());
+    const unsubscribeMessages = socket.onMessage(msg => {
+      if (msg.type === 'monitoring_update' && msg.data) {
+        handlersRef.current.onEntry(msg.data);
+      }
+    });
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeOpen();
+      unsubscribeMessages();
+    };
+  }, [socket]);
+
+  return { live };
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { matchesTemplate } from '../utils/MessageTemplates';
+
+/**
+ * Message patterns muted from the Patterns view; logs matching one are
+ * hidden from the Logs view unless muted logs are shown
+ */
+
+export interface MutedPatternsApi {
+  muted: string[];
+  mute(template: string): void;
+  unmute(template: string): void;
+  isMuted(message: string): boolean;
+}
+
+const MUTED_PATTERNS_KEY = 'allog-muted-patterns';
+// Cached match results kept before the cache is reset
+const MAX_CACHED_MESSAGES = 5000;
+
+const loadMuted = (): string[] => {
+  try {
+    const saved = localStorage.getItem(MUTED_PATTERNS_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export function useMutedPatterns(): MutedPatternsApi {
+  const [muted, setMuted] = useState<string[]>(loadMuted);
+  // Matching costs a template extraction per message, so remember results
+  const cacheRef = useRef<{ muted: string[]; results: Record<string, boolean>; size: number }>({
+    muted,
+    results: Object.create(null),
+    size: 0
+  });
+
+  useEffect(() => {
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === MUTED_PATTERNS_KEY) setMuted(loadMuted());
+    };
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }, []);
+
+  const update = useCallback((change: (current: string[]) => string[]) => {
+    setMuted(current => {
+      const next = change(current);
+      localStorage.setItem(MUTED_PATTERNS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const mute = useCallback((template: string) => {
+    update(current => (current.indexOf(template) === -1 ? current.concat(template) : current));
+  }, [update]);
+
+  const unmute = useCallback((template: string) => {
+    update(current => current.filter(item => item !== template));
+  }, [update]);
+
+  const isMuted = useCallback((message: string) => {
+    if (muted.length === 0) return false;
+    const cache = cacheRef.current;
+    if (cache.muted !== muted || cache.size > MAX_CACHED_MESSAGES) {
+      cacheRef.current = { muted, results: Object.create(null), size: 0 };
+    }
+    const results = cacheRef.current.results;
+    if (!(message in results)) {
+      results[message] = muted.some(template => matchesTemplate(message, template));
+      cacheRef.current.size++;
+    }
+    return results[message];
+  }, [muted]);
+
+  return { muted, mute, unmute, isMuted };
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AllogApiClient } from '../lib/allog-api-client';
+import {
+  WatchRule,
+  WatchState,
+  WatchableEntry,
+  compileWatchRules,
+  resolveWatchTarget,
+  evaluateWatchRule,
+  describeWatchRule
+} from '../utils/WatchRules';
+
+/**
+ * Live watch rules from SaveSystem comparison nodes, evaluated against
+ * monitoring updates. A firing rule raises an in-app alert, a desktop
+ * notification (when permitted) and a log entry from the `allog-watch` source.
+ */
+
+export interface WatchAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  description: string;
+  value: any;
+  entry: WatchableEntry;
+  firedAt: number;
+}
+
+export interface WatchRulesApi {
+  rules: WatchRule[];
+  alerts: WatchAlert[];
+  evaluate(entry: WatchableEntry): void;
+  dismissAlert(id: string): void;
+  clearAlerts(): void;
+}
+
+const SAVE_SYSTEM_KEY = 'allog-save-system';
+export const WATCH_SOURCE_ID = 'allog-watch';
+const MAX_ALERTS = 50;
+
+const loadRules = (): WatchRule[] => {
+  try {
+    const savedData = localStorage.getItem(SAVE_SYSTEM_KEY);
+    if (!savedData) return [];
+    return compileWatchRules(JSON.parse(savedData).items);
+  } catch {
+    return [];
+  }
+};
+
+const formatAlertValue = (value: any): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    const json = JSON.stringify(value);
+    return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+  } catch {
+    return String(value);
+  }
+};
+
+export function useWatchRules(apiClient: AllogApiClient): WatchRulesApi {
+  const [rules, setRules] = useState<WatchRule[]>(loadRules);
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  // Keyed by rule id and variable
+  const statesRef = useRef<Record<string, WatchState>>({});
+
+  useEffect(() => {
+    // Saves that leave the rules alone (e.g. in another tab) keep rule state
+    const reload = () => {
+      const next = loadRules();
+      if (JSON.stringify(next) === JSON.stringify(rulesRef.current)) return;
+      setRules(next);
+      statesRef.current = {};
+    };
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === SAVE_SYSTEM_KEY) reload();
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    window.addEventListener('watch-rules-updated', reload);
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      window.removeEventListener('watch-rules-updated', reload);
+    };
+  }, []);
+
+  const fire = useCallback((rule: WatchRule, entry: WatchableEntry, value: any) => {
+    const description = describeWatchRule(rule);
+    const message = `Watch "${rule.name}" fired: ${description} (value ${formatAlertValue(value)})`;
+
+    setAlerts(prev => [{
+      id: `${rule.id}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      description,
+      value,
+      entry,
+      firedAt: Date.now()
+    }].concat(prev).slice(0, MAX_ALERTS));
+
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      try {
+        new Notification(`Allog watch: ${rule.name}`, { body: message, tag: rule.id });
+      } catch {
+        // Some browsers only allow notifications from a service worker
+      }
+    }
+
+    apiClient.sendLog({
+      message,
+      level: 'warn',
+      scriptId: entry.scriptId,
+      data: {
+        watch: { id: rule.id, name: rule.name, rule: description },
+        monitoring: { moduleId: entry.moduleId, scriptId: entry.scriptId, type: entry.type, name: entry.name },
+        value
+      }
+    }, WATCH_SOURCE_ID).catch(error => {
+      console.error('Failed to log watch alert:', error);
+    });
+  }, [apiClient]);
+
+  const evaluate = useCallback((entry: WatchableEntry) => {
+    if (!entry || typeof entry.name !== 'string') return;
+    rulesRef.current.forEach(rule => {
+      const target = resolveWatchTarget(rule, entry);
+      if (!target.matches) return;
+
+      const key = JSON.stringify([rule.id, entry.moduleId, entry.scriptId, entry.name]);
+      const previous = statesRef.current[key] || { matched: false, seen: false };
+      const result = evaluateWatchRule(rule, entry, target.value, previous);
+      statesRef.current[key] = result.state;
+      if (result.fired) fire(rule, entry, result.value);
+    });
+  }, [fire]);
+
+  const dismissAlert = useCallback((id: string) => {
+    setAlerts(prev => prev.filter(alert => alert.id !== id));
+  }, []);
+
+  const clearAlerts = useCallback(() => setAlerts([]), []);
+
+  return { rules, alerts, evaluate, dismissAlert, clearAlerts };
+}
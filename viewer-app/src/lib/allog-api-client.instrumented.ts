@@ -26,7 +26,7 @@ export interface AllogApiClient {
   
   // New methods for raw/malformed logs
   sendRawLog(data: any, level?: string): Promise<any>;
-  sendTextLog(text: string, level?: string): Promise<any>;
+  sendTextLog(text: string, level?: string, sourceId?: string): Promise<any>;
   sendTextLogGet(text: string, level?: string, source?: string): Promise<any>;
   
   // Optional methods for pages/tests that reference them
@@ -116,10 +116,12 @@ class AllogApiClientImpl implements AllogApiClient {
     return res.json();
   }
 
-  async sendTextLog(text: string, level: string = 'info'): Promise<any> {
+  async sendTextLog(text: string, level: string = 'info', sourceId?: string): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (sourceId) headers['X-Source-ID'] = sourceId;
     const res = await fetch(`${this.serverUrl}/api/logs/text`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify({ text, level })
     });
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
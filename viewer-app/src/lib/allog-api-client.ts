@@ -4,29 +4,300 @@
  * Standalone viewer HTTP client for the intermediary server
  */
 
+import { LogLevel, LogProvenance } from '../utils/LogConstants';
+
+// How the server received an entry; 'parsed' entries were structured by a parser rule
+export type LogQuality = 'normal' | 'raw-text' | 'malformed' | 'parsed';
+
+export interface LogEntryMetadata {
+  parser?: { ruleId: string; ruleName?: string; type: ParserRuleType; originalQuality: 'raw-text' | 'malformed' };
+  // The unparsed line, kept on parsed entries
+  originalText?: string;
+  [key: string]: any;
+}
+
 export interface AllogLogEntry {
   id: string;
   message: string;
   time?: string;
   timestamp?: string;
   serverReceivedAt?: string;
-  level: 'debug' | 'info' | 'warn' | 'error';
+  level: LogLevel;
   scriptId?: string;
   data?: any;
   sourceId?: string;
   sourceType?: string;
+  stack?: string;
+  provenance?: LogProvenance;
+  recursive?: boolean;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  // OpenTelemetry logs (POST /v1/logs)
+  severity?: string;
+  severityNumber?: number;
+  attributes?: Record<string, any>;
+  resource?: Record<string, any>;
+  quality?: LogQuality;
+  metadata?: LogEntryMetadata;
+}
+
+export type LogSortOrder = 'asc' | 'desc';
+
+/**
+ * Server-side log query, mapped onto /api/logs query parameters
+ */
+export interface LogQuery {
+  levels?: string[];
+  // This level and everything more severe
+  minLevel?: string;
+  scriptId?: string | string[];
+  sourceId?: string | string[];
+  traceId?: string | string[];
+  text?: string;
+  q?: string;
+  since?: string | Date;
+  until?: string | Date;
+  cursor?: string;
+  afterId?: string;
+  includeInternal?: boolean;
+  offset?: number;
+  limit?: number;
+  order?: LogSortOrder;
+}
+
+export interface LogQueryResult {
+  logs: AllogLogEntry[];
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * Window around an anchor log: `seconds` either side, or `before`/`after`
+ * entries when seconds is not given
+ */
+export interface LogContextOptions {
+  before?: number;
+  after?: number;
+  seconds?: number;
+  includeInternal?: boolean;
+}
+
+export interface LogContextResult {
+  anchorId: string;
+  logs: AllogLogEntry[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+/**
+ * Filter for /api/monitoring/history. Omitting `name` returns every matching
+ * variable; `limit` applies per variable and keeps the most recent entries
+ */
+export interface MonitoringHistoryQuery {
+  moduleId?: string;
+  scriptId?: string;
+  type?: string;
+  name?: string;
+  since?: number | Date;
+  until?: number | Date;
+  limit?: number;
+}
+
+export interface MonitoringHistoryEntry {
+  id: string;
+  value: any;
+  previousValue?: any;
+  timestamp: number;
+  metadata?: Record<string, any>;
+}
+
+export interface MonitoringHistorySeries {
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  // Entries in range before `limit` was applied
+  total: number;
+  // Oldest first
+  entries: MonitoringHistoryEntry[];
+}
+
+export interface MonitoringHistoryResult {
+  series: MonitoringHistorySeries[];
+  maxHistory: number;
+}
+
+/**
+ * Log counts per level in fixed-size time buckets, from /api/logs/histogram
+ */
+export interface LogHistogramBucket {
+  start: number;
+  total: number;
+  counts: Record<string, number>;
+}
+
+export interface LogHistogram {
+  bucketMs: number;
+  // Null when nothing matched
+  start: number | null;
+  end: number | null;
+  levels: string[];
+  total: number;
+  buckets: LogHistogramBucket[];
+}
+
+/**
+ * A trace id seen in the server's buffers, from /api/traces
+ */
+export interface TraceSummary {
+  traceId: string;
+  logCount: number;
+  monitoringCount: number;
+  errorCount: number;
+  sources: string[];
+  start: number;
+  end: number;
+  // Earliest log of the root span, if any
+  rootMessage: string | null;
+}
+
+/**
+ * Monitoring entry as stored by the server, carrying its trace ids
+ */
+export interface TraceMonitoringEntry extends MonitoringHistoryEntry {
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  sourceId?: string;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+}
+
+export interface TraceResult {
+  traceId: string;
+  // Oldest first
+  logs: AllogLogEntry[];
+  monitoring: TraceMonitoringEntry[];
+}
+
+export type ParserRuleType = 'grok' | 'regex' | 'kv' | 'logfmt' | 'access-log' | 'nginx-error';
+
+/**
+ * Server-side extraction rule for raw-text and malformed logs, see
+ * server/parser-pipeline.js
+ */
+export interface ParserRule {
+  id: string;
+  name?: string;
+  enabled?: boolean;
+  type: ParserRuleType;
+  // Source id globs; empty applies to every source
+  sources?: string[];
+  appliesTo?: Array<'raw-text' | 'malformed'>;
+  // grok expression or regex source
+  pattern?: string;
+  flags?: string;
+  // Extra grok patterns by name
+  patterns?: Record<string, string>;
+  // kv only
+  separator?: string;
+  delimiter?: string;
+  // Level when the line doesn't name one
+  level?: string;
+  // Fields holding the message, level and time when not the usual names
+  fields?: { message?: string; level?: string; time?: string };
+  stats?: { matched: number; lastMatchedAt?: string };
+}
+
+export interface ParserRulesResult {
+  rules: ParserRule[];
+  types: ParserRuleType[];
+  grokPatterns: string[];
+}
+
+export interface ParserTestResult {
+  line: string;
+  matched: boolean;
+  fields?: Record<string, any>;
+  // What would be stored
+  entry?: { message: string; level?: string; time?: string; data: Record<string, any> };
+}
+
+/**
+ * The server's level registry, least severe level first
+ */
+export interface LevelRegistryResult {
+  levels: { name: string; severity: number }[];
+  aliases: Record<string, string>;
+  default: string;
+}
+
+/**
+ * A source registered with the server
+ */
+export interface AllogSource {
+  sourceId: string;
+  sourceType?: string;
+  sourceVersion?: string;
+  registeredAt?: string;
+  lastSeen?: string;
+  logCount?: number;
+}
+
+/**
+ * Build /api/logs query parameters from a LogQuery
+ */
+export function buildLogQueryParams(query: LogQuery = {}): URLSearchParams {
+  const params = new URLSearchParams();
+  const list = (value?: string | string[]) => (Array.isArray(value) ? value.join(',') : value);
+  const time = (value?: string | Date) => (value instanceof Date ? value.toISOString() : value);
+
+  if (query.levels && query.levels.length > 0) params.append('level', query.levels.join(','));
+  if (query.minLevel) params.append('minLevel', query.minLevel);
+  if (list(query.scriptId)) params.append('scriptId', list(query.scriptId) as string);
+  if (list(query.sourceId)) params.append('sourceId', list(query.sourceId) as string);
+  if (list(query.traceId)) params.append('traceId', list(query.traceId) as string);
+  if (query.text) params.append('search', query.text);
+  if (query.q) params.append('q', query.q);
+  if (time(query.since)) params.append('since', time(query.since) as string);
+  if (time(query.until)) params.append('until', time(query.until) as string);
+  if (query.cursor) params.append('cursor', query.cursor);
+  if (query.afterId) params.append('afterId', query.afterId);
+  if (query.includeInternal) params.append('includeInternal', 'true');
+  if (query.offset != null) params.append('offset', String(query.offset));
+  if (query.limit != null) params.append('limit', String(query.limit));
+  if (query.order) params.append('order', query.order);
+  return params;
 }
 
 export interface AllogApiClient {
-  getLogs(options?: any): Promise<AllogLogEntry[]>;
+  getLogs(query?: LogQuery): Promise<AllogLogEntry[]>;
+  queryLogs(query?: LogQuery): Promise<LogQueryResult>;
+  getLogHistogram(query?: LogQuery, bucket?: string): Promise<LogHistogram>;
+  getScripts(): Promise<string[]>;
+  getSources(): Promise<AllogSource[]>;
+  getLevels(): Promise<LevelRegistryResult>;
+  getTraces(limit?: number): Promise<TraceSummary[]>;
+  getTrace(traceId: string): Promise<TraceResult>;
+  getParserRules(): Promise<ParserRulesResult>;
+  saveParserRules(rules: ParserRule[]): Promise<ParserRule[]>;
+  testParserRule(rule: ParserRule, lines: string[]): Promise<ParserTestResult[]>;
+  getLogContext(id: string, options?: LogContextOptions): Promise<LogContextResult>;
+  getMonitoringHistory(query?: MonitoringHistoryQuery): Promise<MonitoringHistoryResult>;
   clearLogs(): Promise<void>;
   exportLogs(): Promise<string>;
   getStats(): Promise<any>;
   healthCheck(): Promise<boolean>;
   
+  sendLog(entry: Pick<AllogLogEntry, 'message' | 'level'> & Partial<AllogLogEntry>, sourceId?: string): Promise<any>;
+
   // New methods for raw/malformed logs
   sendRawLog(data: any, level?: string): Promise<any>;
-  sendTextLog(text: string, level?: string): Promise<any>;
+  sendTextLog(text: string, level?: string, sourceId?: string): Promise<any>;
   sendTextLogGet(text: string, level?: string, source?: string): Promise<any>;
   
   // Optional methods for pages/tests that reference them
@@ -60,14 +331,138 @@ class AllogApiClientImpl implements AllogApiClient {
     }
   }
 
-  async getLogs(): Promise<AllogLogEntry[]> {
-    const text = await this.requestText('/api/logs');
+  async getLogs(query?: LogQuery): Promise<AllogLogEntry[]> {
+    const result = await this.queryLogs(query);
+    return result.logs;
+  }
+
+  async queryLogs(query?: LogQuery): Promise<LogQueryResult> {
+    const params = buildLogQueryParams(query).toString();
+    const text = await this.requestText(params ? `/api/logs?${params}` : '/api/logs');
     const data = this.parseJsonFromText(text);
     const logs: AllogLogEntry[] = (data.logs || []).map((l: any) => ({
       ...l,
       timestamp: l.timestamp || l.time || l.serverReceivedAt
     }));
-    return logs;
+    return {
+      logs,
+      total: typeof data.total === 'number' ? data.total : logs.length,
+      hasMore: !!data.hasMore,
+      nextCursor: data.nextCursor || null
+    };
+  }
+
+  async getLogHistogram(query?: LogQuery, bucket = 'auto'): Promise<LogHistogram> {
+    const params = buildLogQueryParams(query);
+    params.append('bucket', bucket);
+    const res = await fetch(`${this.serverUrl}/api/logs/histogram?${params}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+
+  async getScripts(): Promise<string[]> {
+    const res = await fetch(`${this.serverUrl}/api/logs/scripts`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    return data.scripts || [];
+  }
+
+  async getSources(): Promise<AllogSource[]> {
+    const res = await fetch(`${this.serverUrl}/api/sources`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    return data.sources || [];
+  }
+
+  async getLevels(): Promise<LevelRegistryResult> {
+    const res = await fetch(`${this.serverUrl}/api/levels`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+
+  async getTraces(limit?: number): Promise<TraceSummary[]> {
+    const params = limit != null ? `?limit=${limit}` : '';
+    const res = await fetch(`${this.serverUrl}/api/traces${params}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    return data.traces || [];
+  }
+
+  async getTrace(traceId: string): Promise<TraceResult> {
+    const res = await fetch(`${this.serverUrl}/api/traces/${encodeURIComponent(traceId)}`);
+    if (res.status === 404) return { traceId, logs: [], monitoring: [] };
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+
+  async getParserRules(): Promise<ParserRulesResult> {
+    const res = await fetch(`${this.serverUrl}/api/parsers`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+
+  // Replaces every rule; rejected as a whole when any rule is invalid
+  async saveParserRules(rules: ParserRule[]): Promise<ParserRule[]> {
+    const res = await fetch(`${this.serverUrl}/api/parsers`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rules })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    return data.rules || [];
+  }
+
+  async testParserRule(rule: ParserRule, lines: string[]): Promise<ParserTestResult[]> {
+    const res = await fetch(`${this.serverUrl}/api/parsers/test`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rule, lines })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    return data.results || [];
+  }
+
+  async getLogContext(id: string, options: LogContextOptions = {}): Promise<LogContextResult> {
+    const params = new URLSearchParams();
+    if (options.seconds != null) {
+      params.append('seconds', String(options.seconds));
+    } else {
+      if (options.before != null) params.append('before', String(options.before));
+      if (options.after != null) params.append('after', String(options.after));
+    }
+    if (options.includeInternal) params.append('includeInternal', 'true');
+
+    const res = await fetch(`${this.serverUrl}/api/logs/${encodeURIComponent(id)}/context?${params}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    return {
+      anchorId: data.anchorId,
+      logs: data.logs || [],
+      hasMoreBefore: !!data.hasMoreBefore,
+      hasMoreAfter: !!data.hasMoreAfter
+    };
+  }
+
+  async getMonitoringHistory(query: MonitoringHistoryQuery = {}): Promise<MonitoringHistoryResult> {
+    const params = new URLSearchParams();
+    const time = (value: number | Date) => String(value instanceof Date ? value.getTime() : value);
+    if (query.moduleId) params.append('moduleId', query.moduleId);
+    if (query.scriptId) params.append('scriptId', query.scriptId);
+    if (query.type) params.append('type', query.type);
+    if (query.name) params.append('name', query.name);
+    if (query.since != null) params.append('since', time(query.since));
+    if (query.until != null) params.append('until', time(query.until));
+    if (query.limit != null) params.append('limit', String(query.limit));
+
+    const res = await fetch(`${this.serverUrl}/api/monitoring/history?${params}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    return {
+      series: data.series || [],
+      maxHistory: typeof data.maxHistory === 'number' ? data.maxHistory : 0
+    };
   }
 
   async clearLogs(): Promise<void> {
@@ -105,6 +500,18 @@ class AllogApiClientImpl implements AllogApiClient {
     }
   }
 
+  async sendLog(entry: Pick<AllogLogEntry, 'message' | 'level'> & Partial<AllogLogEntry>, sourceId?: string): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (sourceId) headers['X-Source-ID'] = sourceId;
+    const res = await fetch(`${this.serverUrl}/api/logs/single`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(entry)
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+
   // New methods for raw/malformed logs
   async sendRawLog(data: any, level: string = 'info'): Promise<any> {
     const res = await fetch(`${this.serverUrl}/api/logs/raw`, {
@@ -116,10 +523,12 @@ class AllogApiClientImpl implements AllogApiClient {
     return res.json();
   }
 
-  async sendTextLog(text: string, level: string = 'info'): Promise<any> {
+  async sendTextLog(text: string, level: string = 'info', sourceId?: string): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (sourceId) headers['X-Source-ID'] = sourceId;
     const res = await fetch(`${this.serverUrl}/api/logs/text`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       body: JSON.stringify({ text, level })
     });
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -0,0 +1,534 @@
+/**
+ * Allog Client
+ *
+ * Typed producer SDK for sending logs, monitoring data and screenshots
+ * to the intermediary server. Entries are batched, queued while the
+ * server is unreachable and retried with exponential backoff.
+ */
+
+import { StandardLogEntry, LogLevel } from '../utils/LogConstants';
+
+export type MonitoringType = 'variable' | 'state' | 'function' | 'property' | 'event';
+
+/**
+ * Log entry as produced by an application. The server assigns id,
+ * sourceId and receive time, so only message and level are required.
+ */
+export type AllogProducerLog = Pick<StandardLogEntry, 'message' | 'level'> &
+  Partial<Omit<StandardLogEntry, 'message' | 'level'>>;
+
+/**
+ * Identifies one request or operation across sources. Entries sharing a
+ * traceId are shown together in the viewer's Trace view, nested by span.
+ */
+export interface AllogTraceContext {
+  traceId: string;
+  spanId?: string;
+  parentSpanId?: string;
+}
+
+export interface AllogMonitoringEntry {
+  moduleId: string;
+  scriptId?: string;
+  type: MonitoringType;
+  name: string;
+  value: any;
+  previousValue?: any;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  metadata?: {
+    file?: string;
+    line?: number;
+    functionName?: string;
+    duration?: number;
+    // Epoch ms of the call; otherwise a call is assumed to end when received
+    startTime?: number;
+    endTime?: number;
+    error?: string;
+    stack?: string;
+    [key: string]: any;
+  };
+}
+
+// A call for monitorCall to time; reported as a `function` entry
+export type AllogCallEntry = Omit<AllogMonitoringEntry, 'type' | 'value'>;
+
+export interface AllogScreenshot {
+  image: string; // data URL
+  tag?: string;
+  platform?: string;
+  timestamp?: string;
+  overlay?: Record<string, any>;
+}
+
+export interface AllogRetryOptions {
+  retries: number;
+  minTimeout: number;
+  maxTimeout: number;
+  factor: number;
+}
+
+export interface AllogClientOptions {
+  serverUrl: string;
+  sourceId: string;
+  sourceType?: string;
+  sourceVersion?: string;
+  scriptId?: string;
+  metadata?: Record<string, any>;
+  autoRegister?: boolean;
+  batchSize?: number;
+  flushInterval?: number;
+  maxQueueSize?: number;
+  retry?: Partial<AllogRetryOptions>;
+  onError?: (error: Error, dropped: number) => void;
+}
+
+export interface AllogClient {
+  register(metadata?: Record<string, any>): Promise<void>;
+
+  log(level: LogLevel, message: string, data?: any, extra?: Partial<AllogProducerLog>): void;
+  debug(message: string, data?: any): void;
+  info(message: string, data?: any): void;
+  warn(message: string, data?: any): void;
+  error(message: string, error?: any): void;
+  send(entry: AllogProducerLog): void;
+
+  monitor(entry: AllogMonitoringEntry): void;
+  // Runs fn and reports it as a function entry timed on this client;
+  // a returned promise is timed until it settles
+  monitorCall<T>(entry: AllogCallEntry, fn: () => T): T;
+  screenshot(screenshot: AllogScreenshot): void;
+
+  // Stamped onto later logs and monitoring entries that carry no traceId
+  setTraceContext(context: AllogTraceContext | null): void;
+  getTraceContext(): AllogTraceContext | null;
+
+  flush(): Promise<void>;
+  getQueueSize(): number;
+  isOnline(): boolean;
+  close(): Promise<void>;
+}
+
+type QueueKind = 'log' | 'monitoring' | 'screenshot';
+
+interface QueuedItem {
+  kind: QueueKind;
+  payload: any;
+}
+
+class HttpStatusError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`HTTP ${status}`);
+    this.status = status;
+  }
+}
+
+const randomHex = (length: number): string => {
+  const cryptoApi = typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function' ? crypto : null;
+  let hex = '';
+  if (cryptoApi) {
+    const bytes = new Uint8Array(Math.ceil(length / 2));
+    cryptoApi.getRandomValues(bytes);
+    for (let i = 0; i < bytes.length; i++) hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+  } else {
+    while (hex.length < length) hex += Math.floor(Math.random() * 16).toString(16);
+  }
+  return hex.slice(0, length);
+};
+
+// W3C trace context sizes, so ids can travel in a traceparent header
+export const createTraceId = (): string => randomHex(32);
+export const createSpanId = (): string => randomHex(16);
+
+/**
+ * A new trace with its root span
+ */
+export function createTraceContext(): AllogTraceContext {
+  return { traceId: createTraceId(), spanId: createSpanId() };
+}
+
+/**
+ * A span for work started from `parent`, in the same trace
+ */
+export function childSpan(parent: AllogTraceContext): AllogTraceContext {
+  return { traceId: parent.traceId, spanId: createSpanId(), parentSpanId: parent.spanId };
+}
+
+/**
+ * `traceparent` header value for a context. Send the caller's current span;
+ * the receiving service logs under a child of it (see parseTraceparent).
+ */
+export function formatTraceparent(context: AllogTraceContext): string {
+  return `00-${context.traceId}-${context.spanId || createSpanId()}-01`;
+}
+
+/**
+ * Context for work started by an incoming `traceparent` header, or null if
+ * malformed. The header's parent-id is the caller's span, so this is a new
+ * span under it.
+ */
+export function parseTraceparent(header: string | null | undefined): AllogTraceContext | null {
+  const match = header ? /^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/i.exec(header.trim()) : null;
+  return match ? childSpan({ traceId: match[1].toLowerCase(), spanId: match[2].toLowerCase() }) : null;
+}
+
+const DEFAULT_RETRY: AllogRetryOptions = {
+  retries: 5,
+  minTimeout: 1000,
+  maxTimeout: 30000,
+  factor: 2
+};
+
+class AllogClientImpl implements AllogClient {
+  private options: AllogClientOptions;
+  private retry: AllogRetryOptions;
+  private queue: QueuedItem[] = [];
+  private sequenceNumber = 0;
+  private attempt = 0;
+  private online = true;
+  private registered = false;
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private traceContext: AllogTraceContext | null = null;
+
+  constructor(options: AllogClientOptions) {
+    this.options = {
+      sourceType: 'application',
+      sourceVersion: '1.0.0',
+      autoRegister: true,
+      batchSize: 50,
+      flushInterval: 1000,
+      maxQueueSize: 5000,
+      ...options,
+      serverUrl: options.serverUrl.replace(/\/+$/, '')
+    };
+    this.retry = { ...DEFAULT_RETRY, ...(options.retry || {}) };
+
+    // Flush as soon as the browser reports connectivity again
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  private handleOnline = () => {
+    this.attempt = 0;
+    this.scheduleFlush(0);
+  };
+
+  private async post(endpoint: string, body: any): Promise<any> {
+    const res = await fetch(`${this.options.serverUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Source-ID': this.options.sourceId
+      },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new HttpStatusError(res.status);
+    return res.json().catch(() => ({}));
+  }
+
+  /**
+   * Network failures, 5xx and 429 are worth retrying; other 4xx responses
+   * mean the payload itself was rejected and retrying will not help.
+   */
+  private isRetryable(error: any): boolean {
+    if (error instanceof HttpStatusError) {
+      return error.status >= 500 || error.status === 429 || error.status === 408;
+    }
+    return true;
+  }
+
+  private backoffDelay(): number {
+    const { minTimeout, maxTimeout, factor } = this.retry;
+    const delay = Math.min(maxTimeout, minTimeout * Math.pow(factor, Math.max(0, this.attempt - 1)));
+    // Jitter so many producers don't retry in lockstep after a restart
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private scheduleFlush(delay: number = this.options.flushInterval as number) {
+    if (this.closed || this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(() => { /* reported through onError */ });
+    }, delay);
+  }
+
+  private enqueue(kind: QueueKind, payload: any) {
+    if (this.closed) return;
+
+    this.queue.push({ kind, payload });
+
+    const maxQueueSize = this.options.maxQueueSize as number;
+    if (this.queue.length > maxQueueSize) {
+      const dropped = this.queue.length - maxQueueSize;
+      this.queue.splice(0, dropped);
+      this.reportError(new Error('Allog client queue full, dropping oldest entries'), dropped);
+    }
+
+    if (this.online && this.queue.length >= (this.options.batchSize as number)) {
+      this.scheduleFlush(0);
+    } else {
+      this.scheduleFlush(this.online ? undefined : this.backoffDelay());
+    }
+  }
+
+  private reportError(error: Error, dropped: number) {
+    if (this.options.onError) {
+      this.options.onError(error, dropped);
+    }
+  }
+
+  /**
+   * Take the next batch off the head of the queue. Logs and monitoring
+   * entries are grouped per kind; screenshots are sent one at a time.
+   */
+  private takeBatch(): QueuedItem[] {
+    const head = this.queue[0];
+    if (!head) return [];
+    if (head.kind === 'screenshot') return this.queue.slice(0, 1);
+
+    const batchSize = this.options.batchSize as number;
+    const batch: QueuedItem[] = [];
+    for (const item of this.queue) {
+      if (item.kind !== head.kind || batch.length >= batchSize) break;
+      batch.push(item);
+    }
+    return batch;
+  }
+
+  private async sendBatch(batch: QueuedItem[]): Promise<void> {
+    const kind = batch[0].kind;
+    const payloads = batch.map(item => item.payload);
+
+    if (kind === 'log') {
+      await this.post('/api/logs/batch', { logs: payloads });
+    } else if (kind === 'monitoring') {
+      await this.post('/api/monitoring/batch', { entries: payloads });
+    } else {
+      await this.post('/api/screenshots', { ...payloads[0], sourceId: this.options.sourceId });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.options.autoRegister && !this.registered) {
+      await this.register();
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.takeBatch();
+      try {
+        await this.sendBatch(batch);
+        this.queue.splice(0, batch.length);
+        this.attempt = 0;
+        this.online = true;
+      } catch (error: any) {
+        if (!this.isRetryable(error)) {
+          this.queue.splice(0, batch.length);
+          this.reportError(error, batch.length);
+          continue;
+        }
+
+        this.online = false;
+        this.attempt++;
+        if (this.attempt > this.retry.retries) {
+          // Keep the entries queued, but stop hammering the server until
+          // new entries arrive or the browser reports it is online again
+          this.attempt = 0;
+          this.reportError(error, 0);
+          return;
+        }
+        this.scheduleFlush(this.backoffDelay());
+        return;
+      }
+    }
+  }
+
+  async register(metadata?: Record<string, any>): Promise<void> {
+    const { sourceId, sourceType, sourceVersion } = this.options;
+    await this.post('/api/register', {
+      sourceId,
+      sourceType,
+      sourceVersion,
+      metadata: { ...(this.options.metadata || {}), ...(metadata || {}) }
+    });
+    this.registered = true;
+  }
+
+  // Entries with their own traceId keep it, and none of the current span
+  private traceFields(entry: { traceId?: string }): Partial<AllogTraceContext> {
+    return entry.traceId || !this.traceContext ? {} : { ...this.traceContext };
+  }
+
+  setTraceContext(context: AllogTraceContext | null): void {
+    this.traceContext = context ? { ...context } : null;
+  }
+
+  getTraceContext(): AllogTraceContext | null {
+    return this.traceContext ? { ...this.traceContext } : null;
+  }
+
+  send(entry: AllogProducerLog): void {
+    const timestamp = entry.timestamp || entry.time || new Date().toISOString();
+    this.enqueue('log', {
+      scriptId: this.options.scriptId || this.options.sourceId,
+      sourceType: this.options.sourceType,
+      sourceVersion: this.options.sourceVersion,
+      ...this.traceFields(entry),
+      ...entry,
+      time: timestamp,
+      timestamp,
+      sequenceNumber: entry.sequenceNumber != null ? entry.sequenceNumber : ++this.sequenceNumber
+    });
+  }
+
+  log(level: LogLevel, message: string, data?: any, extra?: Partial<AllogProducerLog>): void {
+    this.send({ ...(extra || {}), level, message, data });
+  }
+
+  debug(message: string, data?: any): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: any): void {
+    this.log('info', message, data);
+  }
+
+  warn(message: string, data?: any): void {
+    this.log('warn', message, data);
+  }
+
+  error(message: string, error?: any): void {
+    if (error instanceof Error) {
+      this.log('error', message, { name: error.name, message: error.message }, { stack: error.stack });
+    } else {
+      this.log('error', message, error);
+    }
+  }
+
+  monitor(entry: AllogMonitoringEntry): void {
+    this.enqueue('monitoring', {
+      scriptId: this.options.scriptId || this.options.sourceId,
+      ...this.traceFields(entry),
+      ...entry,
+      ...(entry.type === 'function' ? { metadata: this.callTimes(entry.metadata) } : {})
+    });
+  }
+
+  /**
+   * Function entries are reported as the call returns. Without client
+   * times every entry in a batch would be dated to when the server
+   * received it, which breaks call nesting in the trace view.
+   */
+  private callTimes(metadata: AllogMonitoringEntry['metadata'] = {}): AllogMonitoringEntry['metadata'] {
+    const duration = typeof metadata.duration === 'number' ? metadata.duration : 0;
+    const hasStart = typeof metadata.startTime === 'number';
+    const endTime = typeof metadata.endTime === 'number'
+      ? metadata.endTime
+      : hasStart ? (metadata.startTime as number) + duration : Date.now();
+    return { ...metadata, startTime: hasStart ? metadata.startTime : endTime - duration, endTime };
+  }
+
+  monitorCall<T>(entry: AllogCallEntry, fn: () => T): T {
+    const startTime = Date.now();
+    const report = (failed: boolean, error?: any) => {
+      const endTime = Date.now();
+      this.monitor({
+        ...entry,
+        type: 'function',
+        value: endTime - startTime,
+        metadata: {
+          functionName: entry.name,
+          ...(entry.metadata || {}),
+          duration: endTime - startTime,
+          startTime,
+          endTime,
+          ...(failed ? {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined
+          } : {})
+        }
+      });
+    };
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      report(true, error);
+      throw error;
+    }
+    if (result && typeof (result as any).then === 'function') {
+      (result as any).then(() => report(false), (error: any) => report(true, error));
+    } else {
+      report(false);
+    }
+    return result;
+  }
+
+  screenshot(screenshot: AllogScreenshot): void {
+    this.enqueue('screenshot', {
+      timestamp: new Date().toISOString(),
+      ...screenshot
+    });
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.flushing) {
+      this.flushing = this.drain()
+        .catch((error: any) => {
+          // Registration failed; everything stays queued. A rejected
+          // registration is not retried until new entries arrive, nor are
+          // failures past the retry limit (as in drain)
+          this.reportError(error, 0);
+          if (!this.isRetryable(error)) return;
+
+          this.online = false;
+          this.attempt++;
+          if (this.attempt > this.retry.retries) {
+            this.attempt = 0;
+            return;
+          }
+          this.scheduleFlush(this.backoffDelay());
+        })
+        .then(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+}
+
+export function createAllogClient(options: AllogClientOptions): AllogClient {
+  return new AllogClientImpl(options);
+}
+
+export default createAllogClient;
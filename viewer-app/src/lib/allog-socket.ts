@@ -0,0 +1,284 @@
+/**
+ * Allog Socket
+ *
+ * Resilient WebSocket connection to the intermediary server: reconnects with
+ * exponential backoff, detects dead connections with the server's ping/pong
+ * handler and notifies listeners after a reconnect so they can backfill.
+ */
+
+import viewerConfig from '../config/config-loader';
+
+export type SocketState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface SocketStatus {
+  state: SocketState;
+  retryCount: number;
+  lastConnected?: string;
+  error?: string;
+}
+
+export interface AllogSocketOptions {
+  url: string;
+  minReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+}
+
+/**
+ * What the server should push to this viewer. Omitted fields don't filter.
+ * scripts/modules accept `*` wildcards; patterns are substrings or /regex/.
+ */
+export interface ViewerSubscription {
+  levels?: string[];
+  minLevel?: string;
+  sources?: string[];
+  scripts?: string[];
+  patterns?: string[];
+  query?: string;
+  includeInternal?: boolean;
+  monitoring?: false | {
+    types?: Array<'variable' | 'state' | 'function' | 'property' | 'event'>;
+    modules?: string[];
+    scripts?: string[];
+  };
+}
+
+type Listener<T> = (value: T) => void;
+
+export interface AllogSocket {
+  connect(): void;
+  close(): void;
+  send(message: any): boolean;
+  subscribe(subscription: ViewerSubscription): void;
+  getStatus(): SocketStatus;
+  onMessage(listener: Listener<any>): () => void;
+  onStatus(listener: Listener<SocketStatus>): () => void;
+  onOpen(listener: Listener<{ reconnected: boolean }>): () => void;
+}
+
+class AllogSocketImpl implements AllogSocket {
+  private options: Required<AllogSocketOptions>;
+  private socket: WebSocket | null = null;
+  private status: SocketStatus = { state: 'closed', retryCount: 0 };
+  private hasConnected = false;
+  private stopped = true;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  private subscription: ViewerSubscription | null = null;
+  private messageListeners: Listener<any>[] = [];
+  private statusListeners: Listener<SocketStatus>[] = [];
+  private openListeners: Listener<{ reconnected: boolean }>[] = [];
+
+  constructor(options: AllogSocketOptions) {
+    this.options = {
+      minReconnectDelay: viewerConfig.minTimeout,
+      maxReconnectDelay: viewerConfig.maxTimeout,
+      heartbeatInterval: 15000,
+      heartbeatTimeout: viewerConfig.connectionTimeout,
+      ...options
+    };
+  }
+
+  private setStatus(update: Partial<SocketStatus>) {
+    this.status = { ...this.status, ...update };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
+
+  private open() {
+    this.setStatus({ state: this.hasConnected ? 'reconnecting' : 'connecting' });
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.options.url);
+    } catch (error) {
+      this.setStatus({ error: error instanceof Error ? error.message : 'Failed to open WebSocket' });
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      const reconnected = this.hasConnected;
+      this.hasConnected = true;
+      this.lastMessageAt = Date.now();
+      this.setStatus({ state: 'open', retryCount: 0, error: undefined, lastConnected: new Date().toISOString() });
+      this.startHeartbeat();
+      // The server forgets subscriptions with the connection
+      if (this.subscription) {
+        this.send({ type: 'subscribe', data: this.subscription });
+      }
+      this.openListeners.forEach(listener => listener({ reconnected }));
+    };
+
+    socket.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      let message: any;
+      try {
+        message = JSON.parse(event.data as string);
+      } catch {
+        return;
+      }
+      if (message.type === 'pong') return;
+      this.messageListeners.forEach(listener => listener(message));
+    };
+
+    socket.onerror = () => {
+      this.setStatus({ error: 'WebSocket error' });
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopHeartbeat();
+      if (this.stopped) {
+        this.setStatus({ state: 'closed' });
+        return;
+      }
+      this.setStatus({ error: this.status.error || `Connection closed (${event.code})` });
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const retryCount = this.status.retryCount + 1;
+    const { minReconnectDelay, maxReconnectDelay } = this.options;
+    const delay = Math.min(maxReconnectDelay, minReconnectDelay * Math.pow(2, retryCount - 1));
+    // Jitter keeps several viewer tabs from reconnecting in lockstep
+    const jittered = Math.round(delay * (0.75 + Math.random() * 0.5));
+
+    this.setStatus({ state: 'reconnecting', retryCount });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, jittered);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      const socket = this.socket;
+      if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+      // Any traffic counts as liveness; a ping unanswered past the timeout
+      // means the connection is dead even if the browser hasn't noticed
+      if (Date.now() - this.lastMessageAt > this.options.heartbeatInterval + this.options.heartbeatTimeout) {
+        this.setStatus({ error: 'Heartbeat timed out' });
+        socket.close();
+        return;
+      }
+      this.send({ type: 'ping', data: { timestamp: Date.now() } });
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  connect(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.open();
+  }
+
+  close(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      try {
+        socket.close();
+      } catch (error) {
+        console.warn('[AllogSocket] Failed to close socket:', error);
+      }
+    }
+    this.setStatus({ state: 'closed' });
+  }
+
+  send(message: any): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  subscribe(subscription: ViewerSubscription): void {
+    this.subscription = subscription;
+    this.send({ type: 'subscribe', data: subscription });
+  }
+
+  getStatus(): SocketStatus {
+    return this.status;
+  }
+
+  private addListener<T>(listeners: Listener<T>[], listener: Listener<T>): () => void {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    };
+  }
+
+  onMessage(listener: Listener<any>): () => void {
+    return this.addListener(this.messageListeners, listener);
+  }
+
+  onStatus(listener: Listener<SocketStatus>): () => void {
+    return this.addListener(this.statusListeners, listener);
+  }
+
+  onOpen(listener: Listener<{ reconnected: boolean }>): () => void {
+    return this.addListener(this.openListeners, listener);
+  }
+}
+
+/**
+ * Resolve the server WebSocket URL for the viewer. Prefers an explicit
+ * WS endpoint provided at build time, then the API target, then the
+ * current host on the server port.
+ */
+export function resolveViewerWebSocketUrl(): string {
+  const envWs = (process as any)?.env?.WS_TARGET as string | undefined;
+  const envApi = (process as any)?.env?.API_TARGET as string | undefined;
+
+  if (envWs && typeof envWs === 'string' && envWs.length > 0) {
+    return envWs;
+  }
+
+  if (envApi && typeof envApi === 'string' && envApi.length > 0) {
+    try {
+      const apiUrl = new URL(envApi);
+      const proto = apiUrl.protocol === 'https:' ? 'wss' : 'ws';
+      // Prefer explicit port if provided; otherwise rely on default scheme port
+      const portSegment = apiUrl.port ? `:${apiUrl.port}` : '';
+      return `${proto}://${apiUrl.hostname}${portSegment}`;
+    } catch {
+      // Fall through to the host-based default
+    }
+  }
+
+  const wsProto = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const host = window.location.hostname;
+  const currentPort = window.location.port;
+  // If viewer runs on viewer port (dev), default WS to server port; otherwise use current port when available
+  const targetPort = currentPort === viewerConfig.viewerPort.toString() ?
+    viewerConfig.serverPort.toString() :
+    (currentPort || viewerConfig.serverPort.toString());
+  return `${wsProto}://${host}:${targetPort}`;
+}
+
+export function createAllogSocket(options: AllogSocketOptions): AllogSocket {
+  return new AllogSocketImpl(options);
+}
+
+export default createAllogSocket;
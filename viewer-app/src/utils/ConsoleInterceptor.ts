@@ -114,7 +114,7 @@ export class ConsoleInterceptor {
 
       // Send to server using the API client
       if (this.apiClient && this.apiClient.sendTextLog) {
-        await this.apiClient.sendTextLog(message, level);
+        await this.apiClient.sendTextLog(message, level, this.scriptId);
       }
     } catch (error) {
       // Don't log errors here to avoid infinite loops
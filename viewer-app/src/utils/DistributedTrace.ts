@@ -0,0 +1,186 @@
+/**
+ * DistributedTrace - one trace's logs and monitoring entries, from every
+ * source, arranged as a span waterfall
+ *
+ * Entries are grouped by spanId and spans nested by parentSpanId. Entries
+ * without a spanId are collected into one span per source. Function entries
+ * become timed calls (see getCallTiming); logs and other monitoring entries
+ * are points in time.
+ */
+
+import { AllogLogEntry, TraceMonitoringEntry, TraceResult } from '../lib/allog-api-client';
+import { getCallTiming } from './TraceBuilder';
+import { meetsMinLevel } from './LogLevels';
+
+export interface TraceItem {
+  kind: 'log' | 'call' | 'monitoring';
+  id: string;
+  sourceId: string;
+  scriptId?: string;
+  start: number;
+  end: number;
+  label: string;
+  level?: string;
+  error?: boolean;
+  log?: AllogLogEntry;
+  entry?: TraceMonitoringEntry;
+}
+
+export interface TraceSpanRow {
+  // Synthetic "source:<id>" for entries without a span
+  spanId: string;
+  parentSpanId: string | null;
+  // parentSpanId names a span with no entries in this trace
+  missingParent: boolean;
+  synthetic: boolean;
+  depth: number;
+  label: string;
+  sources: string[];
+  start: number;
+  end: number;
+  errorCount: number;
+  // Oldest first
+  items: TraceItem[];
+}
+
+export interface DistributedTrace {
+  traceId: string;
+  start: number;
+  end: number;
+  sources: string[];
+  // Depth-first, parents before children, siblings by start time
+  rows: TraceSpanRow[];
+}
+
+const getLogTime = (log: AllogLogEntry): number => {
+  const time = new Date(log.time || log.timestamp || log.serverReceivedAt || '').getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const fromLog = (log: AllogLogEntry): TraceItem => {
+  const time = getLogTime(log);
+  return {
+    kind: 'log',
+    id: log.id,
+    sourceId: log.sourceId || 'unknown',
+    scriptId: log.scriptId,
+    start: time,
+    end: time,
+    label: log.message,
+    level: log.level,
+    error: meetsMinLevel(log.level, 'error'),
+    log
+  };
+};
+
+const fromMonitoring = (entry: TraceMonitoringEntry): TraceItem => {
+  const isCall = entry.type === 'function';
+  const timing = isCall ? getCallTiming(entry) : { start: entry.timestamp, end: entry.timestamp };
+  const metadata = entry.metadata || {};
+  return {
+    kind: isCall ? 'call' : 'monitoring',
+    id: entry.id,
+    sourceId: entry.sourceId || 'unknown',
+    scriptId: entry.scriptId,
+    start: timing.start,
+    end: timing.end,
+    label: isCall ? `${metadata.functionName || entry.name}()` : `${entry.moduleId}.${entry.name}`,
+    error: !!metadata.error,
+    entry
+  };
+};
+
+const getSpanKey = (item: TraceItem, spanId?: string): string =>
+  spanId || `source:${item.sourceId}`;
+
+export const buildDistributedTrace = (result: TraceResult): DistributedTrace => {
+  const spans: Record<string, TraceSpanRow> = {};
+  const order: string[] = [];
+
+  const add = (item: TraceItem, spanId?: string, parentSpanId?: string) => {
+    const key = getSpanKey(item, spanId);
+    let span = spans[key];
+    if (!span) {
+      span = spans[key] = {
+        spanId: key,
+        parentSpanId: null,
+        missingParent: false,
+        synthetic: !spanId,
+        depth: 0,
+        label: '',
+        sources: [],
+        start: item.start,
+        end: item.end,
+        errorCount: 0,
+        items: []
+      };
+      order.push(key);
+    }
+    if (spanId && parentSpanId && !span.parentSpanId && parentSpanId !== spanId) {
+      span.parentSpanId = parentSpanId;
+    }
+    if (span.sources.indexOf(item.sourceId) === -1) span.sources.push(item.sourceId);
+    span.start = Math.min(span.start, item.start);
+    span.end = Math.max(span.end, item.end);
+    if (item.error) span.errorCount++;
+    span.items.push(item);
+  };
+
+  result.logs.forEach(log => add(fromLog(log), log.spanId, log.parentSpanId));
+  result.monitoring.forEach(entry => add(fromMonitoring(entry), entry.spanId, entry.parentSpanId));
+
+  const children: Record<string, string[]> = {};
+  const roots: string[] = [];
+  order.forEach(key => {
+    const span = spans[key];
+    span.items.sort((a, b) => a.start - b.start);
+    // Prefer a log message as the span's name, then the first call
+    const named = span.items.filter(item => item.kind === 'log')[0] ||
+      span.items.filter(item => item.kind === 'call')[0] ||
+      span.items[0];
+    span.label = span.synthetic ? `${span.sources[0]} (no span)` : named.label;
+
+    if (span.parentSpanId && spans[span.parentSpanId]) {
+      (children[span.parentSpanId] = children[span.parentSpanId] || []).push(key);
+    } else {
+      span.missingParent = !!span.parentSpanId;
+      roots.push(key);
+    }
+  });
+
+  const byStart = (a: string, b: string) => spans[a].start - spans[b].start;
+  const rows: TraceSpanRow[] = [];
+  const visited: Record<string, boolean> = {};
+  const visit = (key: string, depth: number) => {
+    // parentSpanId loops would otherwise recurse forever
+    if (visited[key]) return;
+    visited[key] = true;
+    spans[key].depth = depth;
+    rows.push(spans[key]);
+    (children[key] || []).sort(byStart).forEach(child => visit(child, depth + 1));
+  };
+  roots.sort(byStart).forEach(key => visit(key, 0));
+  // Spans only reachable through a loop
+  order.forEach(key => {
+    if (!visited[key]) visit(key, 0);
+  });
+
+  const sources: string[] = [];
+  rows.forEach(row => row.sources.forEach(source => {
+    if (sources.indexOf(source) === -1) sources.push(source);
+  }));
+
+  return {
+    traceId: result.traceId,
+    start: rows.reduce((min, row) => Math.min(min, row.start), Infinity),
+    end: rows.reduce((max, row) => Math.max(max, row.end), -Infinity),
+    sources,
+    rows
+  };
+};
+
+export const formatTraceDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
@@ -0,0 +1,189 @@
+import { toMessageTemplate } from './MessageTemplates';
+import { meetsMinLevel } from './LogLevels';
+
+/**
+ * ErrorFingerprint - groups error logs into issues by what went wrong and
+ * where, ignoring the values, line numbers and build hashes that differ
+ * between occurrences
+ */
+
+// Top frames that make up a fingerprint; deeper frames are mostly framework
+const FINGERPRINT_FRAMES = 5;
+
+export interface FingerprintableLog {
+  message: string;
+  level: string;
+  stack?: string;
+  time?: string;
+  timestamp?: string;
+  scriptId?: string;
+  sourceId?: string;
+}
+
+export interface ErrorIssue {
+  fingerprint: string;
+  // Error type from the stack's first line, e.g. "TypeError"
+  errorType: string;
+  template: string;
+  frames: string[];
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  sources: string[];
+  scripts: string[];
+  // Indexes of the matching logs in the grouped array, oldest first
+  members: number[];
+}
+
+// "    at fn (webpack:///src/a.ts?abc:12:5)" or "fn@http://host/a.js:12:5"
+const V8_FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+)$/;
+// Runtime frames; "index 0" comes from "at async Promise.all (index 0)"
+const INTERNAL_FRAME = /^(node:)?internal[/:]|^native$|^index \d+$|<anonymous>$/;
+
+/**
+ * Reduce a frame location to something stable across builds and restarts:
+ * no scheme/host, query string, line or column
+ */
+const normalizeLocation = (location: string): string =>
+  location
+    .replace(/^[a-z-]+:\/\/\/?[^/]*/i, '')
+    .replace(/[?#][^:]*/, '')
+    .replace(/(:\d+)+$/, '')
+    // Hashed bundle names: main.3f9a2c1b.js -> main.js
+    .replace(/\.[0-9a-f]{8,}\./gi, '.');
+
+/**
+ * Normalized "function location" frames, top of the stack first
+ */
+export const parseStackFrames = (stack: string): string[] => {
+  const frames: string[] = [];
+  String(stack).split('\n').forEach(line => {
+    // "@" alone also appears in messages, so Gecko frames need a line number
+    const gecko = GECKO_FRAME.exec(line);
+    const match = V8_FRAME.exec(line) || (gecko && /:\d+$/.test(gecko[2]) ? gecko : null);
+    if (!match) return;
+    const location = normalizeLocation(match[2]);
+    if (INTERNAL_FRAME.test(location)) return;
+    const fn = (match[1] || '').replace(/^(async|new)\s+/, '').trim();
+    frames.push(fn ? `${fn} ${location}` : location);
+  });
+  return frames;
+};
+
+// "TypeError: x is undefined" -> "TypeError"
+const getErrorType = (stack?: string): string => {
+  const match = stack ? /^\s*([A-Za-z_$][\w$.]*)(?::|$)/.exec(stack.split('\n')[0]) : null;
+  return match ? match[1] : 'Error';
+};
+
+// Short, stable, non-cryptographic hash (djb2)
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// error, fatal and any custom level ranked above error
+export const isErrorLog = (log: FingerprintableLog): boolean => meetsMinLevel(log.level, 'error') || !!log.stack;
+
+// The same logs as isErrorLog, as a query for /api/logs
+export const ERROR_LOG_QUERY = 'level>=error OR stack:*';
+
+/**
+ * Fingerprint of an error log: error type, message template and the top
+ * stack frames
+ */
+export const fingerprintError = (log: FingerprintableLog): { fingerprint: string; errorType: string; template: string; frames: string[] } => {
+  const errorType = getErrorType(log.stack);
+  const template = toMessageTemplate(log.message);
+  const frames = log.stack ? parseStackFrames(log.stack).slice(0, FINGERPRINT_FRAMES) : [];
+  return {
+    fingerprint: hashString([errorType, template].concat(frames).join('\n')),
+    errorType,
+    template,
+    frames
+  };
+};
+
+const getLogTime = (log: FingerprintableLog): number => {
+  const time = new Date(log.time || log.timestamp || '').getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Group the error logs among `logs` into issues, most recent first
+ */
+export const groupIssues = (logs: FingerprintableLog[]): ErrorIssue[] => {
+  const issues: Record<string, ErrorIssue> = {};
+  const order: string[] = [];
+
+  logs.forEach((log, index) => {
+    if (!isErrorLog(log)) return;
+    const { fingerprint, errorType, template, frames } = fingerprintError(log);
+    let issue = issues[fingerprint];
+    if (!issue) {
+      issue = issues[fingerprint] = {
+        fingerprint,
+        errorType,
+        template,
+        frames,
+        count: 0,
+        firstSeen: Infinity,
+        lastSeen: 0,
+        sources: [],
+        scripts: [],
+        members: []
+      };
+      order.push(fingerprint);
+    }
+    const time = getLogTime(log);
+    issue.count++;
+    issue.firstSeen = Math.min(issue.firstSeen, time);
+    issue.lastSeen = Math.max(issue.lastSeen, time);
+    if (log.sourceId && issue.sources.indexOf(log.sourceId) === -1) issue.sources.push(log.sourceId);
+    if (log.scriptId && issue.scripts.indexOf(log.scriptId) === -1) issue.scripts.push(log.scriptId);
+    issue.members.push(index);
+  });
+
+  return order
+    .map(fingerprint => {
+      const issue = issues[fingerprint];
+      if (issue.firstSeen === Infinity) issue.firstSeen = 0;
+      issue.members.sort((a, b) => getLogTime(logs[a]) - getLogTime(logs[b]));
+      return issue;
+    })
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+};
+
+/**
+ * Occurrences of an issue per bucket across [start, end], for sparklines
+ */
+export const getIssueFrequency = (
+  issue: ErrorIssue,
+  logs: FingerprintableLog[],
+  start: number,
+  end: number,
+  bucketCount: number
+): number[] => {
+  const counts: number[] = [];
+  for (let i = 0; i < bucketCount; i++) counts.push(0);
+  const span = Math.max(1, end - start);
+  issue.members.forEach(index => {
+    const bucket = Math.floor((getLogTime(logs[index]) - start) / span * bucketCount);
+    counts[Math.min(Math.max(bucket, 0), bucketCount - 1)]++;
+  });
+  return counts;
+};
+
+/**
+ * Resolved issues reopen when they occur again after being resolved
+ */
+export type IssueStatus = 'open' | 'resolved' | 'reopened';
+
+export const getIssueStatus = (issue: ErrorIssue, resolvedAt?: string): IssueStatus => {
+  if (!resolvedAt) return 'open';
+  return issue.lastSeen > new Date(resolvedAt).getTime() ? 'reopened' : 'resolved';
+};
@@ -0,0 +1,207 @@
+/**
+ * LogComparison - lines up two log streams or two monitoring snapshots for
+ * the comparison workspace
+ *
+ * Logs pair up when they share a message template and, in time mode, fall
+ * within the tolerance of each other. Anything left unpaired exists on one
+ * side only.
+ */
+
+import { toMessageTemplate } from './MessageTemplates';
+import { SnapshotModule } from './MonitoringSnapshot';
+
+/**
+ * Log fields the comparison reads; both server entries and the Logs view's
+ * entries fit
+ */
+export interface ComparableLog {
+  id: string;
+  message: string;
+  level: string;
+  time?: string;
+  timestamp?: string;
+  serverReceivedAt?: string;
+  scriptId?: string;
+  sourceId?: string;
+}
+
+export interface AlignedLog {
+  log: ComparableLog;
+  time: number;
+  template: string;
+}
+
+export type ComparisonSide = 'left' | 'right';
+
+export interface TimeAlignedRow {
+  time: number;
+  left?: AlignedLog;
+  right?: AlignedLog;
+}
+
+export interface TemplateAlignedRow {
+  template: string;
+  left: AlignedLog[];
+  right: AlignedLog[];
+  firstTime: number;
+}
+
+export interface MonitoringComparisonRow {
+  key: string;
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  left?: any;
+  right?: any;
+  inLeft: boolean;
+  inRight: boolean;
+  changed: boolean;
+}
+
+const getLogTime = (log: ComparableLog): number => {
+  const time = new Date(log.time || log.timestamp || log.serverReceivedAt || '').getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Logs with their time and template, oldest first; `relative` measures time
+ * from the first entry so runs recorded at different times line up
+ */
+export const prepareLogs = (logs: ComparableLog[], relative = false): AlignedLog[] => {
+  const prepared = logs
+    .map(log => ({ log, time: getLogTime(log), template: toMessageTemplate(log.message) }))
+    .sort((a, b) => a.time - b.time);
+  if (relative && prepared.length > 0) {
+    const start = prepared[0].time;
+    prepared.forEach(entry => {
+      entry.time -= start;
+    });
+  }
+  return prepared;
+};
+
+/**
+ * One row per pair of matching logs or per unmatched log, in time order
+ */
+export const alignByTime = (left: AlignedLog[], right: AlignedLog[], toleranceMs: number): TimeAlignedRow[] => {
+  // Unmatched right-hand logs per template, oldest first
+  const pending: Record<string, AlignedLog[]> = {};
+  right.forEach(entry => {
+    (pending[entry.template] || (pending[entry.template] = [])).push(entry);
+  });
+
+  const rows: TimeAlignedRow[] = [];
+  const matched: Record<string, boolean> = {};
+
+  left.forEach(entry => {
+    const candidates = pending[entry.template];
+    // Drop candidates already too old to match this or any later log
+    while (candidates && candidates.length > 0 && candidates[0].time < entry.time - toleranceMs) {
+      candidates.shift();
+    }
+    const candidate = candidates && candidates.length > 0 && candidates[0].time <= entry.time + toleranceMs
+      ? candidates.shift()
+      : undefined;
+    if (candidate) {
+      matched[candidate.log.id] = true;
+      rows.push({ time: Math.min(entry.time, candidate.time), left: entry, right: candidate });
+    } else {
+      rows.push({ time: entry.time, left: entry });
+    }
+  });
+
+  right.forEach(entry => {
+    if (!matched[entry.log.id]) rows.push({ time: entry.time, right: entry });
+  });
+
+  return rows.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * One row per template, ordered by first occurrence on either side
+ */
+export const alignByTemplate = (left: AlignedLog[], right: AlignedLog[]): TemplateAlignedRow[] => {
+  const rows: Record<string, TemplateAlignedRow> = {};
+  const add = (entry: AlignedLog, side: ComparisonSide) => {
+    const row = rows[entry.template] || (rows[entry.template] = {
+      template: entry.template,
+      left: [],
+      right: [],
+      firstTime: entry.time
+    });
+    row[side].push(entry);
+    row.firstTime = Math.min(row.firstTime, entry.time);
+  };
+  left.forEach(entry => add(entry, 'left'));
+  right.forEach(entry => add(entry, 'right'));
+
+  return Object.keys(rows)
+    .map(template => rows[template])
+    .sort((a, b) => a.firstTime - b.firstTime);
+};
+
+const sameValue = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+const flattenModules = (modules: { [moduleId: string]: SnapshotModule }) => {
+  const flat: Record<string, { moduleId: string; scriptId: string; type: string; name: string; value: any }> = {};
+  Object.keys(modules).forEach(moduleId => {
+    const scripts = modules[moduleId].scripts;
+    Object.keys(scripts).forEach(scriptId => {
+      const script = scripts[scriptId];
+      (['variables', 'states', 'functions', 'properties', 'events'] as const).forEach(category => {
+        Object.keys(script[category]).forEach(name => {
+          const entry = script[category][name];
+          flat[JSON.stringify([moduleId, scriptId, entry.type, name])] = {
+            moduleId,
+            scriptId,
+            type: entry.type,
+            name,
+            value: entry.value
+          };
+        });
+      });
+    });
+  });
+  return flat;
+};
+
+/**
+ * Every variable of either snapshot with its value on both sides
+ */
+export const compareMonitoring = (
+  left: { [moduleId: string]: SnapshotModule },
+  right: { [moduleId: string]: SnapshotModule }
+): MonitoringComparisonRow[] => {
+  const leftFlat = flattenModules(left);
+  const rightFlat = flattenModules(right);
+  const keys = Object.keys(leftFlat);
+  Object.keys(rightFlat).forEach(key => {
+    if (!leftFlat[key]) keys.push(key);
+  });
+
+  return keys.sort().map(key => {
+    const l = leftFlat[key];
+    const r = rightFlat[key];
+    const base = l || r;
+    return {
+      key,
+      moduleId: base.moduleId,
+      scriptId: base.scriptId,
+      type: base.type,
+      name: base.name,
+      left: l ? l.value : undefined,
+      right: r ? r.value : undefined,
+      inLeft: !!l,
+      inRight: !!r,
+      changed: !!l && !!r && !sameValue(l.value, r.value)
+    };
+  });
+};
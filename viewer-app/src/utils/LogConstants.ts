@@ -3,6 +3,8 @@
  * Ensures consistent log structure across Allogi applications
  */
 
+import { normalizeLevelName } from './LogLevels';
+
 export interface StandardLogEntry {
   // Required fields
   id: string;
@@ -31,19 +33,41 @@ export interface StandardLogEntry {
   retryable?: boolean;
   
   // Allogi-specific fields
+  provenance?: LogProvenance;
   recursive?: boolean;
   moduleId?: string;
   sourceVersion?: string;
   contentType?: string;
   transmissionId?: string;
   sequenceNumber?: number;
+  // Correlation across sources; see TracePage
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
   serverReceivedAt?: string;
-  quality?: 'valid' | 'malformed' | 'error';
+  quality?: 'valid' | 'normal' | 'parsed' | 'raw-text' | 'malformed' | 'error';
+
+  // OpenTelemetry fields from the OTLP receiver. Attribute keys keep their
+  // dotted OTel names, e.g. attributes['http.method'].
+  severityNumber?: number;
+  attributes?: Record<string, any>;
+  resource?: Record<string, any>;
+  scope?: { name: string; version?: string };
 }
 
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'test';
+// Levels in the default registry, see LogLevels.ts. Custom levels from
+// viewer-config.json arrive as plain strings.
+export type LogLevel = 'trace' | 'debug' | 'test' | 'info' | 'notice' | 'warn' | 'error' | 'fatal';
+
+/**
+ * Where a log came from, assigned by the server on ingest: 'internal' for
+ * the server's own logs (ServerSourceType) and the viewer's, 'application'
+ * for everything producers send
+ */
+export type LogProvenance = 'application' | 'internal';
 
 export interface ServerLogEntry extends StandardLogEntry {
+  provenance: 'internal';
   recursive: true;
   scriptId: 'SERVER';
   sourceId: 'SERVER';
@@ -60,6 +84,7 @@ export type ServerSourceType =
   | 'startup_shutdown';
 
 export interface ApplicationLogEntry extends StandardLogEntry {
+  provenance: 'application';
   recursive: false;
   scriptId: string;
   sourceId: string;
@@ -93,15 +118,19 @@ export const LOG_FIELDS = {
     STARTUP_SHUTDOWN: 'startup_shutdown',
     APPLICATION: 'application',
     LIBRARY: 'library',
-    FEATURE: 'feature'
+    FEATURE: 'feature',
+    OPENTELEMETRY: 'opentelemetry'
   },
   
   LEVELS: {
+    TRACE: 'trace',
     DEBUG: 'debug',
+    TEST: 'test',
     INFO: 'info',
+    NOTICE: 'notice',
     WARN: 'warn',
     ERROR: 'error',
-    TEST: 'test'
+    FATAL: 'fatal'
   }
 } as const;
 
@@ -124,26 +153,22 @@ export const LogValidator = {
   },
 
   /**
-   * Check if a log entry is a server log
+   * Check if a log entry is internal (server or viewer) output. Relies on
+   * the provenance the server assigned rather than guessing from names.
    */
   isServerLog(log: any): log is ServerLogEntry {
-    if (!this.isValid(log)) return false;
-    
-    const scriptId = log.scriptId.toLowerCase();
-    const sourceId = log.sourceId.toLowerCase();
-    const sourceType = log.sourceType.toLowerCase();
-    
-    return (
-      log.recursive === true ||
-      scriptId === 'server' ||
-      sourceId === 'server' ||
-      sourceType === 'server' ||
-      sourceType.includes('logger') ||
-      sourceType.includes('handler') ||
-      sourceType.includes('checker') ||
-      sourceType.includes('collector') ||
-      sourceType.includes('adapter')
-    );
+    return this.isValid(log) && this.getProvenance(log) === 'internal';
+  },
+
+  /**
+   * Provenance of a log entry; entries from servers that predate the field
+   * fall back to the recursive flag
+   */
+  getProvenance(log: any): LogProvenance {
+    if (log && (log.provenance === 'internal' || log.provenance === 'application')) {
+      return log.provenance;
+    }
+    return log && log.recursive === true ? 'internal' : 'application';
   },
 
   /**
@@ -165,9 +190,9 @@ export const LogValidator = {
     return {
       id: log.id || `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       message: log.message || 'Log entry',
-      level: this.normalizeLevel(log.level),
+      level: this.normalizeLevel(log.level || log.severity),
       timestamp: log.timestamp || log.time || new Date().toISOString(),
-      scriptId: log.scriptId || LOG_FIELDS.SCRIPT_IDS.UNKNOWN,
+      scriptId: log.scriptId || log.scope?.name || LOG_FIELDS.SCRIPT_IDS.UNKNOWN,
       sourceId: log.sourceId || LOG_FIELDS.SOURCE_IDS.UNKNOWN,
       sourceType: log.sourceType || LOG_FIELDS.SOURCE_TYPES.APPLICATION,
       data: log.data,
@@ -181,14 +206,22 @@ export const LogValidator = {
       category: log.category,
       severity: log.severity,
       retryable: log.retryable,
+      provenance: this.getProvenance(log),
       recursive: log.recursive || false,
       moduleId: log.moduleId,
       sourceVersion: log.sourceVersion,
       contentType: log.contentType,
       transmissionId: log.transmissionId,
       sequenceNumber: log.sequenceNumber,
+      traceId: log.traceId,
+      spanId: log.spanId,
+      parentSpanId: log.parentSpanId,
       serverReceivedAt: log.serverReceivedAt,
-      quality: log.quality || 'valid'
+      quality: log.quality || 'valid',
+      severityNumber: log.severityNumber,
+      attributes: log.attributes,
+      resource: log.resource,
+      scope: log.scope
     };
   },
 
@@ -196,16 +229,7 @@ export const LogValidator = {
    * Normalize log level to standard values
    */
   normalizeLevel(level: any): LogLevel {
-    if (!level || typeof level !== 'string') return LOG_FIELDS.LEVELS.INFO;
-    
-    const normalized = level.toLowerCase();
-    
-    if (normalized === 'debug' || normalized === 'dbg') return LOG_FIELDS.LEVELS.DEBUG;
-    if (normalized === 'info' || normalized === 'information') return LOG_FIELDS.LEVELS.INFO;
-    if (normalized === 'warn' || normalized === 'warning') return LOG_FIELDS.LEVELS.WARN;
-    if (normalized === 'error' || normalized === 'err') return LOG_FIELDS.LEVELS.ERROR;
-    if (normalized === 'test') return LOG_FIELDS.LEVELS.TEST;
-    
-    return LOG_FIELDS.LEVELS.INFO;
+    // Registered names and their aliases, e.g. "WARNING" or OTel's "WARN2"
+    return (normalizeLevelName(level) || LOG_FIELDS.LEVELS.INFO) as LogLevel;
   }
 };
@@ -9,9 +9,14 @@ export interface FormattedLog {
   message: string;
   details?: string;
   metadata?: Record<string, any>;
+  // OpenTelemetry log and resource attributes, keyed by dotted OTel name
+  attributes?: Record<string, any>;
+  resource?: Record<string, any>;
   isServerLog: boolean;
 }
 
+export type JsonValueType = 'null' | 'undefined' | 'array' | 'object' | 'string' | 'number' | 'boolean' | 'unknown';
+
 export class LogFormatter {
   /**
    * Format a log entry for display
@@ -107,22 +112,49 @@ export class LogFormatter {
   }
 
   /**
-   * Format application logs (keep as-is)
+   * Format application logs (keep as-is). OTel logs also carry their
+   * severity, scope and attributes.
    */
-  private static formatApplicationLog(log: any): FormattedLog {
+  private static formatApplicationLog(log: StandardLogEntry): FormattedLog {
+    const metadata: Record<string, any> = {
+      scriptId: log.scriptId,
+      sourceId: log.sourceId,
+      level: log.level,
+      time: log.time || log.timestamp
+    };
+    if (log.severity) metadata.severity = log.severity;
+    if (log.severityNumber) metadata.severityNumber = log.severityNumber;
+    if (log.scope) metadata.scope = log.scope.version ? `${log.scope.name} ${log.scope.version}` : log.scope.name;
+
     return {
       message: log.message || 'Application log entry',
       details: log.data ? JSON.stringify(log.data, null, 2) : undefined,
-      metadata: {
-        scriptId: log.scriptId,
-        sourceId: log.sourceId,
-        level: log.level,
-        time: log.time || log.timestamp
-      },
+      metadata,
+      attributes: this.nonEmpty(log.attributes),
+      resource: this.nonEmpty(log.resource),
       isServerLog: false
     };
   }
 
+  private static nonEmpty(value?: Record<string, any>): Record<string, any> | undefined {
+    return value && typeof value === 'object' && Object.keys(value).length > 0 ? value : undefined;
+  }
+
+  /**
+   * Classify a value for type-coloured display
+   */
+  static getValueType(value: any): JsonValueType {
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (Array.isArray(value)) return 'array';
+    const t = typeof value;
+    if (t === 'object') return 'object';
+    if (t === 'string') return 'string';
+    if (t === 'number') return 'number';
+    if (t === 'boolean') return 'boolean';
+    return 'unknown';
+  }
+
   /**
    * Format a value for display (handles objects, arrays, primitives)
    */
@@ -0,0 +1,154 @@
+/**
+ * LogLevels - the level registry
+ *
+ * Levels are names with a numeric severity on the OpenTelemetry
+ * SeverityNumber scale (trace 1, debug 5, info 9, notice 10, warn 13,
+ * error 17, fatal 21). The table, custom levels and aliases included, is
+ * the server's (GET /api/levels, see useLevelRegistry); until it loads, or
+ * if it can't, the names in viewer-config.json are ranked by the server's
+ * default table. Colours come from viewer-config.json.
+ */
+
+import viewerConfig from '../config/config-loader';
+import { LevelRegistryResult } from '../lib/allog-api-client';
+
+export interface LevelDefinition {
+  name: string;
+  severity?: number;
+  color: string;
+}
+
+// Mirrors the server's defaults in server/log-levels.js
+const DEFAULT_SEVERITIES: Record<string, number> = {
+  trace: 1,
+  debug: 5,
+  test: 5,
+  info: 9,
+  notice: 10,
+  warn: 13,
+  error: 17,
+  fatal: 21
+};
+
+const DEFAULT_ALIASES: Record<string, string> = {
+  dbg: 'debug',
+  verbose: 'debug',
+  information: 'info',
+  warning: 'warn',
+  err: 'error',
+  severe: 'error',
+  crit: 'fatal',
+  critical: 'fatal',
+  alert: 'fatal',
+  emerg: 'fatal',
+  emergency: 'fatal',
+  panic: 'fatal'
+};
+
+let names: string[] = viewerConfig.validLogLevels;
+let severities: Record<string, number> = { ...DEFAULT_SEVERITIES };
+let aliases: Record<string, string> = { ...DEFAULT_ALIASES };
+
+export const setLevelRegistry = (registry: LevelRegistryResult): void => {
+  names = registry.levels.map(level => level.name);
+  severities = {};
+  registry.levels.forEach(level => {
+    severities[level.name] = level.severity;
+  });
+  aliases = registry.aliases || {};
+};
+
+const isRegistered = (level: string | undefined): level is string =>
+  level !== undefined && names.indexOf(level) !== -1;
+
+/**
+ * The registered name for a level as another logger may write it
+ * ("WARNING", "Err", OTel's "INFO2"), or undefined when unknown
+ */
+export const normalizeLevelName = (level: any): string | undefined => {
+  if (typeof level !== 'string') return undefined;
+  const lower = level.trim().toLowerCase();
+  const candidates = [lower, lower.replace(/\d+$/, '')];
+  for (let i = 0; i < candidates.length; i++) {
+    if (isRegistered(candidates[i])) return candidates[i];
+    if (isRegistered(aliases[candidates[i]])) return aliases[candidates[i]];
+  }
+  return undefined;
+};
+
+// Severity of a level name, or a number given as one; undefined if unknown
+export const getLevelSeverity = (level: any): number | undefined => {
+  if (typeof level === 'number') return level;
+  if (typeof level === 'string' && /^\d+$/.test(level.trim())) return parseInt(level, 10);
+  const name = normalizeLevelName(level);
+  return name === undefined ? undefined : severities[name];
+};
+
+/**
+ * Compare two levels by severity; null when either is unknown
+ */
+export const compareLevels = (a: any, b: any): number | null => {
+  const left = getLevelSeverity(a);
+  const right = getLevelSeverity(b);
+  if (left === undefined || right === undefined) return null;
+  return left - right;
+};
+
+// Unknown levels never meet a minimum
+export const meetsMinLevel = (level: any, minLevel: string): boolean => {
+  const difference = compareLevels(level, minLevel);
+  return difference !== null && difference >= 0;
+};
+
+export const levelsAtLeast = (minLevel: string): string[] => {
+  const minimum = getLevelSeverity(minLevel);
+  if (minimum === undefined) return [];
+  return names.filter(name => severities[name] >= minimum);
+};
+
+/**
+ * A level without a configured colour, such as a custom server level, takes
+ * the colour of the nearest less severe level that has one
+ */
+export const getLevelColor = (level: any): string => {
+  const name = normalizeLevelName(level) || level;
+  const colors = viewerConfig.logLevelColors;
+  const severity = severities[name];
+  if (!colors[name] && severity !== undefined) {
+    let nearest: string | undefined;
+    names.forEach(other => {
+      if (colors[other] && severities[other] <= severity &&
+          (nearest === undefined || severities[other] > severities[nearest])) {
+        nearest = other;
+      }
+    });
+    if (nearest) return colors[nearest];
+  }
+  return viewerConfig.getLogLevelColor(name);
+};
+
+// Least to most severe
+export const getLogLevels = (): LevelDefinition[] => names.map(name => ({
+  name,
+  severity: severities[name],
+  color: getLevelColor(name)
+}));
+
+/**
+ * Level filter values: a level name matches that level only, ">=warn"
+ * matches warn and everything more severe
+ */
+export const MIN_LEVEL_PREFIX = '>=';
+
+export const parseLevelFilter = (filter: string): { level?: string; minLevel?: string } => {
+  if (!filter) return {};
+  return filter.indexOf(MIN_LEVEL_PREFIX) === 0
+    ? { minLevel: filter.slice(MIN_LEVEL_PREFIX.length) }
+    : { level: filter };
+};
+
+export const matchesLevelFilter = (level: any, filter: string): boolean => {
+  const parsed = parseLevelFilter(filter);
+  if (parsed.minLevel) return meetsMinLevel(level, parsed.minLevel);
+  return !parsed.level || level === parsed.level;
+};
@@ -0,0 +1,153 @@
+/**
+ * MessageTemplates - reduces log messages to their constant text so that
+ * "Loaded 12 items in 40ms" and "Loaded 7 items in 3ms" count as the same
+ * message
+ */
+
+// Applied in order; earlier patterns must not be broken up by later ones
+const TEMPLATE_RULES: Array<{ pattern: RegExp; placeholder: string }> = [
+  { pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, placeholder: '<uuid>' },
+  { pattern: /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?\b/g, placeholder: '<time>' },
+  { pattern: /\bhttps?:\/\/[^\s"']+/g, placeholder: '<url>' },
+  // \B keeps apostrophes ("can't ... isn't") from reading as quotes
+  { pattern: /"[^"]*"|\B'[^']*'\B/g, placeholder: '<str>' },
+  { pattern: /\b0x[0-9a-f]+\b/gi, placeholder: '<hex>' },
+  { pattern: /\b(?=[0-9a-f]*\d)[0-9a-f]{12,}\b/gi, placeholder: '<hex>' },
+  // No trailing boundary, so units stay: "40ms" -> "<num>ms"
+  { pattern: /-?\b\d+(\.\d+)?/g, placeholder: '<num>' }
+];
+
+export const toMessageTemplate = (message: string): string => {
+  let template = String(message);
+  TEMPLATE_RULES.forEach(rule => {
+    template = template.replace(rule.pattern, rule.placeholder);
+  });
+  return template.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Template mining
+ *
+ * Messages are first grouped by their exact template. Groups with the same
+ * first word and number of words that agree on most positions are then
+ * merged, and the positions where they differ become <*>, so
+ * "User alice logged in" and "User bob logged in" end up as one pattern.
+ */
+
+export const WILDCARD = '<*>';
+
+// Share of word positions two templates must agree on to be merged
+const MERGE_SIMILARITY = 0.7;
+// Shorter templates merge too eagerly ("Saved x" vs "Saved y")
+const MIN_MERGE_TOKENS = 3;
+
+export interface MinableLog {
+  message: string;
+  level: string;
+  time?: string;
+  timestamp?: string;
+}
+
+export interface LogPattern {
+  template: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  levels: Record<string, number>;
+  // Indexes of the matching logs in the mined array
+  members: number[];
+}
+
+const tokenize = (template: string): string[] => (template ? template.split(' ') : []);
+
+const getMinableTime = (log: MinableLog): number => {
+  const time = new Date(log.time || log.timestamp || '').getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Whether `tokens` can join a cluster with `clusterTokens`; returns the merged
+ * tokens or null
+ */
+const mergeTokens = (clusterTokens: string[], tokens: string[]): string[] | null => {
+  if (clusterTokens.length !== tokens.length || tokens.length < MIN_MERGE_TOKENS) return null;
+  if (clusterTokens[0] !== tokens[0]) return null;
+
+  let same = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (clusterTokens[i] === tokens[i]) same++;
+  }
+  if (same / tokens.length < MERGE_SIMILARITY) return null;
+
+  return clusterTokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+};
+
+export const mineTemplates = (logs: MinableLog[]): LogPattern[] => {
+  // Exact templates first
+  const groups: Record<string, number[]> = {};
+  const order: string[] = [];
+  logs.forEach((log, index) => {
+    const template = toMessageTemplate(log.message);
+    if (!groups[template]) {
+      groups[template] = [];
+      order.push(template);
+    }
+    groups[template].push(index);
+  });
+
+  // Largest groups seed the clusters so rare variants join them
+  order.sort((a, b) => groups[b].length - groups[a].length);
+
+  const clusters: Array<{ tokens: string[]; members: number[] }> = [];
+  const byShape: Record<string, number[]> = {};
+  order.forEach(template => {
+    const tokens = tokenize(template);
+    const shape = `${tokens.length}:${tokens[0] || ''}`;
+    const candidates = byShape[shape] || (byShape[shape] = []);
+
+    for (let i = 0; i < candidates.length; i++) {
+      const cluster = clusters[candidates[i]];
+      const merged = mergeTokens(cluster.tokens, tokens);
+      if (merged) {
+        cluster.tokens = merged;
+        cluster.members = cluster.members.concat(groups[template]);
+        return;
+      }
+    }
+    candidates.push(clusters.length);
+    clusters.push({ tokens, members: groups[template].slice() });
+  });
+
+  return clusters.map(cluster => {
+    const pattern: LogPattern = {
+      template: cluster.tokens.join(' '),
+      count: cluster.members.length,
+      firstSeen: Infinity,
+      lastSeen: 0,
+      levels: {},
+      members: cluster.members.sort((a, b) => a - b)
+    };
+    cluster.members.forEach(index => {
+      const log = logs[index];
+      const time = getMinableTime(log);
+      pattern.firstSeen = Math.min(pattern.firstSeen, time);
+      pattern.lastSeen = Math.max(pattern.lastSeen, time);
+      pattern.levels[log.level] = (pattern.levels[log.level] || 0) + 1;
+    });
+    if (pattern.firstSeen === Infinity) pattern.firstSeen = 0;
+    return pattern;
+  });
+};
+
+/**
+ * Whether a message fits a (possibly wildcarded) template
+ */
+export const matchesTemplate = (message: string, template: string): boolean => {
+  const tokens = tokenize(toMessageTemplate(message));
+  const patternTokens = tokenize(template);
+  if (tokens.length !== patternTokens.length) return false;
+  for (let i = 0; i < tokens.length; i++) {
+    if (patternTokens[i] !== WILDCARD && patternTokens[i] !== tokens[i]) return false;
+  }
+  return true;
+};
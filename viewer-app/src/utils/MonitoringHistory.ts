@@ -0,0 +1,97 @@
+/**
+ * MonitoringHistory - helpers shared by the history chart, the table
+ * sparklines and the history panel
+ */
+
+import { MonitoringHistoryEntry } from '../lib/allog-api-client';
+
+// Numbers get a line chart; booleans, strings and anything else a state band
+export type HistoryKind = 'numeric' | 'state';
+
+export type TimeDomain = [number, number];
+
+const STATE_COLORS = [
+  '#4ec9b0', '#569cd6', '#dcdcaa', '#c586c0', '#ce9178',
+  '#9cdcfe', '#d7ba7d', '#b5cea8', '#f44747', '#808080'
+];
+
+const isFiniteNumber = (value: any): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+export const getHistoryKind = (entries: MonitoringHistoryEntry[]): HistoryKind =>
+  entries.length > 0 && entries.every(entry => isFiniteNumber(entry.value)) ? 'numeric' : 'state';
+
+/**
+ * Short single-line label for a value, used as the state band key
+ */
+export const getStateLabel = (value: any): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'object') {
+    try {
+      const json = JSON.stringify(value);
+      return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+    } catch {
+      return '[Complex Object]';
+    }
+  }
+  return String(value);
+};
+
+/**
+ * Stable color per state label. Booleans keep fixed colors so true/false
+ * read the same on every chart.
+ */
+export const getStateColor = (label: string): string => {
+  if (label === 'true') return '#4ec9b0';
+  if (label === 'false') return '#f44747';
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) {
+    hash = ((hash << 5) - hash + label.charCodeAt(i)) | 0;
+  }
+  return STATE_COLORS[Math.abs(hash) % STATE_COLORS.length];
+};
+
+/**
+ * Entries whose value holds at some point inside the domain: those in range
+ * plus the last one before it, which is still the value at the domain start
+ */
+export const clipToDomain = (entries: MonitoringHistoryEntry[], domain: TimeDomain): MonitoringHistoryEntry[] => {
+  let first = 0;
+  while (first < entries.length && entries[first].timestamp < domain[0]) first++;
+  let last = first;
+  while (last < entries.length && entries[last].timestamp <= domain[1]) last++;
+  return entries.slice(Math.max(0, first - 1), last);
+};
+
+export const getNumericExtent = (entries: MonitoringHistoryEntry[]): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  entries.forEach(entry => {
+    if (entry.value < min) min = entry.value;
+    if (entry.value > max) max = entry.value;
+  });
+  if (min === Infinity) return [0, 1];
+  // Flat series still need some vertical room
+  if (min === max) return [min - 1, max + 1];
+  return [min, max];
+};
+
+export const formatHistoryTime = (timestamp: number, withMillis = false): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString();
+  if (withMillis) {
+    return `${time}.${('00' + date.getMilliseconds()).slice(-3)}`;
+  }
+  return time;
+};
+
+// Compact axis number: 1234567 -> 1.23M
+export const formatAxisNumber = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e4) return `${(value / 1e3).toFixed(1)}k`;
+  if (abs !== 0 && abs < 0.01) return value.toExponential(1);
+  return String(Math.round(value * 100) / 100);
+};
@@ -0,0 +1,143 @@
+/**
+ * MonitoringSnapshot - rebuilds the monitoring tree at any moment from
+ * per-variable history, for the time-travel scrubber and for snapshots saved
+ * as SaveSystem `monitoring-session` items
+ */
+
+import { MonitoringHistoryEntry, MonitoringHistorySeries } from '../lib/allog-api-client';
+
+export const MONITORING_SNAPSHOT_VERSION = 1;
+
+export interface MonitoringSnapshot {
+  version: number;
+  // The moment the snapshot shows; history after it is not kept
+  capturedAt: number;
+  // Module/script filters it was taken with, empty for everything
+  moduleId?: string;
+  scriptId?: string;
+  series: MonitoringHistorySeries[];
+}
+
+export interface SnapshotEntry extends MonitoringHistoryEntry {
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+}
+
+type SnapshotCategory = 'variables' | 'states' | 'functions' | 'properties' | 'events';
+
+export interface SnapshotScript {
+  variables: { [name: string]: SnapshotEntry };
+  states: { [name: string]: SnapshotEntry };
+  functions: { [name: string]: SnapshotEntry };
+  properties: { [name: string]: SnapshotEntry };
+  events: { [name: string]: SnapshotEntry };
+  lastUpdate: number;
+}
+
+export interface SnapshotModule {
+  moduleId: string;
+  scripts: { [scriptId: string]: SnapshotScript };
+  lastUpdate: number;
+}
+
+const CATEGORIES: SnapshotCategory[] = ['variables', 'states', 'functions', 'properties', 'events'];
+
+export const isMonitoringSnapshot = (data: any): data is MonitoringSnapshot =>
+  !!data &&
+  typeof data === 'object' &&
+  typeof data.capturedAt === 'number' &&
+  Array.isArray(data.series);
+
+/**
+ * Only series matching the Monitoring module/script filters (substrings)
+ */
+export const filterSeries = (
+  series: MonitoringHistorySeries[],
+  moduleId?: string,
+  scriptId?: string
+): MonitoringHistorySeries[] =>
+  series.filter(item =>
+    (!moduleId || item.moduleId.indexOf(moduleId) !== -1) &&
+    (!scriptId || item.scriptId.indexOf(scriptId) !== -1)
+  );
+
+/**
+ * Series cut off at `time`, dropping variables that did not exist yet
+ */
+export const clipSeriesTo = (series: MonitoringHistorySeries[], time: number): MonitoringHistorySeries[] => {
+  const clipped: MonitoringHistorySeries[] = [];
+  series.forEach(item => {
+    const entries = item.entries.filter(entry => entry.timestamp <= time);
+    if (entries.length === 0) return;
+    clipped.push({ ...item, total: entries.length, entries });
+  });
+  return clipped;
+};
+
+/**
+ * Distinct change timestamps, ascending; the scrubber's step positions
+ */
+export const getChangeTimes = (series: MonitoringHistorySeries[]): number[] => {
+  const seen: Record<string, boolean> = {};
+  const times: number[] = [];
+  series.forEach(item => {
+    item.entries.forEach(entry => {
+      if (seen[entry.timestamp]) return;
+      seen[entry.timestamp] = true;
+      times.push(entry.timestamp);
+    });
+  });
+  return times.sort((a, b) => a - b);
+};
+
+/**
+ * The monitoring tree as it was at `time`: for every variable, the last
+ * entry at or before it
+ */
+export const rebuildMonitoringAt = (
+  series: MonitoringHistorySeries[],
+  time: number
+): { [moduleId: string]: SnapshotModule } => {
+  const modules: { [moduleId: string]: SnapshotModule } = {};
+
+  series.forEach(item => {
+    let latest: MonitoringHistoryEntry | null = null;
+    for (let i = 0; i < item.entries.length; i++) {
+      const entry = item.entries[i];
+      if (entry.timestamp > time) continue;
+      if (!latest || entry.timestamp >= latest.timestamp) latest = entry;
+    }
+    if (!latest) return;
+
+    const category = `${item.type}s` as SnapshotCategory;
+    if (CATEGORIES.indexOf(category) === -1) return;
+
+    const moduleData = modules[item.moduleId] || (modules[item.moduleId] = {
+      moduleId: item.moduleId,
+      scripts: {},
+      lastUpdate: 0
+    });
+    const scriptData = moduleData.scripts[item.scriptId] || (moduleData.scripts[item.scriptId] = {
+      variables: {},
+      states: {},
+      functions: {},
+      properties: {},
+      events: {},
+      lastUpdate: 0
+    });
+
+    scriptData[category][item.name] = {
+      ...latest,
+      moduleId: item.moduleId,
+      scriptId: item.scriptId,
+      type: item.type,
+      name: item.name
+    };
+    scriptData.lastUpdate = Math.max(scriptData.lastUpdate, latest.timestamp);
+    moduleData.lastUpdate = Math.max(moduleData.lastUpdate, latest.timestamp);
+  });
+
+  return modules;
+};
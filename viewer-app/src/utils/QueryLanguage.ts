@@ -0,0 +1,470 @@
+/**
+ * QueryLanguage - structured log search
+ *
+ * Parses expressions such as
+ *   level:error script:checkout* data.userId=42 "timeout" -debug since:15m
+ * into a typed AST and evaluates it against log entries. Terms are ANDed,
+ * `OR` and parentheses group, and a leading `-` negates a term.
+ *
+ * The server has a CommonJS port in server/query-language.js; keep the two
+ * in sync so an expression filters the same way on both sides.
+ */
+
+import { compareLevels, normalizeLevelName } from './LogLevels';
+
+export type ComparisonOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'field'; field: string; operator: ComparisonOperator; value: string; quoted: boolean }
+  | { type: 'time'; bound: 'since' | 'until'; value: string };
+
+/**
+ * Minimal shape a log needs to be queryable
+ */
+export interface QueryableLog {
+  message: string;
+  level: string;
+  scriptId?: string;
+  sourceId?: string;
+  time?: string;
+  timestamp?: string;
+  data?: any;
+  [key: string]: any;
+}
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+// Shorthand field names accepted in queries
+export const QUERY_FIELD_ALIASES: Record<string, string> = {
+  script: 'scriptId',
+  source: 'sourceId',
+  msg: 'message',
+  type: 'sourceType',
+  fn: 'functionName',
+  trace: 'traceId',
+  span: 'spanId'
+};
+
+const TEXT_FIELDS = ['message', 'stack'];
+const TIME_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+type TokenType = 'lparen' | 'rparen' | 'not' | 'or' | 'term' | 'phrase';
+
+interface Token {
+  type: TokenType;
+  position: number;
+  raw: string;
+  field?: string;
+  operator?: ComparisonOperator;
+  value?: string;
+  quoted?: boolean;
+}
+
+const FIELD_PATTERN = /^([A-Za-z_][\w.]*)(>=|<=|!=|=|>|<|:)/;
+
+const isSpace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+/**
+ * Read a double-quoted string starting at `start`; returns the unescaped
+ * value and the index after the closing quote
+ */
+const readQuoted = (input: string, start: number): { value: string; end: number } => {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === '\\' && i + 1 < input.length) {
+      value += input[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      return { value, end: i + 1 };
+    }
+    value += ch;
+    i++;
+  }
+  throw new QuerySyntaxError('Unterminated quoted string', start);
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (isSpace(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', position: i, raw: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-' && i + 1 < input.length && !isSpace(input[i + 1]) && input[i + 1] !== ')') {
+      tokens.push({ type: 'not', position: i, raw: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-') {
+      throw new QuerySyntaxError("Expected a term after '-'", i);
+    }
+    if (ch === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: 'phrase', position: i, raw: input.slice(i, end), value });
+      i = end;
+      continue;
+    }
+
+    // Bare word, optionally field<op>value where the value may be quoted
+    const start = i;
+    let word = '';
+    while (i < input.length && !isSpace(input[i]) && input[i] !== '(' && input[i] !== ')' && input[i] !== '"') {
+      word += input[i];
+      i++;
+    }
+
+    if (word === 'OR' || word === 'AND') {
+      if (word === 'OR') tokens.push({ type: 'or', position: start, raw: word });
+      continue;
+    }
+
+    const match = FIELD_PATTERN.exec(word);
+    if (match) {
+      let value = word.slice(match[0].length);
+      let quoted = false;
+      if (value === '' && input[i] === '"') {
+        const read = readQuoted(input, i);
+        value = read.value;
+        quoted = true;
+        i = read.end;
+      }
+      if (value === '' && !quoted) {
+        throw new QuerySyntaxError(`Missing value for '${match[1]}'`, start + match[0].length);
+      }
+      tokens.push({
+        type: 'term',
+        position: start,
+        raw: input.slice(start, i),
+        field: match[1],
+        operator: match[2] as ComparisonOperator,
+        value,
+        quoted
+      });
+      continue;
+    }
+
+    tokens.push({ type: 'term', position: start, raw: word, value: word });
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a relative duration (15m, 2h, 7d) or an absolute date into epoch ms
+ */
+export const resolveQueryTime = (value: string, now: number = Date.now()): number => {
+  const relative = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/.exec(value);
+  if (relative) {
+    return now - parseFloat(relative[1]) * TIME_UNITS[relative[2]];
+  }
+  if (value === 'now') return now;
+  return Date.parse(value);
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private inputLength: number;
+
+  constructor(tokens: Token[], inputLength: number) {
+    this.tokens = tokens;
+    this.inputLength = inputLength;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    const token = this.peek();
+    return token ? token.position : this.inputLength;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new QuerySyntaxError(token.type === 'rparen' ? "Unmatched ')'" : `Unexpected '${token.raw}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+    let token = this.peek();
+    while (token && token.type !== 'or' && token.type !== 'rparen') {
+      children.push(this.parseUnary());
+      token = this.peek();
+    }
+    if (children.length === 0) {
+      throw new QuerySyntaxError('Expected a search term', this.position());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Expected a search term', this.inputLength);
+    }
+
+    if (token.type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      if (this.peek()?.type !== 'rparen') {
+        throw new QuerySyntaxError("Missing ')'", token.position);
+      }
+      this.index++;
+      return node;
+    }
+
+    if (token.type === 'phrase') {
+      this.index++;
+      return { type: 'text', value: token.value as string };
+    }
+
+    if (token.type === 'term') {
+      this.index++;
+      if (!token.field) {
+        return { type: 'text', value: token.value as string };
+      }
+
+      const field = QUERY_FIELD_ALIASES[token.field] || token.field;
+      if (field === 'since' || field === 'until') {
+        if (token.operator !== ':' && token.operator !== '=') {
+          throw new QuerySyntaxError(`'${field}' only supports ':'`, token.position);
+        }
+        if (Number.isNaN(resolveQueryTime(token.value as string))) {
+          throw new QuerySyntaxError(`Invalid time '${token.value}' (use e.g. 15m, 2h, 7d or an ISO date)`, token.position);
+        }
+        return { type: 'time', bound: field, value: token.value as string };
+      }
+
+      return {
+        type: 'field',
+        field,
+        operator: token.operator as ComparisonOperator,
+        value: token.value as string,
+        quoted: !!token.quoted
+      };
+    }
+
+    throw new QuerySyntaxError(`Unexpected '${token.raw}'`, token.position);
+  }
+}
+
+/**
+ * Parse a query string. Returns null for an empty query and throws
+ * QuerySyntaxError for invalid input.
+ */
+export const parseQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, input.length).parse();
+};
+
+/**
+ * Parse without throwing, for use while the user is typing
+ */
+export const tryParseQuery = (input: string): { ast: QueryNode | null; error: QuerySyntaxError | null } => {
+  try {
+    return { ast: parseQuery(input), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { ast: null, error };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Resolve a dotted path (data.user.id) on a log entry. Keys may themselves
+ * contain dots (OTel attributes such as "http.method"), so the rest of the
+ * path is also tried as one key.
+ */
+export const getFieldValue = (log: QueryableLog, path: string): any => {
+  const parts = path.split('.');
+  let current: any = log;
+  for (let i = 0; i < parts.length; i++) {
+    if (current === null || current === undefined) return undefined;
+    const rest = parts.slice(i).join('.');
+    if (i < parts.length - 1 && typeof current === 'object' && rest in current) {
+      return current[rest];
+    }
+    current = current[parts[i]];
+  }
+  return current;
+};
+
+const getLogTime = (log: QueryableLog): number => {
+  const time = Date.parse(log.time || log.timestamp || '');
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[\\s\\S]*').replace(/\?/g, '[\\s\\S]');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+const stringify = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const compareValues = (actual: any, expected: string): number | null => {
+  if (actual === undefined || actual === null) return null;
+
+  const actualText = stringify(actual);
+  const actualNumber = typeof actual === 'number' ? actual : Number(actualText);
+  const expectedNumber = Number(expected);
+  if (actualText.trim() !== '' && expected.trim() !== '' && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)) {
+    return actualNumber - expectedNumber;
+  }
+
+  const actualTime = Date.parse(actualText);
+  const expectedTime = Date.parse(expected);
+  if (!Number.isNaN(actualTime) && !Number.isNaN(expectedTime)) {
+    return actualTime - expectedTime;
+  }
+
+  return actualText < expected ? -1 : actualText > expected ? 1 : 0;
+};
+
+const matchField = (node: Extract<QueryNode, { type: 'field' }>, log: QueryableLog): boolean => {
+  const actual = getFieldValue(log, node.field);
+
+  switch (node.operator) {
+    case ':': {
+      if (actual === undefined || actual === null) return false;
+      const candidates = Array.isArray(actual) ? actual : [actual];
+      // level:warning and level:ERR name the same levels as level:warn, level:error
+      const value = node.field === 'level' ? (normalizeLevelName(node.value) || node.value) : node.value;
+      return candidates.some(candidate => {
+        const text = stringify(candidate);
+        if (!node.quoted && value.indexOf('*') !== -1) {
+          return globToRegExp(value).test(text);
+        }
+        if (TEXT_FIELDS.indexOf(node.field) !== -1) {
+          return text.toLowerCase().indexOf(value.toLowerCase()) !== -1;
+        }
+        return text.toLowerCase() === value.toLowerCase();
+      });
+    }
+    case '=':
+    case '!=': {
+      const equal = compareValues(actual, node.value) === 0;
+      return node.operator === '=' ? equal : !equal;
+    }
+    default: {
+      // level>=warn compares severities rather than names
+      const difference = node.field === 'level'
+        ? compareLevels(actual, node.value)
+        : compareValues(actual, node.value);
+      if (difference === null) return false;
+      if (node.operator === '>') return difference > 0;
+      if (node.operator === '>=') return difference >= 0;
+      if (node.operator === '<') return difference < 0;
+      return difference <= 0;
+    }
+  }
+};
+
+/**
+ * Evaluate an AST against a single log entry. `now` anchors relative
+ * times such as since:15m.
+ */
+export const evaluateQuery = (node: QueryNode, log: QueryableLog, now: number = Date.now()): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => evaluateQuery(child, log, now));
+    case 'or':
+      return node.children.some(child => evaluateQuery(child, log, now));
+    case 'not':
+      return !evaluateQuery(node.child, log, now);
+    case 'text': {
+      const needle = node.value.toLowerCase();
+      if (String(log.message || '').toLowerCase().indexOf(needle) !== -1) return true;
+      return log.data !== undefined && stringify(log.data).toLowerCase().indexOf(needle) !== -1;
+    }
+    case 'field':
+      return matchField(node, log);
+    case 'time': {
+      const bound = resolveQueryTime(node.value, now);
+      const time = getLogTime(log);
+      return node.bound === 'since' ? time >= bound : time <= bound;
+    }
+  }
+};
+
+/**
+ * Build a `field=value` term for a log field path (e.g. ['data', 'user', 'id']).
+ * Returns null when the path can't be written as a query field.
+ */
+export const buildFieldTerm = (path: Array<string | number>, value: string | number | boolean): string | null => {
+  const parts = path.map(String);
+  if (parts.length === 0 || !/^[A-Za-z_]/.test(parts[0]) || !parts.every(part => /^\w+(\.\w+)*$/.test(part))) return null;
+  const field = parts.join('.');
+
+  const text = String(value);
+  const needsQuotes = typeof value === 'string' && (text === '' || /[\s()"\\]/.test(text));
+  return `${field}=${needsQuotes ? `"${text.replace(/["\\]/g, '\\$&')}"` : text}`;
+};
+
+/**
+ * Compile a query string into a predicate. Throws QuerySyntaxError.
+ */
+export const compileQuery = (input: string): ((log: QueryableLog) => boolean) => {
+  const ast = parseQuery(input);
+  if (!ast) return () => true;
+  return (log: QueryableLog) => evaluateQuery(ast, log);
+};
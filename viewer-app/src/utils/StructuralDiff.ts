@@ -0,0 +1,214 @@
+/**
+ * StructuralDiff - path-level differences between two JSON-like values
+ *
+ * Objects are compared key by key. Array elements are matched by identity
+ * (an `id`/`key`/`_id` field, or their serialized content otherwise); matched
+ * elements outside the longest common subsequence are reported as moves, and
+ * matched objects are diffed recursively at their new index.
+ */
+
+export type DiffPathSegment = string | number;
+
+export type DiffChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface DiffChange {
+  kind: DiffChangeKind;
+  path: DiffPathSegment[];
+  before?: any;
+  after?: any;
+  // Array indexes for moves
+  fromIndex?: number;
+  toIndex?: number;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  moved: number;
+}
+
+// Above this many element pairs, arrays are compared index by index
+const MAX_LCS_CELLS = 250000;
+
+const IDENTITY_FIELDS = ['id', 'key', '_id'];
+
+const isObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const serialize = (value: any): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const getIdentity = (value: any): string => {
+  if (isObject(value)) {
+    for (let i = 0; i < IDENTITY_FIELDS.length; i++) {
+      const field = IDENTITY_FIELDS[i];
+      const id = value[field];
+      if (typeof id === 'string' || typeof id === 'number') {
+        return `${field}:${id}`;
+      }
+    }
+  }
+  return `value:${serialize(value)}`;
+};
+
+/**
+ * Pairs of indexes [beforeIndex, afterIndex] forming the longest common
+ * subsequence of two key lists
+ */
+const longestCommonSubsequence = (a: string[], b: string[]): Array<[number, number]> => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table: number[] = new Array(rows * cols);
+  for (let i = 0; i < table.length; i++) table[i] = 0;
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+const diffArrays = (before: any[], after: any[], path: DiffPathSegment[], changes: DiffChange[]) => {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      diffInto(before[i], after[i], path.concat(i), changes, i >= before.length, i >= after.length);
+    }
+    return;
+  }
+
+  const beforeKeys = before.map(getIdentity);
+  const afterKeys = after.map(getIdentity);
+  const stable = longestCommonSubsequence(beforeKeys, afterKeys);
+  const matchedBefore: boolean[] = [];
+  const matchedAfter: boolean[] = [];
+
+  stable.forEach(([i, j]) => {
+    matchedBefore[i] = true;
+    matchedAfter[j] = true;
+    diffInto(before[i], after[j], path.concat(j), changes);
+  });
+
+  // Same identity on both sides but out of order: a move
+  afterKeys.forEach((key, j) => {
+    if (matchedAfter[j]) return;
+    for (let i = 0; i < beforeKeys.length; i++) {
+      if (!matchedBefore[i] && beforeKeys[i] === key) {
+        matchedBefore[i] = true;
+        matchedAfter[j] = true;
+        changes.push({ kind: 'moved', path: path.concat(j), before: before[i], after: after[j], fromIndex: i, toIndex: j });
+        diffInto(before[i], after[j], path.concat(j), changes);
+        return;
+      }
+    }
+  });
+
+  // Unmatched elements at the same index read better as an in-place change
+  const removedIndexes: number[] = [];
+  before.forEach((_, i) => {
+    if (!matchedBefore[i]) removedIndexes.push(i);
+  });
+  after.forEach((value, j) => {
+    if (matchedAfter[j]) return;
+    const sameIndex = removedIndexes.indexOf(j);
+    if (sameIndex !== -1) {
+      removedIndexes.splice(sameIndex, 1);
+      diffInto(before[j], value, path.concat(j), changes);
+    } else {
+      changes.push({ kind: 'added', path: path.concat(j), after: value });
+    }
+  });
+  removedIndexes.forEach(i => {
+    changes.push({ kind: 'removed', path: path.concat(i), before: before[i] });
+  });
+};
+
+const diffInto = (
+  before: any,
+  after: any,
+  path: DiffPathSegment[],
+  changes: DiffChange[],
+  missingBefore = false,
+  missingAfter = false
+) => {
+  if (missingBefore) {
+    changes.push({ kind: 'added', path, after });
+    return;
+  }
+  if (missingAfter) {
+    changes.push({ kind: 'removed', path, before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, changes);
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    Object.keys(before).forEach(key => {
+      diffInto(before[key], after[key], path.concat(key), changes, false, !(key in after));
+    });
+    Object.keys(after).forEach(key => {
+      if (!(key in before)) {
+        changes.push({ kind: 'added', path: path.concat(key), after: after[key] });
+      }
+    });
+    return;
+  }
+
+  if (before !== after && serialize(before) !== serialize(after)) {
+    changes.push({ kind: 'changed', path, before, after });
+  }
+};
+
+/**
+ * All changes turning `before` into `after`, ordered by path
+ */
+export const diffValues = (before: any, after: any): DiffChange[] => {
+  const changes: DiffChange[] = [];
+  diffInto(before, after, [], changes);
+  return changes.sort((a, b) => comparePaths(a.path, b.path));
+};
+
+export const summarizeDiff = (changes: DiffChange[]): DiffSummary =>
+  changes.reduce<DiffSummary>((summary, change) => {
+    summary[change.kind]++;
+    return summary;
+  }, { added: 0, removed: 0, changed: 0, moved: 0 });
+
+const comparePaths = (a: DiffPathSegment[], b: DiffPathSegment[]): number => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') {
+      return (a[i] as number) - (b[i] as number);
+    }
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return a.length - b.length;
+};
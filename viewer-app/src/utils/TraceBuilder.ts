@@ -0,0 +1,116 @@
+/**
+ * TraceBuilder - call spans from `function` monitoring entries
+ *
+ * Each entry is one completed call. It ends at `metadata.endTime` (or when
+ * the server received it) and starts `metadata.duration` ms earlier, unless
+ * `metadata.startTime` is given. Within a script, a span is nested under the
+ * innermost earlier span that fully contains it.
+ */
+
+import { MonitoringHistoryEntry, MonitoringHistorySeries } from '../lib/allog-api-client';
+
+export interface TraceSpan {
+  id: string;
+  moduleId: string;
+  scriptId: string;
+  // Monitored name the entry was recorded under
+  name: string;
+  functionName: string;
+  start: number;
+  end: number;
+  duration: number;
+  depth: number;
+  parentId: string | null;
+  error?: string;
+  entry: MonitoringHistoryEntry;
+}
+
+export interface ScriptTrace {
+  scriptId: string;
+  spans: TraceSpan[];
+  maxDepth: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Start and end (epoch ms) of the call recorded by a function entry
+ */
+export const getCallTiming = (entry: MonitoringHistoryEntry): { start: number; end: number } => {
+  const metadata = entry.metadata || {};
+  const duration = typeof metadata.duration === 'number' && metadata.duration > 0 ? metadata.duration : 0;
+  const hasStart = typeof metadata.startTime === 'number';
+  const end = typeof metadata.endTime === 'number'
+    ? metadata.endTime
+    : hasStart ? metadata.startTime + duration : entry.timestamp;
+  const start = hasStart ? metadata.startTime : end - duration;
+  return { start, end: Math.max(end, start) };
+};
+
+const toSpan = (series: MonitoringHistorySeries, entry: MonitoringHistoryEntry): TraceSpan => {
+  const metadata = entry.metadata || {};
+  const { start, end } = getCallTiming(entry);
+
+  return {
+    id: entry.id,
+    moduleId: series.moduleId,
+    scriptId: series.scriptId,
+    name: series.name,
+    functionName: metadata.functionName || series.name,
+    start,
+    end,
+    duration: end - start,
+    depth: 0,
+    parentId: null,
+    error: metadata.error || undefined,
+    entry
+  };
+};
+
+const nestSpans = (spans: TraceSpan[]): number => {
+  // Outer calls first: earlier start, then longer duration
+  spans.sort((a, b) => a.start - b.start || b.duration - a.duration);
+
+  const open: TraceSpan[] = [];
+  let maxDepth = 0;
+  spans.forEach(span => {
+    while (open.length > 0) {
+      const top = open[open.length - 1];
+      if (span.start >= top.start && span.end <= top.end && span.id !== top.id) break;
+      open.pop();
+    }
+    const parent = open[open.length - 1];
+    span.parentId = parent ? parent.id : null;
+    span.depth = open.length;
+    if (span.depth > maxDepth) maxDepth = span.depth;
+    open.push(span);
+  });
+  return maxDepth;
+};
+
+/**
+ * Group function history into one trace per script
+ */
+export const buildTraces = (seriesList: MonitoringHistorySeries[]): ScriptTrace[] => {
+  const byScript: Record<string, TraceSpan[]> = {};
+
+  seriesList.forEach(series => {
+    if (series.type !== 'function') return;
+    series.entries.forEach(entry => {
+      if (!byScript[series.scriptId]) byScript[series.scriptId] = [];
+      byScript[series.scriptId].push(toSpan(series, entry));
+    });
+  });
+
+  return Object.keys(byScript).sort().map(scriptId => {
+    const spans = byScript[scriptId];
+    const maxDepth = nestSpans(spans);
+    return {
+      scriptId,
+      spans,
+      maxDepth,
+      start: spans.reduce((min, span) => Math.min(min, span.start), Infinity),
+      end: spans.reduce((max, span) => Math.max(max, span.end), -Infinity)
+    };
+  });
+};
@@ -0,0 +1,220 @@
+/**
+ * WatchRules - live rules built from SaveSystem `comparison` nodes
+ *
+ * The node's leftOperand names what to watch:
+ *   cart.total            value of `cart.total`, or field `total` of `cart`
+ *   checkout:cart.total   same, only for script ids containing "checkout"
+ *   fetchUser.duration    for function entries, `duration` and `error`
+ *                         read the call metadata
+ * and operation/rightOperand say when it fires. Value conditions fire when
+ * they become true; for function entries every matching call fires.
+ */
+
+export type WatchOperation =
+  | 'equals'
+  | 'not-equals'
+  | 'greater-than'
+  | 'greater-or-equal'
+  | 'less-than'
+  | 'less-or-equal'
+  | 'contains'
+  | 'matches'
+  | 'changes'
+  | 'changes-to';
+
+export const WATCH_OPERATIONS: Array<{ value: WatchOperation; label: string; needsOperand: boolean }> = [
+  { value: 'equals', label: 'Equals', needsOperand: true },
+  { value: 'not-equals', label: 'Not Equals', needsOperand: true },
+  { value: 'greater-than', label: 'Greater Than', needsOperand: true },
+  { value: 'greater-or-equal', label: 'Greater or Equal', needsOperand: true },
+  { value: 'less-than', label: 'Less Than', needsOperand: true },
+  { value: 'less-or-equal', label: 'Less or Equal', needsOperand: true },
+  { value: 'contains', label: 'Contains', needsOperand: true },
+  { value: 'matches', label: 'Matches Pattern', needsOperand: true },
+  { value: 'changes', label: 'Changes', needsOperand: false },
+  { value: 'changes-to', label: 'Changes To', needsOperand: true }
+];
+
+export interface WatchRule {
+  id: string;
+  name: string;
+  // Substring of the script id, as in the Monitoring filters
+  scriptId?: string;
+  // Dotted name, possibly continuing into the value
+  target: string;
+  operation: WatchOperation;
+  operand: any;
+}
+
+/**
+ * Minimal shape of a monitoring_update payload
+ */
+export interface WatchableEntry {
+  moduleId: string;
+  scriptId: string;
+  type: string;
+  name: string;
+  value: any;
+  previousValue?: any;
+  timestamp?: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Per rule and variable: whether the condition held last time, and the last
+ * watched value
+ */
+export interface WatchState {
+  matched: boolean;
+  seen: boolean;
+  value?: any;
+}
+
+export interface WatchEvaluation {
+  fired: boolean;
+  value: any;
+  state: WatchState;
+}
+
+const FUNCTION_FIELDS = ['duration', 'error'];
+
+/**
+ * Build a rule from a comparison node, or explain why it can't be watched
+ */
+export const compileWatchRule = (node: {
+  id: string;
+  name: string;
+  metadata?: { comparisonData?: { operation: string; leftOperand: any; rightOperand: any } };
+}): { rule: WatchRule | null; error: string | null } => {
+  const comparison = node.metadata?.comparisonData;
+  if (!comparison) return { rule: null, error: 'No comparison settings' };
+
+  const operation = WATCH_OPERATIONS.find(op => op.value === comparison.operation);
+  if (!operation) return { rule: null, error: 'Select an operation' };
+
+  if (typeof comparison.leftOperand !== 'string' || comparison.leftOperand.trim() === '') {
+    return { rule: null, error: 'Left operand must name a monitored value, e.g. "cart.total"' };
+  }
+
+  if (operation.value === 'matches') {
+    try {
+      new RegExp(String(comparison.rightOperand));
+    } catch {
+      return { rule: null, error: 'Right operand is not a valid pattern' };
+    }
+  }
+
+  let target = comparison.leftOperand.trim();
+  let scriptId: string | undefined;
+  const colon = target.indexOf(':');
+  if (colon > 0) {
+    scriptId = target.slice(0, colon);
+    target = target.slice(colon + 1);
+  }
+
+  return {
+    rule: {
+      id: node.id,
+      name: node.name,
+      scriptId,
+      target,
+      operation: operation.value,
+      operand: comparison.rightOperand
+    },
+    error: null
+  };
+};
+
+/**
+ * Rules for the enabled, valid comparison nodes among SaveSystem items
+ */
+export const compileWatchRules = (items: any[]): WatchRule[] => (items || [])
+  .filter((item: any) =>
+    item.type === 'comparison' &&
+    !('children' in item) &&
+    item.metadata?.comparisonData &&
+    item.metadata.comparisonData.enabled !== false
+  )
+  .map((item: any) => compileWatchRule(item).rule)
+  .filter((rule: WatchRule | null): rule is WatchRule => rule !== null);
+
+const readPath = (value: any, path: string[]): any => {
+  let current = value;
+  for (let i = 0; i < path.length; i++) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[path[i]];
+  }
+  return current;
+};
+
+/**
+ * Value the rule watches in this entry, or undefined when the entry is about
+ * something else
+ */
+export const resolveWatchTarget = (rule: WatchRule, entry: WatchableEntry): { matches: boolean; value?: any } => {
+  if (rule.scriptId && entry.scriptId.indexOf(rule.scriptId) === -1) return { matches: false };
+
+  if (rule.target === entry.name) return { matches: true, value: entry.value };
+  if (rule.target.indexOf(`${entry.name}.`) !== 0) return { matches: false };
+
+  const path = rule.target.slice(entry.name.length + 1).split('.');
+  if (entry.type === 'function' && path.length === 1 && FUNCTION_FIELDS.indexOf(path[0]) !== -1) {
+    return { matches: true, value: entry.metadata ? entry.metadata[path[0]] : undefined };
+  }
+  return { matches: true, value: readPath(entry.value, path) };
+};
+
+const sameValue = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+};
+
+const compareNumbers = (left: any, right: any, compare: (a: number, b: number) => boolean): boolean => {
+  const a = Number(left);
+  const b = Number(right);
+  return left !== null && left !== '' && isFinite(a) && isFinite(b) && compare(a, b);
+};
+
+const testCondition = (rule: WatchRule, value: any, state: WatchState): boolean => {
+  const operand = rule.operand;
+  switch (rule.operation) {
+    case 'equals': return sameValue(value, operand);
+    case 'not-equals': return !sameValue(value, operand);
+    case 'greater-than': return compareNumbers(value, operand, (a, b) => a > b);
+    case 'greater-or-equal': return compareNumbers(value, operand, (a, b) => a >= b);
+    case 'less-than': return compareNumbers(value, operand, (a, b) => a < b);
+    case 'less-or-equal': return compareNumbers(value, operand, (a, b) => a <= b);
+    case 'contains':
+      if (Array.isArray(value)) return value.some(item => sameValue(item, operand));
+      return typeof value === 'string' && value.indexOf(String(operand)) !== -1;
+    case 'matches': return value !== undefined && new RegExp(String(operand)).test(String(value));
+    case 'changes': return state.seen && !sameValue(value, state.value);
+    case 'changes-to': return sameValue(value, operand) && !(state.seen && sameValue(state.value, operand));
+    default: return false;
+  }
+};
+
+/**
+ * Evaluate one rule against one entry the rule matched
+ */
+export const evaluateWatchRule = (rule: WatchRule, entry: WatchableEntry, value: any, state: WatchState): WatchEvaluation => {
+  const matched = testCondition(rule, value, state);
+  // Each function call is its own event; values fire on the false -> true edge
+  const fired = matched && (entry.type === 'function' || !state.matched || rule.operation === 'changes');
+  return {
+    fired,
+    value,
+    state: { matched, seen: true, value }
+  };
+};
+
+export const describeWatchRule = (rule: WatchRule): string => {
+  const operation = WATCH_OPERATIONS.find(op => op.value === rule.operation);
+  const label = operation ? operation.label.toLowerCase() : rule.operation;
+  const target = rule.scriptId ? `${rule.scriptId}:${rule.target}` : rule.target;
+  return operation && operation.needsOperand ? `${target} ${label} ${JSON.stringify(rule.operand)}` : `${target} ${label}`;
+};